@@ -0,0 +1,177 @@
+import React, { useMemo } from 'react';
+import {
+  ComposedChart,
+  BarChart,
+  Area,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Cell
+} from "recharts";
+import { Trade } from './tradingEngine';
+import { equityCurve, performanceStats, symbolBreakdown } from './analytics';
+import { formatTime } from './marketData';
+
+type AnalyticsViewProps = {
+  trades: Trade[];
+  startingBalance: number;
+  formatCurrency: (value: number) => string;
+};
+
+const UP_COLOR = '#22c55e';
+const DOWN_COLOR = '#ef4444';
+
+const formatRatio = (value: number) => (Number.isFinite(value) ? value.toFixed(2) : '∞');
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+export default function AnalyticsView({ trades, startingBalance, formatCurrency }: AnalyticsViewProps) {
+  const curve = useMemo(
+    () => equityCurve(trades, startingBalance).map(point => ({ ...point, label: formatTime(point.timestamp) })),
+    [trades, startingBalance]
+  );
+  const stats = useMemo(() => performanceStats(trades, startingBalance), [trades, startingBalance]);
+  const symbols = useMemo(() => symbolBreakdown(trades), [trades]);
+
+  const axisTick = { fill: '#999', fontSize: 12 };
+  const tooltipStyle = { backgroundColor: '#1f2937', borderColor: '#374151' };
+
+  const metrics: [string, string, boolean?][] = [
+    ['Net PnL', formatCurrency(stats.netPnl), stats.netPnl >= 0],
+    ['Max Drawdown', `${formatCurrency(stats.maxDrawdown)} (${formatPercent(stats.maxDrawdownPercent)})`, stats.maxDrawdown === 0],
+    ['Win Rate', `${formatPercent(stats.winRate)} (${stats.wins}/${stats.closedTrades})`],
+    ['Profit Factor', formatRatio(stats.profitFactor)],
+    ['Average Win', formatCurrency(stats.averageWin)],
+    ['Average Loss', formatCurrency(stats.averageLoss)],
+    ['Expectancy', formatCurrency(stats.expectancy), stats.expectancy >= 0],
+    ['Sharpe / Sortino', `${formatRatio(stats.sharpe)} / ${formatRatio(stats.sortino)}`]
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {metrics.map(([label, value, positive]) => (
+          <div key={label} className="bg-gray-800 rounded-xl p-6 shadow-lg">
+            <h3 className="text-gray-400 text-sm font-medium mb-1">{label}</h3>
+            <p className={`text-xl font-bold ${positive === undefined ? '' : positive ? 'text-green-500' : 'text-red-500'}`}>
+              {value}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+        <h2 className="text-xl font-bold mb-1">Equity Curve</h2>
+        <p className="text-gray-400 text-sm mb-4">Realized equity after fees and funding; Sharpe and Sortino are per trade</p>
+        {stats.closedTrades === 0 ? (
+          <p className="text-gray-500 text-center py-4">No closed trades yet</p>
+        ) : (
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={curve}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                <XAxis dataKey="label" tick={axisTick} tickLine={{ stroke: '#444' }} />
+                <YAxis
+                  yAxisId="equity"
+                  domain={['auto', 'auto']}
+                  tick={axisTick}
+                  tickFormatter={(value) => formatCurrency(Number(value))}
+                />
+                <YAxis
+                  yAxisId="drawdown"
+                  orientation="right"
+                  tick={axisTick}
+                  tickFormatter={(value) => formatCurrency(Number(value))}
+                />
+                <Tooltip
+                  contentStyle={tooltipStyle}
+                  labelStyle={{ color: '#fff' }}
+                  formatter={(value, name) => [formatCurrency(Number(value)), name]}
+                />
+                <ReferenceLine yAxisId="equity" y={startingBalance} stroke="#666" strokeDasharray="3 3" />
+                <Area
+                  yAxisId="drawdown"
+                  type="stepAfter"
+                  dataKey="drawdown"
+                  name="Drawdown"
+                  stroke={DOWN_COLOR}
+                  fill={DOWN_COLOR}
+                  fillOpacity={0.2}
+                  isAnimationActive={false}
+                />
+                <Line
+                  yAxisId="equity"
+                  type="stepAfter"
+                  dataKey="equity"
+                  name="Equity"
+                  stroke="#3b82f6"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+        <h2 className="text-xl font-bold mb-4">By Symbol</h2>
+        {symbols.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No trades yet</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={symbols}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                  <XAxis dataKey="symbol" tick={axisTick} />
+                  <YAxis tick={axisTick} tickFormatter={(value) => formatCurrency(Number(value))} />
+                  <Tooltip
+                    contentStyle={tooltipStyle}
+                    labelStyle={{ color: '#fff' }}
+                    formatter={(value, name) => [formatCurrency(Number(value)), name]}
+                  />
+                  <ReferenceLine y={0} stroke="#666" />
+                  <Bar dataKey="netPnl" name="Net PnL" isAnimationActive={false}>
+                    {symbols.map(row => (
+                      <Cell key={row.symbol} fill={row.netPnl >= 0 ? UP_COLOR : DOWN_COLOR} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-2">Symbol</th>
+                  <th className="py-2 text-right">Closed</th>
+                  <th className="py-2 text-right">Win Rate</th>
+                  <th className="py-2 text-right">Fees</th>
+                  <th className="py-2 text-right">Net PnL</th>
+                </tr>
+              </thead>
+              <tbody>
+                {symbols.map(row => (
+                  <tr key={row.symbol} className="border-t border-gray-700">
+                    <td className="py-2 font-bold">{row.symbol}</td>
+                    <td className="py-2 text-right">{row.trades}</td>
+                    <td className="py-2 text-right">{formatPercent(row.winRate)}</td>
+                    <td className="py-2 text-right">{formatCurrency(row.fees)}</td>
+                    <td className={`py-2 text-right ${row.netPnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {formatCurrency(row.netPnl)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { ChangeEvent, useState } from 'react';
+import { Bot, botPnl, defaultParams } from './bots';
+import { STRATEGIES, StrategyId } from './strategies';
+import { AccountState } from './tradingEngine';
+import { MarkPrices } from './marketData';
+
+type BotsPanelProps = {
+  bots: Bot[];
+  account: AccountState;
+  marks: MarkPrices;
+  symbol: string;
+  onAdd: (strategyId: StrategyId, params: Record<string, number>) => void;
+  onToggle: (botId: string) => void;
+  onRemove: (botId: string) => void;
+  onBacktest: (botId: string, file: File) => void;
+  formatCurrency: (value: number) => string;
+  formatClock: (timestamp: number) => string;
+};
+
+// Only the latest few entries are shown; the bot keeps more
+const VISIBLE_LOGS = 20;
+
+export default function BotsPanel({
+  bots,
+  account,
+  marks,
+  symbol,
+  onAdd,
+  onToggle,
+  onRemove,
+  onBacktest,
+  formatCurrency,
+  formatClock
+}: BotsPanelProps) {
+  const [strategyId, setStrategyId] = useState<StrategyId>('MA_CROSSOVER');
+  const [params, setParams] = useState<Record<string, number>>(() => defaultParams('MA_CROSSOVER'));
+  const strategy = STRATEGIES[strategyId];
+
+  const changeStrategy = (id: StrategyId) => {
+    setStrategyId(id);
+    setParams(defaultParams(id));
+  };
+
+  const backtest = (botId: string) => (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onBacktest(botId, file);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-700 rounded-lg p-4 space-y-3 text-sm">
+        <select
+          value={strategyId}
+          onChange={(e) => changeStrategy(e.target.value as StrategyId)}
+          className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {Object.values(STRATEGIES).map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400">{strategy.description}</p>
+        <div className="grid grid-cols-2 gap-3">
+          {strategy.params.map(param => (
+            <div key={param.key}>
+              <label className="block text-gray-400 mb-1">{param.label}</label>
+              <input
+                type="number"
+                value={params[param.key]}
+                onChange={(e) => setParams({ ...params, [param.key]: parseFloat(e.target.value) || 0 })}
+                className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => onAdd(strategyId, params)}
+          className="w-full bg-blue-600 hover:bg-blue-700 py-2 rounded-lg font-medium"
+        >
+          Add {strategy.name} bot on {symbol}
+        </button>
+      </div>
+
+      {bots.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">No bots</p>
+      ) : (
+        bots.map(bot => {
+          const pnl = botPnl(account, bot.id, marks);
+          return (
+            <div key={bot.id} className="bg-gray-700 rounded-lg p-4 text-sm">
+              <div className="flex justify-between items-center mb-2">
+                <div>
+                  <span className="font-bold">{bot.name}</span>
+                  <span className={`ml-2 px-2 py-1 rounded text-xs ${bot.running ? 'bg-green-900 text-green-400' : 'bg-gray-600 text-gray-300'}`}>
+                    {bot.running ? 'Running' : 'Stopped'}
+                  </span>
+                </div>
+                <span className={pnl.net >= 0 ? 'text-green-500' : 'text-red-500'}>{formatCurrency(pnl.net)}</span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-x-4 text-gray-400 mb-3">
+                <div className="flex justify-between"><span>Realized</span><span>{formatCurrency(pnl.realized)}</span></div>
+                <div className="flex justify-between"><span>Unrealized</span><span>{formatCurrency(pnl.unrealized)}</span></div>
+                <div className="flex justify-between"><span>Fees</span><span>{formatCurrency(pnl.fees)}</span></div>
+                <div className="flex justify-between"><span>Funding</span><span>{formatCurrency(pnl.funding)}</span></div>
+                <div className="flex justify-between"><span>Fills</span><span>{pnl.fills}</span></div>
+              </div>
+
+              <div className="flex space-x-2 mb-2">
+                <button
+                  onClick={() => onToggle(bot.id)}
+                  className={`flex-1 py-1 rounded ${bot.running ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'}`}
+                >
+                  {bot.running ? 'Stop' : 'Start'}
+                </button>
+                <label className="flex-1 text-center bg-gray-600 hover:bg-gray-500 py-1 rounded cursor-pointer">
+                  Backtest
+                  <input type="file" accept=".csv,.json,text/csv,application/json" onChange={backtest(bot.id)} className="hidden" />
+                </label>
+                <button
+                  onClick={() => onRemove(bot.id)}
+                  disabled={bot.running}
+                  className="flex-1 bg-gray-600 hover:bg-gray-500 py-1 rounded disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+
+              <details>
+                <summary className="cursor-pointer text-gray-400">Log ({bot.logs.length})</summary>
+                <div className="mt-2 space-y-1 max-h-48 overflow-y-auto text-xs">
+                  {bot.logs.slice(0, VISIBLE_LOGS).map((entry, i) => (
+                    <div key={`${entry.timestamp}-${i}`} className={entry.level === 'error' ? 'text-red-400' : 'text-gray-300'}>
+                      <span className="text-gray-500">{formatClock(entry.timestamp)}</span> {entry.message}
+                    </div>
+                  ))}
+                </div>
+              </details>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
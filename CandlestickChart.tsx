@@ -0,0 +1,306 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ComposedChart,
+  BarChart,
+  LineChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  ReferenceDot,
+  Cell
+} from "recharts";
+import { Candle, Timeframe, TIMEFRAMES, aggregateCandles } from './candles';
+import { sma, ema, bollinger, vwap, rsi, macd } from './indicators';
+import { formatTime } from './marketData';
+
+type Overlay = 'SMA' | 'EMA' | 'BB' | 'VWAP';
+type Oscillator = 'RSI' | 'MACD';
+
+export type ChartLevel = {
+  key: string;
+  price: number;
+  label: string;
+  color: string;
+};
+
+// A point event, such as a triggered alert, pinned to the candle it happened in
+export type ChartMarker = {
+  key: string;
+  time: number;
+  price: number;
+  label: string;
+  color: string;
+};
+
+type ChartRow = Candle & {
+  label: string;
+  range: [number, number];
+  sma: number | null;
+  ema: number | null;
+  bbUpper: number | null;
+  bbMiddle: number | null;
+  bbLower: number | null;
+  vwap: number | null;
+  rsi: number | null;
+  macd: number | null;
+  macdSignal: number | null;
+  macdHistogram: number | null;
+};
+
+type CandleShapeProps = {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: ChartRow;
+};
+
+type CandlestickChartProps = {
+  candles: Candle[];
+  levels: ChartLevel[];
+  markers?: ChartMarker[];
+  formatPrice: (value: number) => string;
+  formatVolume: (value: number) => string;
+};
+
+const DISPLAY_CANDLES = 100;
+const SMA_PERIOD = 20;
+const EMA_PERIOD = 50;
+const UP_COLOR = '#22c55e';
+const DOWN_COLOR = '#ef4444';
+
+const OVERLAYS: Overlay[] = ['SMA', 'EMA', 'BB', 'VWAP'];
+const OSCILLATORS: Oscillator[] = ['RSI', 'MACD'];
+
+// Draws the wick over the full high-low bar and the body between open and close
+const CandleShape = ({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) => {
+  if (!payload) return null;
+  const { open, close, high, low } = payload;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const ratio = high === low ? 0 : height / (high - low);
+  const openY = y + (high - open) * ratio;
+  const closeY = y + (high - close) * ratio;
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} />
+      <rect
+        x={x + width * 0.15}
+        y={Math.min(openY, closeY)}
+        width={width * 0.7}
+        height={Math.max(1, Math.abs(openY - closeY))}
+        fill={color}
+      />
+    </g>
+  );
+};
+
+const toggle = <T,>(list: T[], item: T) =>
+  list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+export default function CandlestickChart({
+  candles,
+  levels,
+  markers = [],
+  formatPrice,
+  formatVolume
+}: CandlestickChartProps) {
+  const [timeframe, setTimeframe] = useState<Timeframe>('1m');
+  const [overlays, setOverlays] = useState<Overlay[]>(['SMA']);
+  const [oscillators, setOscillators] = useState<Oscillator[]>([]);
+
+  // Indicators run over the full series so the visible window has no warm-up gap
+  const rows = useMemo<ChartRow[]>(() => {
+    const series = aggregateCandles(candles, TIMEFRAMES[timeframe]);
+    const closes = series.map(c => c.close);
+    const smaSeries = sma(closes, SMA_PERIOD);
+    const emaSeries = ema(closes, EMA_PERIOD);
+    const bands = bollinger(closes);
+    const vwapSeries = vwap(series);
+    const rsiSeries = rsi(closes);
+    const macdSeries = macd(closes);
+
+    return series
+      .map((candle, i) => ({
+        ...candle,
+        label: formatTime(candle.time),
+        range: [candle.low, candle.high] as [number, number],
+        sma: smaSeries[i],
+        ema: emaSeries[i],
+        bbUpper: bands.upper[i],
+        bbMiddle: bands.middle[i],
+        bbLower: bands.lower[i],
+        vwap: vwapSeries[i],
+        rsi: rsiSeries[i],
+        macd: macdSeries.line[i],
+        macdSignal: macdSeries.signal[i],
+        macdHistogram: macdSeries.histogram[i]
+      }))
+      .slice(-DISPLAY_CANDLES);
+  }, [candles, timeframe]);
+
+  // Markers outside the visible window are dropped
+  const placedMarkers = useMemo(
+    () =>
+      markers.flatMap(marker => {
+        const row = [...rows].reverse().find(r => r.time <= marker.time);
+        return row && marker.time < row.time + TIMEFRAMES[timeframe] ? [{ ...marker, x: row.label }] : [];
+      }),
+    [markers, rows, timeframe]
+  );
+
+  const axisTick = { fill: '#999', fontSize: 12 };
+  const tooltipStyle = { backgroundColor: '#1f2937', borderColor: '#374151' };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {(Object.keys(TIMEFRAMES) as Timeframe[]).map(tf => (
+          <button
+            key={tf}
+            onClick={() => setTimeframe(tf)}
+            className={`px-3 py-1 rounded-lg text-sm ${timeframe === tf ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {tf}
+          </button>
+        ))}
+        <span className="mx-2 text-gray-600">|</span>
+        {OVERLAYS.map(overlay => (
+          <button
+            key={overlay}
+            onClick={() => setOverlays(prev => toggle(prev, overlay))}
+            className={`px-3 py-1 rounded-lg text-sm ${overlays.includes(overlay) ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {overlay}
+          </button>
+        ))}
+        <span className="mx-2 text-gray-600">|</span>
+        {OSCILLATORS.map(oscillator => (
+          <button
+            key={oscillator}
+            onClick={() => setOscillators(prev => toggle(prev, oscillator))}
+            className={`px-3 py-1 rounded-lg text-sm ${oscillators.includes(oscillator) ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {oscillator}
+          </button>
+        ))}
+      </div>
+
+      <div className="h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={rows} syncId="price">
+            <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+            <XAxis dataKey="label" tick={axisTick} tickLine={{ stroke: '#444' }} />
+            <YAxis
+              domain={['auto', 'auto']}
+              tick={axisTick}
+              tickLine={{ stroke: '#444' }}
+              tickFormatter={(value) => formatPrice(Number(value))}
+            />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              labelStyle={{ color: '#fff' }}
+              formatter={(value, name) => [
+                Array.isArray(value) ? value.map(v => formatPrice(Number(v))).join(' – ') : formatPrice(Number(value)),
+                name
+              ]}
+            />
+            <Bar dataKey="range" name="Low – High" shape={<CandleShape />} isAnimationActive={false} />
+            {overlays.includes('SMA') && (
+              <Line type="monotone" dataKey="sma" name={`SMA ${SMA_PERIOD}`} stroke="#f59e0b" dot={false} isAnimationActive={false} />
+            )}
+            {overlays.includes('EMA') && (
+              <Line type="monotone" dataKey="ema" name={`EMA ${EMA_PERIOD}`} stroke="#3b82f6" dot={false} isAnimationActive={false} />
+            )}
+            {overlays.includes('BB') && [
+              <Line key="bbUpper" type="monotone" dataKey="bbUpper" name="BB Upper" stroke="#a855f7" strokeDasharray="3 3" dot={false} isAnimationActive={false} />,
+              <Line key="bbMiddle" type="monotone" dataKey="bbMiddle" name="BB Middle" stroke="#a855f7" dot={false} isAnimationActive={false} />,
+              <Line key="bbLower" type="monotone" dataKey="bbLower" name="BB Lower" stroke="#a855f7" strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+            ]}
+            {overlays.includes('VWAP') && (
+              <Line type="monotone" dataKey="vwap" name="VWAP" stroke="#14b8a6" dot={false} isAnimationActive={false} />
+            )}
+            {levels.map(level => (
+              <ReferenceLine
+                key={level.key}
+                y={level.price}
+                stroke={level.color}
+                strokeDasharray="4 4"
+                ifOverflow="extendDomain"
+                label={{ value: level.label, fill: level.color, fontSize: 12, position: 'right' }}
+              />
+            ))}
+            {placedMarkers.map(marker => (
+              <ReferenceDot
+                key={marker.key}
+                x={marker.x}
+                y={marker.price}
+                r={5}
+                fill={marker.color}
+                stroke="#fff"
+                ifOverflow="extendDomain"
+                label={{ value: marker.label, fill: marker.color, fontSize: 12, position: 'top' }}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="h-20">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={rows} syncId="price">
+            <XAxis dataKey="label" hide />
+            <YAxis tick={axisTick} tickFormatter={(value) => formatVolume(Number(value))} />
+            <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#fff' }} />
+            <Bar dataKey="volume" name="Volume" isAnimationActive={false}>
+              {rows.map(row => (
+                <Cell key={row.time} fill={row.close >= row.open ? UP_COLOR : DOWN_COLOR} fillOpacity={0.6} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {oscillators.includes('RSI') && (
+        <div className="h-24 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rows} syncId="price">
+              <XAxis dataKey="label" hide />
+              <YAxis domain={[0, 100]} ticks={[30, 70]} tick={axisTick} />
+              <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#fff' }} />
+              <ReferenceLine y={70} stroke="#666" strokeDasharray="3 3" />
+              <ReferenceLine y={30} stroke="#666" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="rsi" name="RSI 14" stroke="#f472b6" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {oscillators.includes('MACD') && (
+        <div className="h-24 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows} syncId="price">
+              <XAxis dataKey="label" hide />
+              <YAxis tick={axisTick} />
+              <Tooltip contentStyle={tooltipStyle} labelStyle={{ color: '#fff' }} />
+              <ReferenceLine y={0} stroke="#666" />
+              <Bar dataKey="macdHistogram" name="Histogram" isAnimationActive={false}>
+                {rows.map(row => (
+                  <Cell key={row.time} fill={(row.macdHistogram ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity={0.6} />
+                ))}
+              </Bar>
+              <Line type="monotone" dataKey="macd" name="MACD" stroke="#3b82f6" dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="macdSignal" name="Signal" stroke="#f59e0b" dot={false} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
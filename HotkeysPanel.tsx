@@ -0,0 +1,106 @@
+import React, { KeyboardEvent, useState } from 'react';
+import {
+  DEFAULT_HOTKEY_SETTINGS,
+  Hotkey,
+  HotkeySettings,
+  describeCommand,
+  isModifierOnly,
+  keysOf
+} from './hotkeys';
+import { QUOTE_ASSET } from './display';
+
+type HotkeysPanelProps = {
+  settings: HotkeySettings;
+  onChange: (settings: HotkeySettings) => void;
+};
+
+export default function HotkeysPanel({ settings, onChange }: HotkeysPanelProps) {
+  // Binding waiting for its new key
+  const [recording, setRecording] = useState<string | null>(null);
+
+  const updateBinding = (id: string, update: (binding: Hotkey) => Hotkey) =>
+    onChange({ ...settings, bindings: settings.bindings.map(b => (b.id === id ? update(b) : b)) });
+
+  // Captured here so the page's own hotkeys never see the press being recorded
+  const record = (id: string) => (e: KeyboardEvent<HTMLButtonElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (isModifierOnly(e)) return;
+    if (e.key !== 'Escape') {
+      const keys = keysOf(e);
+      // A key can only do one thing; whatever held it before is left unbound
+      onChange({
+        ...settings,
+        bindings: settings.bindings.map(b => (b.id === id ? { ...b, keys } : b.keys === keys ? { ...b, keys: '' } : b))
+      });
+    }
+    setRecording(null);
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <label className="flex items-center justify-between">
+        <span className="text-gray-400">Hotkeys enabled</span>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          className="accent-blue-500"
+        />
+      </label>
+      <label className="flex items-center justify-between">
+        <span className="text-gray-400">Confirm keyboard orders</span>
+        <input
+          type="checkbox"
+          checked={settings.confirmOrders}
+          onChange={(e) => onChange({ ...settings, confirmOrders: e.target.checked })}
+          className="accent-blue-500"
+        />
+      </label>
+
+      <div className="space-y-2">
+        {settings.bindings.map(binding => {
+          const { command } = binding;
+          return (
+            <div key={binding.id} className="flex items-center gap-2">
+              <button
+                onClick={() => setRecording(binding.id)}
+                onKeyDown={recording === binding.id ? record(binding.id) : undefined}
+                onBlur={() => setRecording(null)}
+                className={`w-24 shrink-0 px-2 py-1 rounded font-mono text-xs ${recording === binding.id ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+              >
+                {recording === binding.id ? 'Press a key' : binding.keys || 'Unbound'}
+              </button>
+              {command.type === 'ORDER' ? (
+                <div className="flex items-center gap-1 flex-1">
+                  <span className={command.side === 'BUY' ? 'text-green-500' : 'text-red-500'}>
+                    {command.side === 'BUY' ? 'Buy' : 'Sell'}
+                  </span>
+                  <input
+                    type="number"
+                    value={command.size.value}
+                    onChange={(e) => updateBinding(binding.id, b => ({
+                      ...b,
+                      command: { ...command, size: { ...command.size, value: parseFloat(e.target.value) || 0 } }
+                    }))}
+                    className="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1"
+                  />
+                  {command.size.unit === 'NOTIONAL' && <span className="text-gray-400">{QUOTE_ASSET}</span>}
+                </div>
+              ) : (
+                <span className="flex-1 text-gray-300">{describeCommand(command)}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={() => onChange(DEFAULT_HOTKEY_SETTINGS)}
+        className="w-full bg-gray-700 hover:bg-gray-600 py-1 rounded"
+      >
+        Restore defaults
+      </button>
+    </div>
+  );
+}
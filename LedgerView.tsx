@@ -0,0 +1,235 @@
+import React, { useMemo, useState } from 'react';
+import { AccountState } from './tradingEngine';
+import { MarkPrices } from './marketData';
+import { LEDGER_ENTRY_LABELS, LedgerEntryType, reconcile } from './ledger';
+import { COLLATERAL_HAIRCUTS, collateralAssets, holdingValue } from './collateral';
+
+type LedgerViewProps = {
+  account: AccountState;
+  onDeposit: (amount: number) => void;
+  onWithdraw: (amount: number) => void;
+  onDepositCollateral: (asset: string, amount: number) => void;
+  onWithdrawCollateral: (asset: string, amount: number) => void;
+  marks: MarkPrices;
+  // Exchanges hold their own funds, so transfers are only offered on the simulator
+  transfersDisabled: boolean;
+  formatCurrency: (value: number) => string;
+  // Coin amounts use the asset's own quantity precision
+  formatQuantity: (value: number, asset: string) => string;
+  formatDateTime: (timestamp: number) => string;
+};
+
+// The table only renders the newest entries; filtering searches the whole ledger
+const VISIBLE_ENTRIES = 200;
+
+export default function LedgerView({
+  account,
+  onDeposit,
+  onWithdraw,
+  onDepositCollateral,
+  onWithdrawCollateral,
+  marks,
+  transfersDisabled,
+  formatCurrency,
+  formatQuantity,
+  formatDateTime
+}: LedgerViewProps) {
+  const [amount, setAmount] = useState<number>(1000);
+  const [asset, setAsset] = useState<string>(collateralAssets()[0]);
+  const [assetAmount, setAssetAmount] = useState<number>(0.1);
+  const [filter, setFilter] = useState<LedgerEntryType | 'ALL'>('ALL');
+  const reconciliation = useMemo(() => reconcile(account), [account]);
+  const entries = useMemo(
+    () => account.ledger.filter(e => filter === 'ALL' || e.type === filter).slice(-VISIBLE_ENTRIES).reverse(),
+    [account.ledger, filter]
+  );
+  const coinTransfers = useMemo(
+    () => account.collateralTransfers.slice(-VISIBLE_ENTRIES).reverse(),
+    [account.collateralTransfers]
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+          <h3 className="text-gray-400 text-sm font-medium mb-1">Reconciliation</h3>
+          <p className={`text-2xl font-bold ${reconciliation.balanced ? 'text-green-500' : 'text-red-500'}`}>
+            {reconciliation.balanced ? 'Balanced' : 'Out of balance'}
+          </p>
+          <div className="text-sm text-gray-400 mt-2 space-y-1">
+            <div className="flex justify-between"><span>Balance</span><span>{formatCurrency(reconciliation.balance)}</span></div>
+            <div className="flex justify-between"><span>Ledger total</span><span>{formatCurrency(reconciliation.ledgerTotal)}</span></div>
+            <div className="flex justify-between"><span>Difference</span><span>{formatCurrency(reconciliation.difference)}</span></div>
+            {reconciliation.breaks.length > 0 && (
+              <div className="text-red-400">Running balance breaks at {reconciliation.breaks.join(', ')}</div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-gray-800 rounded-xl p-6 shadow-lg md:col-span-2">
+          <h3 className="text-gray-400 text-sm font-medium mb-3">Transfers</h3>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+              disabled={transfersDisabled}
+              className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            />
+            <button
+              onClick={() => onDeposit(amount)}
+              disabled={transfersDisabled}
+              className="bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg disabled:opacity-50"
+            >
+              Deposit
+            </button>
+            <button
+              onClick={() => onWithdraw(amount)}
+              disabled={transfersDisabled}
+              className="bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg disabled:opacity-50"
+            >
+              Withdraw
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {transfersDisabled ? 'Transfers are made on the exchange' : 'Withdrawals come out of the free balance; locked margin stays put'}
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+        <h2 className="text-xl font-bold mb-4">Collateral</h2>
+        <div className="flex gap-2 mb-4">
+          <select
+            value={asset}
+            onChange={(e) => setAsset(e.target.value)}
+            disabled={transfersDisabled}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {collateralAssets().map(a => (
+              <option key={a} value={a}>{a}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={assetAmount}
+            onChange={(e) => setAssetAmount(parseFloat(e.target.value) || 0)}
+            disabled={transfersDisabled}
+            className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          />
+          <button
+            onClick={() => onDepositCollateral(asset, assetAmount)}
+            disabled={transfersDisabled}
+            className="bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg disabled:opacity-50"
+          >
+            Deposit
+          </button>
+          <button
+            onClick={() => onWithdrawCollateral(asset, assetAmount)}
+            disabled={transfersDisabled}
+            className="bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg disabled:opacity-50"
+          >
+            Withdraw
+          </button>
+        </div>
+
+        {account.collateral.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No coin collateral</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-left border-b border-gray-700">
+                <th className="py-2">Asset</th>
+                <th className="py-2 text-right">Amount</th>
+                <th className="py-2 text-right">Haircut</th>
+                <th className="py-2 text-right">Counted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {account.collateral.map(holding => (
+                <tr key={holding.asset} className="border-b border-gray-700">
+                  <td className="py-2 font-bold">{holding.asset}</td>
+                  <td className="py-2 text-right">{formatQuantity(holding.amount, holding.asset)}</td>
+                  <td className="py-2 text-right">{(COLLATERAL_HAIRCUTS[holding.asset] * 100).toFixed(0)}%</td>
+                  <td className="py-2 text-right">{formatCurrency(holdingValue(holding, marks))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {coinTransfers.length > 0 && (
+          <table className="w-full text-sm mt-6">
+            <thead>
+              <tr className="text-gray-400 text-left border-b border-gray-700">
+                <th className="py-2">Time</th>
+                <th className="py-2">Asset</th>
+                <th className="py-2 text-right">Amount</th>
+                <th className="py-2 text-right">Value when moved</th>
+              </tr>
+            </thead>
+            <tbody>
+              {coinTransfers.map(transfer => (
+                <tr key={transfer.id} className="border-b border-gray-700">
+                  <td className="py-2 text-gray-400">{formatDateTime(transfer.timestamp)}</td>
+                  <td className="py-2 font-bold">{transfer.asset}</td>
+                  <td className={`py-2 text-right ${transfer.amount >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                    {transfer.amount > 0 ? '+' : ''}{formatQuantity(transfer.amount, transfer.asset)}
+                  </td>
+                  <td className="py-2 text-right">{formatCurrency(transfer.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Ledger</h2>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as LedgerEntryType | 'ALL')}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="ALL">All entries</option>
+            {Object.entries(LEDGER_ENTRY_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">No entries</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left border-b border-gray-700">
+                  <th className="py-2">Time</th>
+                  <th className="py-2">Type</th>
+                  <th className="py-2">Reference</th>
+                  <th className="py-2 text-right">Amount</th>
+                  <th className="py-2 text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.id} className="border-b border-gray-700">
+                    <td className="py-2 text-gray-400">{formatDateTime(entry.timestamp)}</td>
+                    <td className="py-2">{LEDGER_ENTRY_LABELS[entry.type]}</td>
+                    <td className="py-2 text-gray-400">{entry.reference ?? '—'}</td>
+                    <td className={`py-2 text-right ${entry.amount >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {formatCurrency(entry.amount)}
+                    </td>
+                    <td className="py-2 text-right">{formatCurrency(entry.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
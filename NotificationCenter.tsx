@@ -0,0 +1,140 @@
+import React, { useCallback, useRef, useState } from 'react';
+
+export type NotificationLevel = 'success' | 'info' | 'warning' | 'error';
+
+export type AppNotification = {
+  id: number;
+  level: NotificationLevel;
+  title: string;
+  message: string;
+  timestamp: number;
+};
+
+type NotificationCenterProps = {
+  notifications: AppNotification[];
+  toasts: number[];
+  onDismiss: (id: number) => void;
+  onClear: () => void;
+  formatClock: (timestamp: number) => string;
+};
+
+// History keeps this many entries; toasts hide themselves after the duration
+export const NOTIFICATION_LIMIT = 50;
+export const TOAST_DURATION_MS = 5000;
+
+const LEVEL_STYLES: Record<NotificationLevel, string> = {
+  success: 'border-green-500',
+  info: 'border-blue-500',
+  warning: 'border-yellow-500',
+  error: 'border-red-500'
+};
+
+export const useNotifications = () => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [toasts, setToasts] = useState<number[]>([]);
+  const nextId = useRef(1);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts(prev => prev.filter(toast => toast !== id));
+  }, []);
+
+  const notify = useCallback((level: NotificationLevel, title: string, message = '') => {
+    const id = nextId.current++;
+    setNotifications(prev => [{ id, level, title, message, timestamp: Date.now() }, ...prev].slice(0, NOTIFICATION_LIMIT));
+    setToasts(prev => [...prev, id]);
+    setTimeout(() => dismiss(id), TOAST_DURATION_MS);
+  }, [dismiss]);
+
+  const clear = useCallback(() => {
+    setNotifications([]);
+    setToasts([]);
+  }, []);
+
+  return { notifications, toasts, notify, dismiss, clear };
+};
+
+type NotificationCardProps = {
+  notification: AppNotification;
+  formatClock: (timestamp: number) => string;
+  onDismiss?: () => void;
+};
+
+const NotificationCard = ({ notification, formatClock, onDismiss }: NotificationCardProps) => (
+  <div className={`bg-gray-700 rounded-lg p-3 border-l-4 ${LEVEL_STYLES[notification.level]}`}>
+    <div className="flex justify-between items-start gap-3">
+      <span className="font-medium">{notification.title}</span>
+      {onDismiss ? (
+        <button onClick={onDismiss} className="text-gray-400 hover:text-white" aria-label="Dismiss">×</button>
+      ) : (
+        <span className="text-xs text-gray-400">{formatClock(notification.timestamp)}</span>
+      )}
+    </div>
+    {notification.message && <p className="text-sm text-gray-300 mt-1">{notification.message}</p>}
+  </div>
+);
+
+// Bell with the notification history, plus the toast stack in the corner
+export default function NotificationCenter({ notifications, toasts, onDismiss, onClear, formatClock }: NotificationCenterProps) {
+  const [open, setOpen] = useState(false);
+  const [seen, setSeen] = useState(0);
+  const latest = notifications[0]?.id ?? 0;
+  const unread = notifications.filter(n => n.id > seen).length;
+
+  const toggle = () => {
+    setOpen(prev => !prev);
+    setSeen(latest);
+  };
+
+  return (
+    <>
+      <div className="relative">
+        <button
+          onClick={toggle}
+          className="relative bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded-lg text-sm"
+        >
+          Notifications
+          {unread > 0 && (
+            <span className="ml-2 bg-red-600 rounded-full px-2 text-xs">{unread}</span>
+          )}
+        </button>
+        {open && (
+          <div className="absolute right-0 mt-2 w-80 bg-gray-800 rounded-xl p-4 shadow-lg z-40">
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="font-bold">Notifications</h3>
+              <button
+                onClick={onClear}
+                disabled={notifications.length === 0}
+                className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+              >
+                Clear
+              </button>
+            </div>
+            {notifications.length === 0 ? (
+              <p className="text-gray-500 text-center py-4 text-sm">Nothing yet</p>
+            ) : (
+              <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+                {notifications.map(notification => (
+                  <NotificationCard key={notification.id} notification={notification} formatClock={formatClock} />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="fixed top-4 right-4 w-80 space-y-2 z-50">
+        {notifications
+          .filter(notification => toasts.includes(notification.id))
+          .reverse()
+          .map(notification => (
+            <NotificationCard
+              key={notification.id}
+              notification={notification}
+              formatClock={formatClock}
+              onDismiss={() => onDismiss(notification.id)}
+            />
+          ))}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,168 @@
+import React, { useMemo } from 'react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer
+} from "recharts";
+import { OrderBook, BookLevel, depthSeries, spread } from './orderBook';
+import { TapePrint } from './marketData';
+
+type OrderBookPanelProps = {
+  book: OrderBook;
+  tape: TapePrint[];
+  formatPrice: (value: number) => string;
+  formatSize: (value: number) => string;
+  formatClock: (timestamp: number) => string;
+  // Clicking a ladder level hands its price to the order ticket
+  onSelectPrice?: (price: number) => void;
+};
+
+const UP_COLOR = '#22c55e';
+const DOWN_COLOR = '#ef4444';
+
+// The ladder shows the inside of the book; the depth chart shows all of it
+const LADDER_LEVELS = 10;
+
+type LadderRowProps = {
+  level: BookLevel;
+  total: number;
+  maxTotal: number;
+  color: string;
+  formatPrice: (value: number) => string;
+  formatSize: (value: number) => string;
+  onSelectPrice?: (price: number) => void;
+};
+
+const LadderRow = ({ level, total, maxTotal, color, formatPrice, formatSize, onSelectPrice }: LadderRowProps) => (
+  <tr
+    onClick={() => onSelectPrice?.(level.price)}
+    className={onSelectPrice ? 'cursor-pointer hover:bg-gray-700' : undefined}
+    style={{ background: `linear-gradient(to left, ${color}33 ${(total / maxTotal) * 100}%, transparent 0)` }}
+  >
+    <td className="py-0.5" style={{ color }}>{formatPrice(level.price)}</td>
+    <td className="py-0.5 text-right">{formatSize(level.size)}</td>
+    <td className="py-0.5 text-right text-gray-400">{formatSize(total)}</td>
+  </tr>
+);
+
+const withTotals = (levels: BookLevel[]) => {
+  let total = 0;
+  return levels.map(level => {
+    total += level.size;
+    return { level, total };
+  });
+};
+
+export default function OrderBookPanel({ book, tape, formatPrice, formatSize, formatClock, onSelectPrice }: OrderBookPanelProps) {
+  const asks = useMemo(() => withTotals(book.asks.slice(0, LADDER_LEVELS)), [book]);
+  const bids = useMemo(() => withTotals(book.bids.slice(0, LADDER_LEVELS)), [book]);
+  const depth = useMemo(() => depthSeries(book), [book]);
+  const maxTotal = Math.max(asks[asks.length - 1]?.total ?? 0, bids[bids.length - 1]?.total ?? 0, 1e-12);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div>
+        <h3 className="text-gray-400 text-sm font-medium mb-2">Order Book</h3>
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-gray-400 text-left">
+              <th className="py-1 font-normal">Price</th>
+              <th className="py-1 font-normal text-right">Size</th>
+              <th className="py-1 font-normal text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...asks].reverse().map(({ level, total }) => (
+              <LadderRow
+                key={`ask-${level.price}`}
+                level={level}
+                total={total}
+                maxTotal={maxTotal}
+                color={DOWN_COLOR}
+                formatPrice={formatPrice}
+                formatSize={formatSize}
+                onSelectPrice={onSelectPrice}
+              />
+            ))}
+            <tr>
+              <td colSpan={3} className="py-1 text-center text-gray-400 border-y border-gray-700">
+                Spread {formatPrice(spread(book))}
+              </td>
+            </tr>
+            {bids.map(({ level, total }) => (
+              <LadderRow
+                key={`bid-${level.price}`}
+                level={level}
+                total={total}
+                maxTotal={maxTotal}
+                color={UP_COLOR}
+                formatPrice={formatPrice}
+                formatSize={formatSize}
+                onSelectPrice={onSelectPrice}
+              />
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h3 className="text-gray-400 text-sm font-medium mb-2">Depth</h3>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={depth}>
+              <XAxis
+                dataKey="price"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                stroke="#9CA3AF"
+                tick={{ fontSize: 10 }}
+                tickFormatter={(value) => formatPrice(value)}
+              />
+              <YAxis stroke="#9CA3AF" tick={{ fontSize: 10 }} width={40} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1F2937', border: 'none' }}
+                labelFormatter={(value) => formatPrice(Number(value))}
+                formatter={(value) => formatSize(Number(value))}
+              />
+              <Area type="stepAfter" dataKey="bidDepth" name="Bids" stroke={UP_COLOR} fill={UP_COLOR} fillOpacity={0.2} isAnimationActive={false} />
+              <Area type="stepBefore" dataKey="askDepth" name="Asks" stroke={DOWN_COLOR} fill={DOWN_COLOR} fillOpacity={0.2} isAnimationActive={false} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-gray-400 text-sm font-medium mb-2">Time &amp; Sales</h3>
+        {tape.length === 0 ? (
+          <p className="text-gray-500 text-center py-4 text-sm">Waiting for trades</p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-1 font-normal">Time</th>
+                  <th className="py-1 font-normal text-right">Price</th>
+                  <th className="py-1 font-normal text-right">Size</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tape.map((print, i) => (
+                  <tr key={`${print.timestamp}-${i}`}>
+                    <td className="py-0.5 text-gray-400">{formatClock(print.timestamp)}</td>
+                    <td className="py-0.5 text-right" style={{ color: print.side === 'BUY' ? UP_COLOR : DOWN_COLOR }}>
+                      {formatPrice(print.price)}
+                    </td>
+                    <td className="py-0.5 text-right">{formatSize(print.size)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
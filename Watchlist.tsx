@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, YAxis } from "recharts";
+import { MarketState, SYMBOLS, SymbolInfo, change24h } from './marketData';
+import { aggregateCandles } from './candles';
+
+type SortKey = 'symbol' | 'price' | 'change' | 'volume';
+
+type WatchlistProps = {
+  market: MarketState;
+  selectedSymbol: string;
+  onSelect: (symbol: SymbolInfo) => void;
+  formatPrice: (value: number, symbol: string) => string;
+  formatPercent: (value: number) => string;
+  formatVolume: (value: number) => string;
+};
+
+type WatchlistRow = {
+  info: SymbolInfo;
+  price: number;
+  change: number;
+  // Quote volume, so symbols with very different prices compare fairly
+  volume: number;
+  sparkline: { close: number }[];
+};
+
+// 24h sparklines use 15m closes
+const SPARKLINE_INTERVAL_MS = 15 * 60000;
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'price', label: 'Last' },
+  { key: 'change', label: '24h' },
+  { key: 'volume', label: 'Volume' }
+];
+
+export default function Watchlist({
+  market,
+  selectedSymbol,
+  onSelect,
+  formatPrice,
+  formatPercent,
+  formatVolume
+}: WatchlistProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('symbol');
+  const [ascending, setAscending] = useState(true);
+
+  const rows = useMemo<WatchlistRow[]>(() =>
+    SYMBOLS.filter(info => market[info.symbol]).map(info => {
+      const symbolMarket = market[info.symbol];
+      const closes = aggregateCandles(symbolMarket.candles, SPARKLINE_INTERVAL_MS).map(c => ({ close: c.close }));
+      return {
+        info,
+        price: symbolMarket.price,
+        change: change24h(symbolMarket),
+        volume: symbolMarket.stats.volume24h * symbolMarket.price,
+        sparkline: closes.length > 1 ? closes : symbolMarket.history.map(p => ({ close: p.price }))
+      };
+    }),
+    [market]
+  );
+
+  const sorted = useMemo(() => {
+    const direction = ascending ? 1 : -1;
+    return [...rows].sort((a, b) => {
+      if (sortKey === 'symbol') return direction * a.info.symbol.localeCompare(b.info.symbol);
+      return direction * (a[sortKey] - b[sortKey]);
+    });
+  }, [rows, sortKey, ascending]);
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(prev => !prev);
+      return;
+    }
+    setSortKey(key);
+    // Text sorts A-Z first, numbers largest first
+    setAscending(key === 'symbol');
+  };
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-gray-400 text-left">
+          {COLUMNS.map(column => (
+            <th
+              key={column.key}
+              onClick={() => sortBy(column.key)}
+              className={`py-2 cursor-pointer select-none ${column.key === 'symbol' ? '' : 'text-right'}`}
+            >
+              {column.label}
+              {sortKey === column.key && (ascending ? ' ▲' : ' ▼')}
+            </th>
+          ))}
+          <th className="py-2" />
+        </tr>
+      </thead>
+      <tbody>
+        {sorted.map(row => (
+          <tr
+            key={row.info.symbol}
+            onClick={() => onSelect(row.info)}
+            className={`border-t border-gray-700 cursor-pointer ${row.info.symbol === selectedSymbol ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`}
+          >
+            <td className="py-2 pl-1">
+              <span className="mr-1 text-yellow-500">{row.info.icon}</span>
+              <span className="font-bold">{row.info.symbol}</span>
+            </td>
+            <td className="py-2 text-right">{formatPrice(row.price, row.info.symbol)}</td>
+            <td className={`py-2 text-right ${row.change >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+              {formatPercent(row.change)}
+            </td>
+            <td className="py-2 text-right text-gray-400">{formatVolume(row.volume)}</td>
+            <td className="py-2 pl-2">
+              <LineChart width={72} height={28} data={row.sparkline}>
+                <YAxis hide domain={['dataMin', 'dataMax']} />
+                <Line
+                  type="monotone"
+                  dataKey="close"
+                  stroke={row.change >= 0 ? '#22c55e' : '#ef4444'}
+                  dot={false}
+                  strokeWidth={1.5}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,126 @@
+import { MarketState, SymbolMarket } from './marketData';
+import { ema, rsi, sma } from './indicators';
+
+export type AlertIndicator = 'RSI' | 'SMA' | 'EMA';
+
+export type AlertCondition =
+  | { type: 'CROSS_ABOVE'; price: number }
+  | { type: 'CROSS_BELOW'; price: number }
+  // Absolute move, either direction, against the price `windowMs` ago
+  | { type: 'PERCENT_MOVE'; percent: number; windowMs: number }
+  // RSI is compared with `value`; SMA and EMA are compared with the price
+  | { type: 'INDICATOR'; indicator: AlertIndicator; period: number; operator: 'ABOVE' | 'BELOW'; value: number };
+
+export type PriceAlert = {
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  createdAt: number;
+  // Alerts fire once; triggered ones stay listed until removed
+  triggeredAt?: number;
+  triggerPrice?: number;
+};
+
+export type AlertTrigger = {
+  id: string;
+  price: number;
+};
+
+export const ALERT_WINDOWS: Record<string, number> = {
+  '5m': 5 * 60000,
+  '15m': 15 * 60000,
+  '1h': 60 * 60000,
+  '4h': 4 * 60 * 60000
+};
+
+const formatWindow = (windowMs: number) =>
+  Object.keys(ALERT_WINDOWS).find(key => ALERT_WINDOWS[key] === windowMs) ?? `${windowMs / 60000}m`;
+
+export const describeAlert = (alert: PriceAlert) => {
+  const { condition } = alert;
+  switch (condition.type) {
+    case 'CROSS_ABOVE':
+      return `${alert.symbol} crosses above ${condition.price}`;
+    case 'CROSS_BELOW':
+      return `${alert.symbol} crosses below ${condition.price}`;
+    case 'PERCENT_MOVE':
+      return `${alert.symbol} moves ${condition.percent}% within ${formatWindow(condition.windowMs)}`;
+    case 'INDICATOR':
+      return condition.indicator === 'RSI'
+        ? `${alert.symbol} RSI ${condition.period} ${condition.operator.toLowerCase()} ${condition.value}`
+        : `${alert.symbol} price ${condition.operator.toLowerCase()} ${condition.indicator} ${condition.period}`;
+  }
+};
+
+// A cross alert set on the wrong side of the price would fire at once
+export const validateAlert = (condition: AlertCondition, price: number): string | null => {
+  switch (condition.type) {
+    case 'CROSS_ABOVE':
+      if (condition.price <= price) return 'Level must be above the current price';
+      return null;
+    case 'CROSS_BELOW':
+      if (condition.price <= 0 || condition.price >= price) return 'Level must be below the current price';
+      return null;
+    case 'PERCENT_MOVE':
+      if (condition.percent <= 0) return 'Percent move must be positive';
+      if (condition.windowMs <= 0) return 'Window must be positive';
+      return null;
+    case 'INDICATOR':
+      if (condition.period < 2) return 'Indicator period must be at least 2';
+      if (condition.indicator === 'RSI' && (condition.value <= 0 || condition.value >= 100)) {
+        return 'RSI level must be between 0 and 100';
+      }
+      return null;
+  }
+};
+
+// Close of the last 1m candle that had opened by `timestamp`
+const priceAt = (market: SymbolMarket, timestamp: number) => {
+  for (let i = market.candles.length - 1; i >= 0; i--) {
+    if (market.candles[i].time <= timestamp) return market.candles[i].close;
+  }
+  return undefined;
+};
+
+const indicatorValue = (market: SymbolMarket, indicator: AlertIndicator, period: number) => {
+  const closes = market.candles.map(c => c.close);
+  const series = indicator === 'RSI' ? rsi(closes, period) : indicator === 'SMA' ? sma(closes, period) : ema(closes, period);
+  return series[series.length - 1];
+};
+
+export const isTriggered = (alert: PriceAlert, market: SymbolMarket) => {
+  const { condition } = alert;
+  const { price } = market;
+  switch (condition.type) {
+    case 'CROSS_ABOVE':
+      return price >= condition.price;
+    case 'CROSS_BELOW':
+      return price <= condition.price;
+    case 'PERCENT_MOVE': {
+      const reference = priceAt(market, market.updatedAt - condition.windowMs);
+      return reference !== undefined && (Math.abs(price - reference) / reference) * 100 >= condition.percent;
+    }
+    case 'INDICATOR': {
+      const value = indicatorValue(market, condition.indicator, condition.period);
+      if (value === null || value === undefined) return false;
+      const subject = condition.indicator === 'RSI' ? value : price;
+      const threshold = condition.indicator === 'RSI' ? condition.value : value;
+      return condition.operator === 'ABOVE' ? subject > threshold : subject < threshold;
+    }
+  }
+};
+
+// Runs on every batch of ticks; only untriggered alerts are checked
+export const evaluateAlerts = (alerts: PriceAlert[], market: MarketState): AlertTrigger[] =>
+  alerts
+    .filter(alert => alert.triggeredAt === undefined && market[alert.symbol])
+    .filter(alert => isTriggered(alert, market[alert.symbol]))
+    .map(alert => ({ id: alert.id, price: market[alert.symbol].price }));
+
+export const markTriggered = (alerts: PriceAlert[], triggers: AlertTrigger[], timestamp: number) =>
+  alerts.map(alert => {
+    const trigger = triggers.find(t => t.id === alert.id);
+    return trigger && alert.triggeredAt === undefined
+      ? { ...alert, triggeredAt: timestamp, triggerPrice: trigger.price }
+      : alert;
+  });
@@ -0,0 +1,144 @@
+import { Trade } from './tradingEngine';
+
+export type EquityPoint = {
+  timestamp: number;
+  equity: number;
+  // Distance below the running peak, zero or negative
+  drawdown: number;
+};
+
+export type SymbolBreakdown = {
+  symbol: string;
+  trades: number;
+  winRate: number;
+  netPnl: number;
+  fees: number;
+};
+
+export type PerformanceStats = {
+  closedTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  grossProfit: number;
+  grossLoss: number;
+  // Infinity when there are wins and no losses
+  profitFactor: number;
+  averageWin: number;
+  averageLoss: number;
+  // Average net result per closed trade
+  expectancy: number;
+  netPnl: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  // Per-trade returns on equity, not annualised
+  sharpe: number;
+  sortino: number;
+};
+
+// Opening fills only carry a fee; closes carry the realized result
+export const isClosingTrade = (trade: Trade) => trade.closeReason !== '';
+
+// What the trade did to the balance, net of costs
+export const netTradePnl = (trade: Trade) => trade.realizedPnl - trade.fee - trade.funding;
+
+const chronological = (trades: Trade[]) => [...trades].sort((a, b) => a.timestamp - b.timestamp);
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((acc, v) => acc + v, 0) / values.length;
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator === 0 ? (numerator > 0 ? Infinity : 0) : numerator / denominator;
+
+// Realized equity after every fill, starting from the portfolio's funding
+export const equityCurve = (trades: Trade[], startingBalance: number): EquityPoint[] => {
+  let equity = startingBalance;
+  let peak = startingBalance;
+  const sorted = chronological(trades);
+  const start = sorted.length > 0 ? sorted[0].timestamp : 0;
+
+  return [
+    { timestamp: start, equity, drawdown: 0 },
+    ...sorted.map(trade => {
+      equity += netTradePnl(trade);
+      peak = Math.max(peak, equity);
+      return { timestamp: trade.timestamp, equity, drawdown: equity - peak };
+    })
+  ];
+};
+
+// Net return of each closing trade relative to the realized equity before it
+export const tradeReturns = (trades: Trade[], startingBalance: number) => {
+  let equity = startingBalance;
+  const returns: number[] = [];
+  chronological(trades).forEach(trade => {
+    const pnl = netTradePnl(trade);
+    if (isClosingTrade(trade) && equity > 0) returns.push(pnl / equity);
+    equity += pnl;
+  });
+  return returns;
+};
+
+export const performanceStats = (trades: Trade[], startingBalance: number): PerformanceStats => {
+  const results = trades.filter(isClosingTrade).map(netTradePnl);
+  const winners = results.filter(pnl => pnl > 0);
+  const losers = results.filter(pnl => pnl < 0);
+  const grossProfit = winners.reduce((acc, pnl) => acc + pnl, 0);
+  const grossLoss = -losers.reduce((acc, pnl) => acc + pnl, 0);
+
+  const curve = equityCurve(trades, startingBalance);
+  const deepest = curve.reduce(
+    (acc, point) => {
+      const peak = point.equity - point.drawdown;
+      return {
+        amount: Math.min(acc.amount, point.drawdown),
+        percent: peak > 0 ? Math.min(acc.percent, point.drawdown / peak) : acc.percent
+      };
+    },
+    { amount: 0, percent: 0 }
+  );
+
+  const returns = tradeReturns(trades, startingBalance);
+  const average = mean(returns);
+  const deviation = Math.sqrt(mean(returns.map(r => (r - average) ** 2)));
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(r, 0) ** 2)));
+
+  return {
+    closedTrades: results.length,
+    wins: winners.length,
+    losses: losers.length,
+    winRate: results.length === 0 ? 0 : winners.length / results.length,
+    grossProfit,
+    grossLoss,
+    profitFactor: ratio(grossProfit, grossLoss),
+    averageWin: mean(winners),
+    averageLoss: -mean(losers),
+    expectancy: mean(results),
+    netPnl: trades.reduce((acc, trade) => acc + netTradePnl(trade), 0),
+    maxDrawdown: deepest.amount,
+    maxDrawdownPercent: deepest.percent,
+    sharpe: ratio(average, deviation),
+    sortino: ratio(average, downside)
+  };
+};
+
+// Opening fees count against the symbol even before the position is closed
+export const symbolBreakdown = (trades: Trade[]): SymbolBreakdown[] => {
+  const bySymbol = trades.reduce<Record<string, Trade[]>>((acc, trade) => {
+    acc[trade.symbol] = [...(acc[trade.symbol] ?? []), trade];
+    return acc;
+  }, {});
+
+  return Object.entries(bySymbol)
+    .map(([symbol, symbolTrades]) => {
+      const closed = symbolTrades.filter(isClosingTrade);
+      return {
+        symbol,
+        trades: closed.length,
+        winRate: closed.length === 0 ? 0 : closed.filter(t => netTradePnl(t) > 0).length / closed.length,
+        netPnl: symbolTrades.reduce((acc, t) => acc + netTradePnl(t), 0),
+        fees: symbolTrades.reduce((acc, t) => acc + t.fee, 0)
+      };
+    })
+    .sort((a, b) => b.netPnl - a.netPnl);
+};
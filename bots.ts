@@ -0,0 +1,338 @@
+import { Candle } from './candles';
+import { MarketState, MarkPrices, SymbolMarket, applyTicks, marketTime, markPrices } from './marketData';
+import { generateOrderBook } from './orderBook';
+import { PriceFeed } from './priceFeed';
+import { checkRiskLimits } from './riskLimits';
+import { STRATEGIES, StrategyId } from './strategies';
+import {
+  AccountState,
+  EngineAction,
+  OrderSide,
+  PendingOrder,
+  Position,
+  Rejection,
+  accountReducer,
+  reject,
+  toMarketOrder,
+  unrealizedPnl,
+  validateAmendOrder,
+  validateLimitOrder,
+  validateOrder,
+  withSlippage
+} from './tradingEngine';
+
+// What a strategy can ask for; every command goes through the same checks as the order ticket
+export type StrategyCommand =
+  | { type: 'MARKET'; side: OrderSide; quantity: number; reduceOnly?: boolean }
+  | { type: 'LIMIT'; side: OrderSide; quantity: number; limitPrice: number; reduceOnly?: boolean }
+  | { type: 'AMEND'; orderId: string; limitPrice: number; quantity: number }
+  | { type: 'CANCEL'; orderId: string };
+
+// Whatever a strategy wants to remember between ticks
+export type BotMemory = Record<string, number>;
+
+export type StrategyContext = {
+  symbol: string;
+  market: SymbolMarket;
+  // The 1m candle that closed since the bot last ran, if any
+  closedCandle: Candle | null;
+  account: AccountState;
+  // The bot's own resting orders and open positions
+  orders: PendingOrder[];
+  positions: Position[];
+  params: Record<string, number>;
+  memory: BotMemory;
+  timestamp: number;
+};
+
+export type StrategyDecision = {
+  commands: StrategyCommand[];
+  memory?: BotMemory;
+  logs?: string[];
+};
+
+export type StrategyParam = {
+  key: string;
+  label: string;
+  value: number;
+};
+
+export type Strategy = {
+  id: StrategyId;
+  name: string;
+  description: string;
+  params: StrategyParam[];
+  onTick: (context: StrategyContext) => StrategyDecision;
+};
+
+export type BotLog = {
+  timestamp: number;
+  level: 'info' | 'error';
+  message: string;
+};
+
+export type Bot = {
+  id: string;
+  name: string;
+  strategyId: StrategyId;
+  symbol: string;
+  params: Record<string, number>;
+  running: boolean;
+  memory: BotMemory;
+  // Open time of the last closed candle handed to the strategy
+  lastCandle: number | null;
+  // Newest first
+  logs: BotLog[];
+};
+
+export type BotStep = {
+  bot: Bot;
+  account: AccountState;
+  // Engine actions to dispatch, in order, to reach `account`
+  actions: EngineAction[];
+};
+
+export type BotPnl = {
+  realized: number;
+  unrealized: number;
+  fees: number;
+  funding: number;
+  net: number;
+  fills: number;
+};
+
+export const BOT_LOG_LIMIT = 100;
+
+// Headless runs stop here even if the feed never ends
+export const HEADLESS_STEP_LIMIT = 100000;
+
+export const defaultParams = (strategyId: StrategyId) =>
+  STRATEGIES[strategyId].params.reduce<Record<string, number>>((acc, param) => {
+    acc[param.key] = param.value;
+    return acc;
+  }, {});
+
+export const createBot = (
+  id: string,
+  strategyId: StrategyId,
+  symbol: string,
+  params: Record<string, number> = defaultParams(strategyId)
+): Bot => ({
+  id,
+  name: `${STRATEGIES[strategyId].name} ${symbol}`,
+  strategyId,
+  symbol,
+  params,
+  running: false,
+  memory: {},
+  lastCandle: null,
+  logs: []
+});
+
+export const botOrders = (account: AccountState, botId: string) =>
+  account.orders.filter(o => o.botId === botId);
+
+export const botPositions = (account: AccountState, botId: string) =>
+  account.positions.filter(p => p.botId === botId);
+
+// Realised PnL follows the position, so stop, target and liquidation closes count for the bot that opened it
+export const botPnl = (account: AccountState, botId: string, marks: MarkPrices): BotPnl => {
+  const trades = account.trades.filter(t => t.botId === botId);
+  const positions = botPositions(account, botId);
+  const realized = trades.reduce((acc, t) => acc + t.realizedPnl, 0);
+  const unrealized = unrealizedPnl(positions, marks);
+  const fees = trades.reduce((acc, t) => acc + t.fee, 0);
+  const funding = trades.reduce((acc, t) => acc + t.funding, 0) +
+    positions.reduce((acc, p) => acc + p.fundingPaid, 0);
+  return { realized, unrealized, fees, funding, net: realized + unrealized - fees - funding, fills: trades.length };
+};
+
+const log = (timestamp: number, message: string, level: BotLog['level'] = 'info'): BotLog =>
+  ({ timestamp, level, message });
+
+// `logs` are oldest first; the bot keeps newest first
+const withLogs = (bot: Bot, logs: BotLog[]): Bot =>
+  ({ ...bot, logs: [...logs].reverse().concat(bot.logs).slice(0, BOT_LOG_LIMIT) });
+
+export const logToBot = (bot: Bot, message: string, timestamp: number, level: BotLog['level'] = 'info') =>
+  withLogs(bot, [log(timestamp, message, level)]);
+
+export const setBotRunning = (bot: Bot, running: boolean, timestamp: number) =>
+  logToBot({ ...bot, running }, running ? 'Started' : 'Stopped', timestamp);
+
+const commandAction = (
+  bot: Bot,
+  command: StrategyCommand,
+  market: SymbolMarket,
+  marks: MarkPrices,
+  timestamp: number
+): EngineAction => {
+  const leverage = bot.params.leverage || 1;
+  switch (command.type) {
+    case 'MARKET':
+      return {
+        type: 'EXECUTE_ORDER',
+        order: {
+          symbol: bot.symbol,
+          side: command.side,
+          quantity: command.quantity,
+          price: market.price,
+          leverage,
+          reduceOnly: command.reduceOnly,
+          botId: bot.id,
+          timestamp
+        },
+        book: generateOrderBook(market),
+        reason: `${bot.name} ${command.side === 'BUY' ? 'Buy' : 'Sell'}`
+      };
+    case 'LIMIT':
+      return {
+        type: 'PLACE_LIMIT_ORDER',
+        order: {
+          symbol: bot.symbol,
+          side: command.side,
+          quantity: command.quantity,
+          type: 'LIMIT',
+          limitPrice: command.limitPrice,
+          leverage,
+          timeInForce: 'GTC',
+          reduceOnly: command.reduceOnly,
+          botId: bot.id,
+          timestamp
+        },
+        marks
+      };
+    case 'AMEND':
+      return {
+        type: 'AMEND_ORDER',
+        orderId: command.orderId,
+        limitPrice: command.limitPrice,
+        quantity: command.quantity,
+        marks,
+        timestamp
+      };
+    case 'CANCEL':
+      return { type: 'CANCEL_ORDER', orderId: command.orderId, timestamp };
+  }
+};
+
+// The checks the order ticket runs before it dispatches
+const admit = (account: AccountState, action: EngineAction, marks: MarkPrices): Rejection | null => {
+  switch (action.type) {
+    case 'EXECUTE_ORDER':
+      return validateOrder(account, withSlippage(account, action.order, action.book)) ??
+        checkRiskLimits(account, action.order, marks);
+    case 'PLACE_LIMIT_ORDER':
+      return validateLimitOrder(account, action.order, marks) ??
+        checkRiskLimits(account, toMarketOrder(action.order, action.order.limitPrice, action.order.timestamp), marks);
+    case 'AMEND_ORDER':
+      return validateAmendOrder(account, action.orderId, action.limitPrice, action.quantity, marks);
+    default:
+      return null;
+  }
+};
+
+// Risk refusals are logged on the account, as they are for the order ticket
+const riskBlock = (action: EngineAction, rejection: Rejection, timestamp: number): EngineAction | null => {
+  if (rejection.code !== 'RISK_LIMIT' && rejection.code !== 'TRADING_LOCKED') return null;
+  if (action.type !== 'EXECUTE_ORDER' && action.type !== 'PLACE_LIMIT_ORDER') return null;
+  const { symbol, side, quantity, leverage } = action.order;
+  return { type: 'LOG_RISK_BLOCK', block: { timestamp, symbol, side, quantity, leverage, reason: rejection.message } };
+};
+
+const describeCommand = (command: StrategyCommand) => {
+  switch (command.type) {
+    case 'MARKET':
+      return `Market ${command.side.toLowerCase()} ${command.quantity}${command.reduceOnly ? ' (reduce only)' : ''}`;
+    case 'LIMIT':
+      return `Limit ${command.side.toLowerCase()} ${command.quantity} @ ${command.limitPrice}`;
+    case 'AMEND':
+      return `Amend ${command.orderId} to ${command.quantity} @ ${command.limitPrice}`;
+    case 'CANCEL':
+      return `Cancel ${command.orderId}`;
+  }
+};
+
+// Runs one tick of a bot against `account`, which should already include this tick's fills
+export const stepBot = (bot: Bot, account: AccountState, market: MarketState, timestamp: number): BotStep => {
+  const symbolMarket = market[bot.symbol];
+  if (!bot.running || !symbolMarket) return { bot, account, actions: [] };
+
+  const marks = markPrices(market);
+  const closed = symbolMarket.candles[symbolMarket.candles.length - 2];
+  const context: StrategyContext = {
+    symbol: bot.symbol,
+    market: symbolMarket,
+    closedCandle: closed && closed.time !== bot.lastCandle ? closed : null,
+    account,
+    orders: botOrders(account, bot.id),
+    positions: botPositions(account, bot.id),
+    params: bot.params,
+    memory: bot.memory,
+    timestamp
+  };
+
+  let decision: StrategyDecision;
+  try {
+    decision = STRATEGIES[bot.strategyId].onTick(context);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const stopped = withLogs({ ...bot, running: false }, [log(timestamp, `Stopped: ${message}`, 'error')]);
+    return { bot: stopped, account, actions: [] };
+  }
+
+  let next = account;
+  const actions: EngineAction[] = [];
+  const logs = (decision.logs ?? []).map(message => log(timestamp, message));
+  for (const command of decision.commands) {
+    // Bots may only touch their own orders
+    const owned = (command.type !== 'AMEND' && command.type !== 'CANCEL') ||
+      next.orders.some(o => o.id === command.orderId && o.botId === bot.id);
+    const action = commandAction(bot, command, symbolMarket, marks, timestamp);
+    const rejection = owned ? admit(next, action, marks) : reject('ORDER_NOT_FOUND', 'Order not found');
+    if (rejection) {
+      logs.push(log(timestamp, `${describeCommand(command)} rejected: ${rejection.message}`, 'error'));
+      const block = riskBlock(action, rejection, timestamp);
+      if (block) {
+        next = accountReducer(next, block);
+        actions.push(block);
+      }
+      continue;
+    }
+    next = accountReducer(next, action);
+    actions.push(action);
+    logs.push(log(timestamp, describeCommand(command)));
+  }
+
+  const stepped = {
+    ...bot,
+    memory: decision.memory ?? bot.memory,
+    lastCandle: closed ? closed.time : bot.lastCandle
+  };
+  return { bot: withLogs(stepped, logs), account: next, actions };
+};
+
+// Plays a feed, e.g. a historical replay, through the engine and the bots with no UI attached
+export const runHeadless = (
+  feed: PriceFeed,
+  bots: Bot[],
+  account: AccountState,
+  maxSteps = HEADLESS_STEP_LIMIT
+) => {
+  let market = feed.initialMarket(Date.now());
+  let state = account;
+  let current = bots;
+  for (let step = 0; step < maxSteps && !feed.done(); step++) {
+    const ticks = feed.step();
+    if (ticks.length === 0) continue;
+    market = applyTicks(market, ticks);
+    const timestamp = marketTime(market);
+    state = accountReducer(state, { type: 'MARKET_TICK', marks: markPrices(market), timestamp });
+    current = current.map(bot => {
+      const result = stepBot(bot, state, market, timestamp);
+      state = result.account;
+      return result.bot;
+    });
+  }
+  return { account: state, bots: current, market };
+};
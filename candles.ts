@@ -0,0 +1,74 @@
+export type Candle = {
+  // Bucket start, epoch milliseconds
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
+
+export type Timeframe = '1m' | '5m' | '15m' | '1h';
+
+export const TIMEFRAMES: Record<Timeframe, number> = {
+  '1m': 60000,
+  '5m': 5 * 60000,
+  '15m': 15 * 60000,
+  '1h': 60 * 60000
+};
+
+// Markets keep 1m candles; larger timeframes are aggregated from them
+export const BASE_INTERVAL_MS = TIMEFRAMES['1m'];
+
+export const bucketStart = (timestamp: number, intervalMs: number) =>
+  Math.floor(timestamp / intervalMs) * intervalMs;
+
+// Folds one trade into the series, opening a new candle when the bucket rolls over
+export const applyTick = (
+  candles: Candle[],
+  timestamp: number,
+  price: number,
+  volume: number,
+  maxLength: number,
+  intervalMs = BASE_INTERVAL_MS
+): Candle[] => {
+  const time = bucketStart(timestamp, intervalMs);
+  const last = candles[candles.length - 1];
+
+  if (last && last.time === time) {
+    return [
+      ...candles.slice(0, -1),
+      {
+        ...last,
+        high: Math.max(last.high, price),
+        low: Math.min(last.low, price),
+        close: price,
+        volume: last.volume + volume
+      }
+    ];
+  }
+
+  const next = [...candles, { time, open: price, high: price, low: price, close: price, volume }];
+  return next.length > maxLength ? next.slice(next.length - maxLength) : next;
+};
+
+export const aggregateCandles = (candles: Candle[], intervalMs: number): Candle[] => {
+  if (intervalMs <= BASE_INTERVAL_MS) return candles;
+
+  return candles.reduce<Candle[]>((acc, candle) => {
+    const time = bucketStart(candle.time, intervalMs);
+    const last = acc[acc.length - 1];
+    if (last && last.time === time) {
+      acc[acc.length - 1] = {
+        ...last,
+        high: Math.max(last.high, candle.high),
+        low: Math.min(last.low, candle.low),
+        close: candle.close,
+        volume: last.volume + candle.volume
+      };
+    } else {
+      acc.push({ ...candle, time });
+    }
+    return acc;
+  }, []);
+};
@@ -0,0 +1,71 @@
+import { MarkPrices } from './marketData';
+import { crossEquity, crossMaintenance } from './margin';
+import { AccountState, Rejection, reject } from './tradingEngine';
+
+// Coins held alongside the quote balance; they back margin but are never spent on it
+export type CollateralHolding = {
+  asset: string;
+  amount: number;
+};
+
+// A coin deposit or withdrawal, signed like the ledger: withdrawals are negative
+export type CollateralTransfer = {
+  id: string;
+  asset: string;
+  amount: number;
+  // Haircut value when it moved, which is what it added to or took from equity
+  value: number;
+  timestamp: number;
+};
+
+// Share of each asset's market value that is not counted, to cover its price risk
+export const COLLATERAL_HAIRCUTS: Record<string, number> = {
+  BTC: 0.05,
+  ETH: 0.1,
+  SOL: 0.15,
+  ADA: 0.2,
+  DOT: 0.2
+};
+
+export const collateralAssets = () => Object.keys(COLLATERAL_HAIRCUTS);
+
+export const holdingAmount = (collateral: CollateralHolding[], asset: string) =>
+  collateral.find(h => h.asset === asset)?.amount ?? 0;
+
+// Assets without a quote are worth nothing until one arrives
+export const holdingValue = (holding: CollateralHolding, marks: MarkPrices) =>
+  holding.amount * (marks[holding.asset] ?? 0) * (1 - (COLLATERAL_HAIRCUTS[holding.asset] ?? 1));
+
+export const collateralValue = (collateral: CollateralHolding[], marks: MarkPrices) =>
+  collateral.reduce((acc, h) => acc + holdingValue(h, marks), 0);
+
+// Adds a signed amount of an asset; emptied holdings are dropped
+export const adjustHolding = (collateral: CollateralHolding[], asset: string, amount: number): CollateralHolding[] => {
+  const next = holdingAmount(collateral, asset) + amount;
+  const rest = collateral.filter(h => h.asset !== asset);
+  return next > 0 ? [...rest, { asset, amount: next }] : rest;
+};
+
+export const validateCollateralDeposit = (asset: string, amount: number): Rejection | null => {
+  if (!(asset in COLLATERAL_HAIRCUTS)) return reject('NOT_SUPPORTED', `${asset} is not accepted as collateral`);
+  if (!(amount > 0)) return reject('INVALID_AMOUNT', 'Amount must be positive', 'amount');
+  return null;
+};
+
+// Withdrawals may not leave cross positions under their maintenance margin
+export const validateCollateralWithdrawal = (
+  state: AccountState,
+  asset: string,
+  amount: number,
+  marks: MarkPrices
+): Rejection | null => {
+  if (!(amount > 0)) return reject('INVALID_AMOUNT', 'Amount must be positive', 'amount');
+  if (amount > holdingAmount(state.collateral, asset)) {
+    return reject('INSUFFICIENT_BALANCE', `Only ${holdingAmount(state.collateral, asset)} ${asset} is held`, 'amount');
+  }
+  const next = { ...state, collateral: adjustHolding(state.collateral, asset, -amount) };
+  if (crossMaintenance(next, marks) > 0 && crossEquity(next, marks) <= crossMaintenance(next, marks)) {
+    return reject('INSUFFICIENT_BALANCE', 'Withdrawal would put open positions below maintenance margin', 'amount');
+  }
+  return null;
+};
@@ -0,0 +1,43 @@
+import { OrderSide, Position, directionOf } from './tradingEngine';
+
+// Makers add resting liquidity, takers remove it
+export type Liquidity = 'MAKER' | 'TAKER';
+
+export type CostConfig = {
+  makerFeeBps: number;
+  takerFeeBps: number;
+  // Paid by longs to shorts each interval when positive
+  fundingRate: number;
+  fundingIntervalMs: number;
+  // Slippage = base + impact per 100k of notional, in basis points; only used for orders filled without a book
+  slippageBaseBps: number;
+  slippageImpactBps: number;
+};
+
+export const DEFAULT_COSTS: CostConfig = {
+  makerFeeBps: 2,
+  takerFeeBps: 5,
+  fundingRate: 0.0001,
+  fundingIntervalMs: 8 * 60 * 60 * 1000,
+  slippageBaseBps: 1,
+  slippageImpactBps: 5
+};
+
+const BPS = 10000;
+const IMPACT_NOTIONAL = 100000;
+
+export const tradingFee = (quantity: number, price: number, liquidity: Liquidity, costs: CostConfig) =>
+  (quantity * price * (liquidity === 'MAKER' ? costs.makerFeeBps : costs.takerFeeBps)) / BPS;
+
+export const slippageBps = (quantity: number, price: number, costs: CostConfig) =>
+  costs.slippageBaseBps + (costs.slippageImpactBps * quantity * price) / IMPACT_NOTIONAL;
+
+// Buys fill above the quote and sells below it
+export const slippedPrice = (side: OrderSide, quantity: number, price: number, costs: CostConfig) => {
+  const direction = side === 'BUY' ? 1 : -1;
+  return price * (1 + (direction * slippageBps(quantity, price, costs)) / BPS);
+};
+
+// Positive when the position pays
+export const fundingPayment = (position: Position, markPrice: number, costs: CostConfig, intervals = 1) =>
+  directionOf(position.side) * costs.fundingRate * position.quantity * markPrice * intervals;
@@ -0,0 +1,104 @@
+import { SYMBOLS } from './marketData';
+import { StorageLike } from './storage';
+
+// Account values are held in the quote asset; everything else is a display conversion
+export const QUOTE_ASSET = 'USDT';
+
+export type DisplaySettings = {
+  locale: string;
+  currency: string;
+  // Units of each display currency per unit of the quote asset
+  rates: Record<string, number>;
+};
+
+export const DISPLAY_KEY = 'crypto-dashboard:display';
+
+export const LOCALES: [string, string][] = [
+  ['en-US', 'English (US)'],
+  ['en-GB', 'English (UK)'],
+  ['de-DE', 'Deutsch'],
+  ['fr-FR', 'Français'],
+  ['ja-JP', '日本語']
+];
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  locale: 'en-US',
+  currency: 'USD',
+  rates: { USD: 1, EUR: 0.92, GBP: 0.79, JPY: 150 }
+};
+
+// Symbols missing from SYMBOLS fall back to cents and four-decimal quantities
+const DEFAULT_PRICE_PRECISION = 2;
+const DEFAULT_QUANTITY_PRECISION = 4;
+
+const precisionOf = (symbol: string) => {
+  const info = SYMBOLS.find(s => s.symbol === symbol);
+  return {
+    price: info?.pricePrecision ?? DEFAULT_PRICE_PRECISION,
+    quantity: info?.quantityPrecision ?? DEFAULT_QUANTITY_PRECISION
+  };
+};
+
+export const convert = (value: number, settings: DisplaySettings) => value * (settings.rates[settings.currency] ?? 1);
+
+// The currency's own minor units, unless a symbol needs more to be readable
+const moneyFormat = (settings: DisplaySettings, decimals?: number) =>
+  new Intl.NumberFormat(settings.locale, {
+    style: 'currency',
+    currency: settings.currency,
+    ...(decimals === undefined ? {} : { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+  });
+
+export const formatMoney = (value: number, settings: DisplaySettings) =>
+  moneyFormat(settings).format(convert(value, settings));
+
+export const formatPrice = (value: number, symbol: string, settings: DisplaySettings) =>
+  moneyFormat(settings, precisionOf(symbol).price).format(convert(value, settings));
+
+export const formatQuantity = (value: number, symbol: string, settings: DisplaySettings) =>
+  new Intl.NumberFormat(settings.locale, { maximumFractionDigits: precisionOf(symbol).quantity }).format(value);
+
+// Volumes, where the magnitude matters more than the digits
+export const formatCompact = (value: number, settings: DisplaySettings) =>
+  new Intl.NumberFormat(settings.locale, { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+
+export const formatDateTime = (timestamp: number, settings: DisplaySettings) =>
+  new Date(timestamp).toLocaleString(settings.locale);
+
+export const formatClock = (timestamp: number, settings: DisplaySettings) =>
+  new Date(timestamp).toLocaleTimeString(settings.locale);
+
+// Rates must be positive for a conversion to mean anything
+export const validateRate = (rate: number) => (rate > 0 && Number.isFinite(rate) ? null : 'Rate must be positive');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseDisplaySettings = (json: string): DisplaySettings => {
+  const raw: unknown = JSON.parse(json);
+  if (!isObject(raw) || typeof raw.locale !== 'string' || typeof raw.currency !== 'string' || !isObject(raw.rates)) {
+    throw new Error('Stored display settings are not display settings');
+  }
+  const rates = { ...DEFAULT_DISPLAY_SETTINGS.rates };
+  Object.entries(raw.rates).forEach(([currency, rate]) => {
+    if (typeof rate === 'number' && !validateRate(rate)) rates[currency] = rate;
+  });
+  // Intl throws on an unknown locale or currency, so check them before they reach a formatter
+  new Intl.NumberFormat(raw.locale, { style: 'currency', currency: raw.currency });
+  return { locale: raw.locale, currency: raw.currency, rates };
+};
+
+export const loadDisplaySettings = (storage: StorageLike = window.localStorage): DisplaySettings => {
+  const json = storage.getItem(DISPLAY_KEY);
+  if (!json) return DEFAULT_DISPLAY_SETTINGS;
+  try {
+    return parseDisplaySettings(json);
+  } catch (error) {
+    console.error('Discarding unreadable display settings', error);
+    return DEFAULT_DISPLAY_SETTINGS;
+  }
+};
+
+export const saveDisplaySettings = (settings: DisplaySettings, storage: StorageLike = window.localStorage) => {
+  storage.setItem(DISPLAY_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import {
+  API_PATHS,
+  ExchangeTransport,
+  RestMethod,
+  RestParams,
+  VenueAccount,
+  VenueBook,
+  VenueOrder,
+  applyAccountUpdate,
+  applyOrderUpdate,
+  bookAccount,
+  createExchangeClient,
+  engineSymbol,
+  parseKline,
+  venueBook
+} from './exchange';
+import { reconcile } from './ledger';
+import { MockExchange, createMockExchange } from './mockExchange';
+import { createSeededFeed } from './priceFeed';
+import { DEFAULT_BALANCE, createInitialAccount, reservedMargin, usedMargin } from './tradingEngine';
+
+const NOW = Date.UTC(2024, 0, 1);
+
+const exchange = () => createMockExchange({ requestsPerSecond: 1000 }, createSeededFeed(7));
+
+// Straight into the mock, with no latency and no stream
+const direct = (venue: MockExchange): ExchangeTransport => ({
+  name: 'direct',
+  request: async request => venue.handle(request, NOW),
+  openStream: () => ({ send: () => {}, close: () => {} })
+});
+
+const rest = <T,>(venue: MockExchange, method: RestMethod, path: string, params: RestParams = {}) => {
+  const response = venue.handle({ method, path, params }, NOW);
+  if (response.status !== 200) throw new Error(JSON.stringify(response.body));
+  return response.body as T;
+};
+
+const price = (venue: MockExchange, symbol: string) => {
+  const rows = rest<unknown[]>(venue, 'GET', API_PATHS.klines, { symbol, interval: '1m', limit: '1' });
+  return parseKline(rows[0]).close;
+};
+
+const snapshot = (venue: MockExchange, trades: VenueBook['trades'] = []) =>
+  venueBook(
+    rest<VenueAccount>(venue, 'GET', API_PATHS.account),
+    rest<VenueOrder[]>(venue, 'GET', API_PATHS.openOrders),
+    rest<{ dualSidePosition: boolean }>(venue, 'GET', API_PATHS.positionMode).dualSidePosition,
+    trades
+  );
+
+const leverages = (venue: MockExchange) =>
+  rest<VenueAccount>(venue, 'GET', API_PATHS.account).positions.reduce<Record<string, number>>((acc, p) => {
+    acc[engineSymbol(p.symbol)] = parseFloat(p.leverage);
+    return acc;
+  }, {});
+
+// Flushes the user-data stream without moving prices
+const streamed = (venue: MockExchange, book: VenueBook) =>
+  venue.advance(0).messages.reduce((acc, { data }) => {
+    if (data.e === 'ACCOUNT_UPDATE') return applyAccountUpdate(acc, data);
+    if (data.e === 'ORDER_TRADE_UPDATE') return applyOrderUpdate(acc, data);
+    return acc;
+  }, book);
+
+const trade = (venue: MockExchange) => {
+  rest(venue, 'POST', API_PATHS.leverage, { symbol: 'BTCUSDT', leverage: '10' });
+  rest(venue, 'POST', API_PATHS.order, { symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: '0.5' });
+  rest(venue, 'POST', API_PATHS.order, {
+    symbol: 'BTCUSDT',
+    side: 'BUY',
+    type: 'LIMIT',
+    quantity: '0.2',
+    price: String(Math.round(price(venue, 'BTCUSDT') * 0.9)),
+    timeInForce: 'GTC'
+  });
+  rest(venue, 'POST', API_PATHS.leverage, { symbol: 'ETHUSDT', leverage: '5' });
+  rest(venue, 'POST', API_PATHS.order, { symbol: 'ETHUSDT', side: 'SELL', type: 'MARKET', quantity: '2' });
+};
+
+describe('venue account', () => {
+  it('rebuilds positions, orders and the wallet from the account endpoints', () => {
+    const venue = exchange();
+    trade(venue);
+    const wire = rest<VenueAccount>(venue, 'GET', API_PATHS.account);
+    const account = bookAccount(snapshot(venue), leverages(venue), NOW);
+
+    expect(account.positions.map(p => [p.symbol, p.side, p.quantity, p.leverage])).toEqual([
+      ['BTC', 'LONG', 0.5, 10],
+      ['ETH', 'SHORT', 2, 5]
+    ]);
+    expect(account.orders.map(o => [o.symbol, o.type, o.quantity])).toEqual([['BTC', 'LIMIT', 0.2]]);
+    expect(account.balance + usedMargin(account.positions) + reservedMargin(account.orders)).toBeCloseTo(
+      parseFloat(wire.totalWalletBalance),
+      6
+    );
+    expect(account.balance).toBeCloseTo(parseFloat(wire.availableBalance), 6);
+    expect(reconcile(account).balanced).toBe(true);
+  });
+
+  it('keeps up with the user-data stream', () => {
+    const venue = exchange();
+    let book = snapshot(venue);
+    trade(venue);
+    book = streamed(venue, book);
+
+    const [order] = rest<VenueOrder[]>(venue, 'GET', API_PATHS.openOrders);
+    rest(venue, 'DELETE', API_PATHS.order, { symbol: 'BTCUSDT', orderId: order.orderId });
+    rest(venue, 'POST', API_PATHS.order, {
+      symbol: 'BTCUSDT',
+      side: 'SELL',
+      type: 'MARKET',
+      quantity: '0.5',
+      reduceOnly: 'true'
+    });
+    book = streamed(venue, book);
+
+    const expected = bookAccount(snapshot(venue, book.trades), leverages(venue), NOW);
+    const account = bookAccount(book, leverages(venue), NOW);
+    expect(account.positions).toEqual(expected.positions);
+    expect(account.orders).toEqual([]);
+    expect(account.balance).toBeCloseTo(expected.balance, 6);
+    expect(account.trades.map(t => [t.symbol, t.side, t.quantity, t.closeReason])).toEqual([
+      ['BTC', 'LONG', 0.5, 'Close'],
+      ['ETH', 'SHORT', 2, ''],
+      ['BTC', 'LONG', 0.5, '']
+    ]);
+  });
+
+  it('closes an isolated position at a blended leverage without changing the setting', async () => {
+    const venue = createMockExchange(
+      { requestsPerSecond: 1000 },
+      createSeededFeed(7),
+      { ...createInitialAccount(DEFAULT_BALANCE, false), marginMode: 'ISOLATED' }
+    );
+    const client = createExchangeClient(direct(venue));
+    const mark = price(venue, 'BTCUSDT');
+    await client.placeOrder({ symbol: 'BTC', side: 'BUY', quantity: 0.5, price: mark, leverage: 10, timestamp: NOW });
+    await client.placeOrder({ symbol: 'BTC', side: 'BUY', quantity: 0.5, price: mark, leverage: 3, timestamp: NOW });
+
+    const [position] = (await client.account()).positions;
+    expect(position.marginMode).toBe('ISOLATED');
+    expect(Number.isInteger(position.leverage)).toBe(false);
+
+    await client.placeOrder({
+      symbol: 'BTC',
+      side: 'SELL',
+      quantity: position.quantity,
+      price: mark,
+      leverage: position.leverage,
+      reduceOnly: true,
+      timestamp: NOW
+    });
+    expect((await client.account()).positions).toEqual([]);
+    expect(leverages(venue).BTC).toBe(3);
+  });
+});
@@ -0,0 +1,801 @@
+import { BASE_INTERVAL_MS, Candle } from './candles';
+import { QUOTE_ASSET } from './display';
+import { post } from './ledger';
+import { MarkPrices, MarketState, PriceTick, SYMBOLS, createEmptySymbolMarket, rollingStats } from './marketData';
+import { PriceFeed } from './priceFeed';
+import { trackEquity } from './riskLimits';
+import {
+  AccountState,
+  LimitOrderRequest,
+  MarketOrder,
+  OrderSide,
+  PendingOrder,
+  PendingOrderType,
+  Position,
+  PositionMode,
+  Rejection,
+  RejectionCode,
+  TimeInForce,
+  Trade,
+  createInitialAccount,
+  oppositeSide,
+  orderReserve,
+  positionSideFor,
+  reject,
+  reservedMargin,
+  usedMargin
+} from './tradingEngine';
+
+// Wire format: Binance USDⓈ-M futures paths and field names, with Bybit-style SL/TP on new orders.
+// Numbers travel as strings, as they do on the real venues.
+
+export type VenueOrderType = 'MARKET' | 'LIMIT' | 'STOP_MARKET' | 'STOP';
+
+export type VenueTimeInForce = 'GTC' | 'IOC' | 'FOK' | 'GTX';
+
+export type VenueOrderStatus = 'NEW' | 'FILLED' | 'CANCELED' | 'EXPIRED';
+
+export type RestMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export type RestParams = Record<string, string>;
+
+export type RestRequest = {
+  method: RestMethod;
+  path: string;
+  params: RestParams;
+};
+
+export type RestResponse = {
+  status: number;
+  body: unknown;
+};
+
+export type VenueError = {
+  code: number;
+  msg: string;
+};
+
+// Order ids are the engine's, so they are strings rather than Binance's integers
+export type VenueOrder = {
+  orderId: string;
+  symbol: string;
+  side: OrderSide;
+  type: VenueOrderType;
+  status: VenueOrderStatus;
+  price: string;
+  stopPrice: string;
+  avgPrice: string;
+  origQty: string;
+  executedQty: string;
+  timeInForce: VenueTimeInForce;
+  reduceOnly: boolean;
+  updateTime: number;
+};
+
+// BOTH in one-way mode, where a symbol has a single net position
+export type VenuePositionSide = 'BOTH' | 'LONG' | 'SHORT';
+
+export type VenueAsset = {
+  asset: string;
+  walletBalance: string;
+  availableBalance: string;
+};
+
+// Listed for every symbol and position side, flat ones included
+export type VenuePosition = {
+  symbol: string;
+  // Negative for shorts
+  positionAmt: string;
+  entryPrice: string;
+  // The symbol's setting, which is what new orders open at
+  leverage: string;
+  isolated: boolean;
+  // Margin behind an isolated position
+  isolatedWallet: string;
+  positionSide: VenuePositionSide;
+  updateTime: number;
+};
+
+// Wallet balances include margin in use but not unrealized PnL
+export type VenueAccount = {
+  totalWalletBalance: string;
+  availableBalance: string;
+  assets: VenueAsset[];
+  positions: VenuePosition[];
+};
+
+// `m` is true when the buyer was the maker, i.e. the aggressor sold
+export type TradeEvent = { e: 'trade'; E: number; s: string; p: string; q: string; T: number; m: boolean };
+
+export type TickerEvent = { e: '24hrTicker'; E: number; s: string; o: string; h: string; l: string; c: string; v: string };
+
+// Only the balances and positions that changed; a zero amount means the position closed
+export type AccountUpdateEvent = {
+  e: 'ACCOUNT_UPDATE';
+  E: number;
+  a: {
+    B: { a: string; wb: string }[];
+    P: { s: string; pa: string; ep: string; mt: 'cross' | 'isolated'; iw: string; ps: VenuePositionSide }[];
+  };
+};
+
+export type OrderExecution = 'NEW' | 'AMENDMENT' | 'CANCELED' | 'TRADE';
+
+// `x` is what just happened to the order and `X` where it stands after; the fill fields are zero unless x is TRADE
+export type OrderTradeUpdateEvent = {
+  e: 'ORDER_TRADE_UPDATE';
+  E: number;
+  o: {
+    s: string;
+    i: string;
+    S: OrderSide;
+    o: VenueOrderType | 'LIQUIDATION';
+    f: VenueTimeInForce;
+    q: string;
+    p: string;
+    sp: string;
+    R: boolean;
+    x: OrderExecution;
+    X: VenueOrderStatus;
+    t: string;
+    l: string;
+    L: string;
+    n: string;
+    rp: string;
+    ps: VenuePositionSide;
+    T: number;
+  };
+};
+
+export type StreamEvent = TradeEvent | TickerEvent | AccountUpdateEvent | OrderTradeUpdateEvent;
+
+// Combined-stream envelope
+export type StreamMessage = {
+  stream: string;
+  data: StreamEvent;
+};
+
+export type StreamControl = {
+  method: 'SUBSCRIBE' | 'UNSUBSCRIBE';
+  params: string[];
+  id: number;
+};
+
+export const API_PATHS = {
+  ping: '/fapi/v1/ping',
+  time: '/fapi/v1/time',
+  klines: '/fapi/v1/klines',
+  order: '/fapi/v1/order',
+  openOrders: '/fapi/v1/openOrders',
+  leverage: '/fapi/v1/leverage',
+  positionMode: '/fapi/v1/positionSide/dual',
+  listenKey: '/fapi/v1/listenKey',
+  account: '/fapi/v2/account'
+};
+
+// Codes the venues use for the same refusals
+export const VENUE_ERRORS = {
+  UNKNOWN: -1000,
+  DISCONNECTED: -1001,
+  TOO_MANY_REQUESTS: -1003,
+  TIMEOUT: -1007,
+  BAD_PARAMETER: -1102,
+  BAD_SYMBOL: -1121,
+  NEW_ORDER_REJECTED: -2010,
+  CANCEL_REJECTED: -2011
+};
+
+const REJECTION_ERRORS: Record<RejectionCode, number> = {
+  INVALID_QUANTITY: -4003,
+  INVALID_PRICE: -4001,
+  NO_MARKET: VENUE_ERRORS.BAD_SYMBOL,
+  INSUFFICIENT_POSITION: -2022,
+  INSUFFICIENT_BALANCE: -2019,
+  INVALID_STOP_LOSS: -4013,
+  INVALID_TAKE_PROFIT: -4014,
+  INVALID_TRAILING: -4015,
+  WOULD_TAKE_LIQUIDITY: -5022,
+  CANNOT_FILL: -5021,
+  ORDER_NOT_FOUND: VENUE_ERRORS.CANCEL_REJECTED,
+  NOT_AMENDABLE: -4195,
+  INVALID_GROUP: VENUE_ERRORS.BAD_PARAMETER,
+  POSITION_NOT_FOUND: VENUE_ERRORS.BAD_PARAMETER,
+  INVALID_LEVERAGE: -4028,
+  INVALID_AMOUNT: VENUE_ERRORS.BAD_PARAMETER,
+  POSITION_MODE_LOCKED: -4068,
+  RISK_LIMIT: VENUE_ERRORS.NEW_ORDER_REJECTED,
+  TRADING_LOCKED: VENUE_ERRORS.NEW_ORDER_REJECTED,
+  EXCHANGE_ERROR: VENUE_ERRORS.UNKNOWN,
+  NOT_SUPPORTED: VENUE_ERRORS.BAD_PARAMETER
+};
+
+export const VENUE_ORDER_TYPES: Record<PendingOrderType | 'MARKET', VenueOrderType> = {
+  MARKET: 'MARKET',
+  LIMIT: 'LIMIT',
+  STOP_MARKET: 'STOP_MARKET',
+  STOP_LIMIT: 'STOP'
+};
+
+export const VENUE_TIME_IN_FORCE: Record<TimeInForce, VenueTimeInForce> = {
+  GTC: 'GTC',
+  IOC: 'IOC',
+  FOK: 'FOK',
+  POST_ONLY: 'GTX'
+};
+
+export const ENGINE_ORDER_TYPES: Record<string, PendingOrderType | 'MARKET'> = {
+  MARKET: 'MARKET',
+  LIMIT: 'LIMIT',
+  STOP_MARKET: 'STOP_MARKET',
+  STOP: 'STOP_LIMIT'
+};
+
+export const ENGINE_TIME_IN_FORCE: Record<string, TimeInForce> = {
+  GTC: 'GTC',
+  IOC: 'IOC',
+  FOK: 'FOK',
+  GTX: 'POST_ONLY'
+};
+
+// Venue errors, whether from a response or from the transport itself
+export class ExchangeError extends Error {
+  code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export const venueSymbol = (symbol: string) => `${symbol}${QUOTE_ASSET}`;
+
+export const engineSymbol = (symbol: string) =>
+  symbol.toUpperCase().endsWith(QUOTE_ASSET) ? symbol.toUpperCase().slice(0, -QUOTE_ASSET.length) : symbol.toUpperCase();
+
+export const tradeStream = (symbol: string) => `${venueSymbol(symbol).toLowerCase()}@trade`;
+
+export const tickerStream = (symbol: string) => `${venueSymbol(symbol).toLowerCase()}@ticker`;
+
+export const venueErrorFor = (rejection: Rejection): VenueError =>
+  ({ code: REJECTION_ERRORS[rejection.code], msg: rejection.message });
+
+// Several refusals share a venue code, so the first engine code using it stands for all of them
+export const venueRejection = (error: unknown): Rejection => {
+  if (!(error instanceof ExchangeError)) {
+    return reject('EXCHANGE_ERROR', error instanceof Error ? error.message : String(error));
+  }
+  const code = (Object.keys(REJECTION_ERRORS) as RejectionCode[]).find(key => REJECTION_ERRORS[key] === error.code);
+  return reject(code ?? 'EXCHANGE_ERROR', error.message);
+};
+
+const optional = (params: RestParams, key: string, value: number | undefined) => {
+  if (value !== undefined) params[key] = String(value);
+  return params;
+};
+
+// Leverage is a per-symbol venue setting, sent separately before the order
+export const orderParams = (order: MarketOrder | LimitOrderRequest): RestParams => {
+  const params: RestParams = {
+    symbol: venueSymbol(order.symbol),
+    side: order.side,
+    type: 'type' in order ? VENUE_ORDER_TYPES[order.type] : 'MARKET',
+    quantity: String(order.quantity)
+  };
+  if ('type' in order) {
+    if (order.type !== 'STOP_MARKET') params.price = String(order.limitPrice);
+    optional(params, 'stopPrice', order.stopPrice);
+    params.timeInForce = VENUE_TIME_IN_FORCE[order.timeInForce];
+  }
+  if (order.reduceOnly) params.reduceOnly = 'true';
+  optional(params, 'stopLoss', order.stopLoss);
+  optional(params, 'takeProfit', order.takeProfit);
+  return optional(params, 'trailingStop', order.trailingDistance);
+};
+
+export const parseKline = (row: unknown): Candle => {
+  if (!Array.isArray(row)) throw new ExchangeError(VENUE_ERRORS.UNKNOWN, 'Malformed kline');
+  const [time, open, high, low, close, volume] = row;
+  return {
+    time: Number(time),
+    open: parseFloat(open),
+    high: parseFloat(high),
+    low: parseFloat(low),
+    close: parseFloat(close),
+    volume: parseFloat(volume)
+  };
+};
+
+export const klineRow = (candle: Candle) => [
+  candle.time,
+  String(candle.open),
+  String(candle.high),
+  String(candle.low),
+  String(candle.close),
+  String(candle.volume),
+  candle.time + BASE_INTERVAL_MS - 1
+];
+
+// Symbols the venue sent no candles for open at their base price
+const marketFromKlines = (klines: Record<string, Candle[]>, now: number): MarketState =>
+  SYMBOLS.reduce<MarketState>((acc, info) => {
+    const candles = klines[info.symbol] ?? [];
+    const last = candles[candles.length - 1];
+    const price = last ? last.close : info.basePrice;
+    acc[info.symbol] = {
+      ...createEmptySymbolMarket(info.symbol, price, now),
+      candles,
+      stats: rollingStats(candles, price, now)
+    };
+    return acc;
+  }, {});
+
+// Prices pushed by a stream; each pump hands over whatever arrived since the last one
+export const createStreamFeed = (name: string, market: MarketState) => {
+  let buffer: PriceTick[] = [];
+  const drain = () => {
+    const ticks = buffer;
+    buffer = [];
+    return ticks;
+  };
+  const feed: PriceFeed = {
+    name,
+    initialMarket: () => {
+      buffer = [];
+      return market;
+    },
+    advance: drain,
+    step: drain,
+    done: () => false
+  };
+  return { feed, push: (tick: PriceTick) => buffer.push(tick) };
+};
+
+// Account
+
+// What the client knows of the venue account: the wallet, positions and open orders as the venue reports them,
+// plus the fills seen while connected. The venue keeps no trade history the client could catch up on
+export type VenueBook = {
+  wallet: number;
+  positionMode: PositionMode;
+  // Open positions only, by symbol and position side
+  positions: Record<string, VenuePosition>;
+  orders: VenueOrder[];
+  trades: Trade[];
+};
+
+const positionKey = (symbol: string, positionSide: VenuePositionSide) => `${engineSymbol(symbol)}-${positionSide}`;
+
+const withPosition = (positions: Record<string, VenuePosition>, position: VenuePosition) => {
+  const key = positionKey(position.symbol, position.positionSide);
+  const next = { ...positions };
+  if (parseFloat(position.positionAmt) === 0) delete next[key];
+  else next[key] = position;
+  return next;
+};
+
+export const venueBook = (
+  account: VenueAccount,
+  orders: VenueOrder[],
+  dualSidePosition: boolean,
+  trades: Trade[] = []
+): VenueBook => ({
+  wallet: parseFloat(account.totalWalletBalance),
+  positionMode: dualSidePosition ? 'HEDGE' : 'ONE_WAY',
+  positions: account.positions.reduce(withPosition, {}),
+  orders,
+  trades
+});
+
+export const applyAccountUpdate = (book: VenueBook, event: AccountUpdateEvent): VenueBook => {
+  const quote = event.a.B.find(b => b.a === QUOTE_ASSET);
+  return {
+    ...book,
+    wallet: quote ? parseFloat(quote.wb) : book.wallet,
+    positions: event.a.P.reduce(
+      (acc, p) =>
+        withPosition(acc, {
+          symbol: p.s,
+          positionAmt: p.pa,
+          entryPrice: p.ep,
+          leverage: acc[positionKey(p.s, p.ps)]?.leverage ?? '0',
+          isolated: p.mt === 'isolated',
+          isolatedWallet: p.iw,
+          positionSide: p.ps,
+          updateTime: event.E
+        }),
+      book.positions
+    )
+  };
+};
+
+const orderFromUpdate = ({ o }: OrderTradeUpdateEvent): VenueOrder => ({
+  orderId: o.i,
+  symbol: o.s,
+  side: o.S,
+  type: o.o === 'LIQUIDATION' ? 'MARKET' : o.o,
+  status: o.X,
+  price: o.p,
+  stopPrice: o.sp,
+  avgPrice: o.L,
+  origQty: o.q,
+  executedQty: o.l,
+  timeInForce: o.f,
+  reduceOnly: o.R,
+  updateTime: o.T
+});
+
+// Fills do not say whether they opened or closed. One that realized PnL, could only reduce, was a liquidation
+// or went against its hedge-mode side closed something; a close at exactly its entry price reads as an open
+const tradeFromFill = ({ o }: OrderTradeUpdateEvent): Trade => {
+  const realizedPnl = parseFloat(o.rp);
+  const side = positionSideFor(o.S);
+  const closing = o.o === 'LIQUIDATION' || o.R || realizedPnl !== 0 || (o.ps !== 'BOTH' && o.ps !== side);
+  return {
+    id: o.t,
+    symbol: engineSymbol(o.s),
+    side: closing ? oppositeSide(side) : side,
+    quantity: parseFloat(o.l),
+    price: parseFloat(o.L),
+    realizedPnl,
+    fee: parseFloat(o.n),
+    funding: 0,
+    timestamp: o.T,
+    closeReason: o.o === 'LIQUIDATION' ? 'Liquidation' : closing ? 'Close' : ''
+  };
+};
+
+export const applyOrderUpdate = (book: VenueBook, event: OrderTradeUpdateEvent): VenueBook => {
+  const order = orderFromUpdate(event);
+  const others = book.orders.filter(o => o.orderId !== order.orderId);
+  return {
+    ...book,
+    orders: order.status === 'NEW' ? [...others, order] : others,
+    trades: event.o.x === 'TRADE' ? [tradeFromFill(event), ...book.trades] : book.trades
+  };
+};
+
+// Isolated positions carry their own margin; cross ones open at the symbol's leverage
+const bookPosition = (position: VenuePosition, leverages: Record<string, number>): Position => {
+  const symbol = engineSymbol(position.symbol);
+  const amount = parseFloat(position.positionAmt);
+  const entryPrice = parseFloat(position.entryPrice);
+  const isolatedWallet = parseFloat(position.isolatedWallet);
+  const timestamp = position.updateTime;
+  const id = positionKey(position.symbol, position.positionSide);
+  return {
+    id,
+    symbol,
+    side: amount > 0 ? 'LONG' : 'SHORT',
+    quantity: Math.abs(amount),
+    entryPrice,
+    leverage: position.isolated && isolatedWallet > 0
+      ? Math.abs(amount) * entryPrice / isolatedWallet
+      : leverages[symbol] ?? 1,
+    marginMode: position.isolated ? 'ISOLATED' : 'CROSS',
+    fundingPaid: 0,
+    lots: [{ id, quantity: Math.abs(amount), price: entryPrice, timestamp }],
+    timestamp
+  };
+};
+
+const bookOrder = (order: VenueOrder, leverages: Record<string, number>): PendingOrder | null => {
+  const type = ENGINE_ORDER_TYPES[order.type];
+  const timeInForce = ENGINE_TIME_IN_FORCE[order.timeInForce];
+  if (!type || type === 'MARKET' || !timeInForce) return null;
+  const symbol = engineSymbol(order.symbol);
+  return {
+    id: order.orderId,
+    symbol,
+    side: order.side,
+    quantity: parseFloat(order.origQty) - parseFloat(order.executedQty),
+    type,
+    limitPrice: parseFloat(type === 'STOP_MARKET' ? order.stopPrice : order.price),
+    stopPrice: type === 'LIMIT' ? undefined : parseFloat(order.stopPrice),
+    leverage: leverages[symbol] ?? 1,
+    timeInForce,
+    reduceOnly: order.reduceOnly,
+    timestamp: order.updateTime,
+    reservedMargin: 0
+  };
+};
+
+// The engine's view of the book. Its free balance is whatever of the wallet the positions and orders leave,
+// and its ledger opens at that balance since the venue keeps the books
+export const bookAccount = (book: VenueBook, leverages: Record<string, number>, timestamp: number): AccountState => {
+  const positions = Object.values(book.positions).map(p => bookPosition(p, leverages));
+  const held: AccountState = { ...createInitialAccount(0, false), positionMode: book.positionMode, positions, ledger: [] };
+  const orders = book.orders
+    .map(o => bookOrder(o, leverages))
+    .filter((o): o is PendingOrder => o !== null)
+    .map(o => ({ ...o, reservedMargin: orderReserve(held, o) }));
+  const balance = book.wallet - usedMargin(positions) - reservedMargin(orders);
+  return {
+    ...post(held, timestamp, [{ type: 'DEPOSIT', amount: balance, reference: 'Exchange balance' }]),
+    orders,
+    trades: book.trades,
+    realizedPnl: book.trades.reduce((acc, t) => acc + t.realizedPnl, 0),
+    feesPaid: book.trades.reduce((acc, t) => acc + t.fee, 0)
+  };
+};
+
+// Transports
+
+export type StreamHandlers = {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onClose: () => void;
+};
+
+export type StreamConnection = {
+  send: (data: string) => void;
+  close: () => void;
+};
+
+// How the client reaches a venue: over the network, or straight into an in-process mock
+export type ExchangeTransport = {
+  name: string;
+  request: (request: RestRequest) => Promise<RestResponse>;
+  openStream: (handlers: StreamHandlers) => StreamConnection;
+};
+
+// Binance takes parameters in the query string for every method
+export const createHttpTransport = (baseUrl: string, streamUrl: string): ExchangeTransport => ({
+  name: baseUrl,
+  request: async ({ method, path, params }) => {
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${baseUrl}${path}${query ? `?${query}` : ''}`, { method });
+    return { status: response.status, body: await response.json() };
+  },
+  openStream: (handlers) => {
+    const socket = new WebSocket(streamUrl);
+    socket.onopen = () => handlers.onOpen();
+    socket.onmessage = (event) => handlers.onMessage(String(event.data));
+    socket.onclose = () => handlers.onClose();
+    return { send: (data) => socket.send(data), close: () => socket.close() };
+  }
+});
+
+// Client
+
+export type ConnectionStatus = 'CONNECTING' | 'OPEN' | 'RECONNECTING' | 'CLOSED';
+
+export type ExchangeHandlers = {
+  onTrade?: (tick: PriceTick) => void;
+  onTicker?: (event: TickerEvent) => void;
+  onAccount?: (account: AccountState) => void;
+  onStatus?: (status: ConnectionStatus, detail?: string) => void;
+};
+
+export type ExchangeClient = {
+  name: string;
+  // Round trip in milliseconds
+  ping: () => Promise<number>;
+  klines: (symbol: string, limit: number) => Promise<Candle[]>;
+  account: () => Promise<AccountState>;
+  setPositionMode: (mode: PositionMode) => Promise<void>;
+  placeOrder: (order: MarketOrder | LimitOrderRequest) => Promise<VenueOrder>;
+  amendOrder: (symbol: string, orderId: string, price: number, quantity: number) => Promise<VenueOrder>;
+  cancelOrder: (symbol: string, orderId: string) => Promise<VenueOrder>;
+  // Streams trades for every symbol plus the account; reconnects until closed
+  connect: (handlers: ExchangeHandlers) => void;
+  close: () => void;
+};
+
+export const REQUEST_TIMEOUT_MS = 10000;
+// A day of 1m candles, the most a market keeps
+const HISTORY_KLINES = 24 * 60;
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 10000;
+
+const isVenueError = (body: unknown): body is VenueError =>
+  typeof body === 'object' && body !== null && typeof (body as VenueError).code === 'number' &&
+  typeof (body as VenueError).msg === 'string';
+
+const withTimeout = <T,>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new ExchangeError(VENUE_ERRORS.TIMEOUT, 'Timeout waiting for the exchange to respond')),
+      ms
+    );
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+export const createExchangeClient = (transport: ExchangeTransport): ExchangeClient => {
+  const leverages: Record<string, number> = {};
+  // Last trade per symbol, which the rebuilt account's equity is tracked at
+  const prices: MarkPrices = {};
+  let book: VenueBook | null = null;
+  let synced: AccountState | null = null;
+  let handlers: ExchangeHandlers = {};
+  let connection: StreamConnection | null = null;
+  let closed = false;
+  let attempts = 0;
+  let retry: ReturnType<typeof setTimeout> | null = null;
+  let controlId = 0;
+
+  const call = async <T,>(method: RestMethod, path: string, params: RestParams = {}): Promise<T> => {
+    let response: RestResponse;
+    try {
+      response = await withTimeout(transport.request({ method, path, params }), REQUEST_TIMEOUT_MS);
+    } catch (error) {
+      if (error instanceof ExchangeError) throw error;
+      throw new ExchangeError(VENUE_ERRORS.DISCONNECTED, error instanceof Error ? error.message : String(error));
+    }
+    if (isVenueError(response.body) && response.status >= 400) {
+      throw new ExchangeError(response.body.code, response.body.msg);
+    }
+    if (response.status >= 400) throw new ExchangeError(VENUE_ERRORS.UNKNOWN, `HTTP ${response.status}`);
+    return response.body as T;
+  };
+
+  // Fills seen so far carry over, since no endpoint replays them
+  const snapshot = async () => {
+    const [venue, orders, mode] = await Promise.all([
+      call<VenueAccount>('GET', API_PATHS.account),
+      call<VenueOrder[]>('GET', API_PATHS.openOrders),
+      call<{ dualSidePosition: boolean }>('GET', API_PATHS.positionMode)
+    ]);
+    venue.positions.forEach(p => {
+      leverages[engineSymbol(p.symbol)] = parseFloat(p.leverage);
+    });
+    return venueBook(venue, orders, mode.dualSidePosition, book?.trades);
+  };
+
+  // Peak and start-of-day equity carry over between rebuilds, as they would on an account the engine kept
+  const rebuild = (next: VenueBook) => {
+    const now = Date.now();
+    const rebuilt = bookAccount(next, leverages, now);
+    const tracked = synced
+      ? { ...rebuilt, peakEquity: synced.peakEquity, dayStart: synced.dayStart, lockedUntilDay: synced.lockedUntilDay }
+      : rebuilt;
+    return trackEquity(tracked, prices, now);
+  };
+
+  const publish = (next: VenueBook) => {
+    book = next;
+    synced = rebuild(next);
+    handlers.onAccount?.(synced);
+  };
+
+  const account = async () => rebuild(await snapshot());
+
+  const setLeverage = async (symbol: string, leverage: number) => {
+    if (leverages[symbol] === leverage) return;
+    await call('POST', API_PATHS.leverage, { symbol: venueSymbol(symbol), leverage: String(leverage) });
+    leverages[symbol] = leverage;
+  };
+
+  const handleMessage = (data: string) => {
+    let message: StreamMessage;
+    try {
+      message = JSON.parse(data);
+    } catch (error) {
+      console.error('Ignoring unreadable stream message', error);
+      return;
+    }
+    // Subscription replies carry no stream
+    if (!message.data) return;
+    const event = message.data;
+    switch (event.e) {
+      case 'trade':
+        prices[engineSymbol(event.s)] = parseFloat(event.p);
+        handlers.onTrade?.({
+          symbol: engineSymbol(event.s),
+          timestamp: event.T,
+          price: parseFloat(event.p),
+          volume: parseFloat(event.q)
+        });
+        break;
+      case '24hrTicker':
+        handlers.onTicker?.(event);
+        break;
+      // Anything before the first snapshot is already in it
+      case 'ACCOUNT_UPDATE':
+        if (book) publish(applyAccountUpdate(book, event));
+        break;
+      case 'ORDER_TRADE_UPDATE':
+        if (book) publish(applyOrderUpdate(book, event));
+        break;
+    }
+  };
+
+  // Whatever changed while the stream was down is caught up from a fresh snapshot
+  const subscribe = async (socket: StreamConnection) => {
+    const { listenKey } = await call<{ listenKey: string }>('POST', API_PATHS.listenKey);
+    const control: StreamControl = {
+      method: 'SUBSCRIBE',
+      params: [...SYMBOLS.map(info => tradeStream(info.symbol)), listenKey],
+      id: ++controlId
+    };
+    socket.send(JSON.stringify(control));
+    publish(await snapshot());
+  };
+
+  const open = () => {
+    if (closed) return;
+    const socket = transport.openStream({
+      onOpen: () => {
+        attempts = 0;
+        handlers.onStatus?.('OPEN');
+        subscribe(socket).catch(error => handlers.onStatus?.('OPEN', venueRejection(error).message));
+      },
+      onMessage: handleMessage,
+      onClose: () => {
+        if (connection !== socket || closed) return;
+        connection = null;
+        const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts++);
+        handlers.onStatus?.('RECONNECTING', `Stream dropped, retrying in ${(delay / 1000).toFixed(1)}s`);
+        retry = setTimeout(open, delay);
+      }
+    });
+    connection = socket;
+  };
+
+  return {
+    name: transport.name,
+    ping: async () => {
+      const start = Date.now();
+      await call('GET', API_PATHS.ping);
+      return Date.now() - start;
+    },
+    klines: async (symbol, limit) => {
+      const rows = await call<unknown[]>('GET', API_PATHS.klines, {
+        symbol: venueSymbol(symbol),
+        interval: '1m',
+        limit: String(limit)
+      });
+      return rows.map(parseKline);
+    },
+    account,
+    setPositionMode: async (mode) => {
+      await call('POST', API_PATHS.positionMode, { dualSidePosition: String(mode === 'HEDGE') });
+      if (book) publish({ ...book, positionMode: mode });
+    },
+    // Reduce-only orders open nothing, and a blended position's fractional leverage is no setting the venue takes;
+    // both go out at the symbol's current setting rather than changing it
+    placeOrder: async (order) => {
+      if (!order.reduceOnly && Number.isInteger(order.leverage)) await setLeverage(order.symbol, order.leverage);
+      return call<VenueOrder>('POST', API_PATHS.order, orderParams(order));
+    },
+    amendOrder: (symbol, orderId, price, quantity) =>
+      call<VenueOrder>('PUT', API_PATHS.order, {
+        symbol: venueSymbol(symbol),
+        orderId,
+        price: String(price),
+        quantity: String(quantity)
+      }),
+    cancelOrder: (symbol, orderId) =>
+      call<VenueOrder>('DELETE', API_PATHS.order, { symbol: venueSymbol(symbol), orderId }),
+    connect: (next) => {
+      handlers = next;
+      closed = false;
+      book = null;
+      synced = null;
+      handlers.onStatus?.('CONNECTING');
+      open();
+    },
+    close: () => {
+      closed = true;
+      if (retry) clearTimeout(retry);
+      connection?.close();
+      connection = null;
+      handlers.onStatus?.('CLOSED');
+    }
+  };
+};
+
+// Candles come over REST first so the charts have history before the stream starts
+export const loadVenueMarket = async (client: ExchangeClient, now: number): Promise<MarketState> => {
+  const klines: Record<string, Candle[]> = {};
+  for (const info of SYMBOLS) klines[info.symbol] = await client.klines(info.symbol, HISTORY_KLINES);
+  return marketFromKlines(klines, now);
+};
@@ -0,0 +1,285 @@
+import { QUOTE_ASSET } from './display';
+import { SYMBOLS } from './marketData';
+import { OrderSide, PendingOrderType } from './tradingEngine';
+import { StorageLike } from './storage';
+
+// Hotkey presets are sized in quote currency so one binding suits every symbol
+export type CommandSize = { unit: 'QUANTITY' | 'NOTIONAL'; value: number };
+
+// What a hotkey or a palette line asks the dashboard to do; symbols default to the selected one
+export type TradingCommand =
+  | {
+      type: 'ORDER';
+      side: OrderSide;
+      size: CommandSize;
+      symbol?: string;
+      orderType: 'MARKET' | PendingOrderType;
+      // Limit price, or the stop for stop-markets
+      price?: number;
+      stopLoss?: number;
+      takeProfit?: number;
+      leverage?: number;
+      reduceOnly?: boolean;
+    }
+  | { type: 'CLOSE_ALL' }
+  | { type: 'FLATTEN'; symbol?: string }
+  | { type: 'CANCEL_ALL' }
+  | { type: 'CANCEL_SYMBOL'; symbol?: string }
+  | { type: 'CYCLE_SYMBOL'; step: 1 | -1 }
+  | { type: 'SELECT_SYMBOL'; symbol: string }
+  | { type: 'SET_LEVERAGE'; leverage: number }
+  | { type: 'CHANGE_LEVERAGE'; step: number }
+  | { type: 'OPEN_PALETTE' };
+
+export type Hotkey = {
+  id: string;
+  // Modifiers first, e.g. 'Shift+B' or 'Ctrl+K'
+  keys: string;
+  command: TradingCommand;
+};
+
+export type HotkeySettings = {
+  enabled: boolean;
+  // Keyboard orders wait for a confirmation before they are sent
+  confirmOrders: boolean;
+  bindings: Hotkey[];
+};
+
+// Only the parts of a keyboard event a binding looks at
+export type KeyPress = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+export const HOTKEYS_KEY = 'crypto-dashboard:hotkeys';
+
+export const MIN_LEVERAGE = 1;
+export const MAX_LEVERAGE = 100;
+
+const presetOrder = (side: OrderSide, notional: number): TradingCommand =>
+  ({ type: 'ORDER', side, size: { unit: 'NOTIONAL', value: notional }, orderType: 'MARKET' });
+
+export const DEFAULT_HOTKEY_SETTINGS: HotkeySettings = {
+  enabled: true,
+  confirmOrders: true,
+  bindings: [
+    { id: 'buy-small', keys: 'B', command: presetOrder('BUY', 100) },
+    { id: 'buy-large', keys: 'Shift+B', command: presetOrder('BUY', 1000) },
+    { id: 'sell-small', keys: 'S', command: presetOrder('SELL', 100) },
+    { id: 'sell-large', keys: 'Shift+S', command: presetOrder('SELL', 1000) },
+    { id: 'flatten', keys: 'X', command: { type: 'FLATTEN' } },
+    { id: 'close-all', keys: 'Shift+X', command: { type: 'CLOSE_ALL' } },
+    { id: 'cancel-symbol', keys: 'C', command: { type: 'CANCEL_SYMBOL' } },
+    { id: 'cancel-all', keys: 'Shift+C', command: { type: 'CANCEL_ALL' } },
+    { id: 'next-symbol', keys: ']', command: { type: 'CYCLE_SYMBOL', step: 1 } },
+    { id: 'previous-symbol', keys: '[', command: { type: 'CYCLE_SYMBOL', step: -1 } },
+    { id: 'leverage-up', keys: '=', command: { type: 'CHANGE_LEVERAGE', step: 1 } },
+    { id: 'leverage-down', keys: '-', command: { type: 'CHANGE_LEVERAGE', step: -1 } },
+    { id: 'palette', keys: 'Ctrl+K', command: { type: 'OPEN_PALETTE' } }
+  ]
+};
+
+// Letters and digits are read from the physical key so Shift+1 stays '1' rather than '!'
+export const keysOf = (press: KeyPress) => {
+  const key = press.code.startsWith('Key')
+    ? press.code.slice(3)
+    : press.code.startsWith('Digit')
+      ? press.code.slice(5)
+      : press.key.length === 1 ? press.key.toUpperCase() : press.key;
+  const modifiers = [
+    press.ctrlKey || press.metaKey ? 'Ctrl' : '',
+    press.altKey ? 'Alt' : '',
+    press.shiftKey ? 'Shift' : ''
+  ].filter(Boolean);
+  return [...modifiers, key].join('+');
+};
+
+// Bare modifier presses are not bindings on their own
+export const isModifierOnly = (press: KeyPress) => ['Control', 'Meta', 'Alt', 'Shift'].includes(press.key);
+
+export const findHotkey = (settings: HotkeySettings, press: KeyPress) => {
+  if (!settings.enabled || isModifierOnly(press)) return undefined;
+  const keys = keysOf(press);
+  return settings.bindings.find(b => b.keys === keys);
+};
+
+export const clampLeverage = (leverage: number) =>
+  Math.min(MAX_LEVERAGE, Math.max(MIN_LEVERAGE, Math.round(leverage)));
+
+const formatSize = (size: CommandSize) =>
+  size.unit === 'NOTIONAL' ? `${size.value} ${QUOTE_ASSET}` : String(size.value);
+
+export const describeCommand = (command: TradingCommand) => {
+  switch (command.type) {
+    case 'ORDER': {
+      const parts = [
+        command.side === 'BUY' ? 'Buy' : 'Sell',
+        formatSize(command.size),
+        command.symbol ?? '',
+        command.orderType === 'MARKET' ? 'at market' : `${command.orderType === 'LIMIT' ? 'limit' : 'stop'} ${command.price}`,
+        command.stopLoss !== undefined ? `SL ${command.stopLoss}` : '',
+        command.takeProfit !== undefined ? `TP ${command.takeProfit}` : '',
+        command.leverage !== undefined ? `${command.leverage}x` : '',
+        command.reduceOnly ? 'reduce only' : ''
+      ];
+      return parts.filter(Boolean).join(' ');
+    }
+    case 'CLOSE_ALL':
+      return 'Close all positions';
+    case 'FLATTEN':
+      return `Flatten ${command.symbol ?? 'current symbol'}`;
+    case 'CANCEL_ALL':
+      return 'Cancel all orders';
+    case 'CANCEL_SYMBOL':
+      return `Cancel ${command.symbol ?? 'current symbol'} orders`;
+    case 'CYCLE_SYMBOL':
+      return command.step > 0 ? 'Next symbol' : 'Previous symbol';
+    case 'SELECT_SYMBOL':
+      return `Switch to ${command.symbol}`;
+    case 'SET_LEVERAGE':
+      return `Leverage ${command.leverage}x`;
+    case 'CHANGE_LEVERAGE':
+      return `Leverage ${command.step > 0 ? '+' : ''}${command.step}x`;
+    case 'OPEN_PALETTE':
+      return 'Open command palette';
+  }
+};
+
+// Palette grammar
+
+const symbolOf = (token: string | undefined) =>
+  SYMBOLS.find(s => s.symbol.toLowerCase() === token?.toLowerCase())?.symbol;
+
+const positiveNumber = (token: string | undefined, what: string) => {
+  const value = parseFloat(token ?? '');
+  if (!Number.isFinite(value) || value <= 0) throw new Error(`Expected a positive ${what}, got "${token ?? ''}"`);
+  return value;
+};
+
+// `$500` sizes by notional, anything else is a quantity
+const parseSize = (token: string | undefined): CommandSize =>
+  token?.startsWith('$')
+    ? { unit: 'NOTIONAL', value: positiveNumber(token.slice(1), 'amount') }
+    : { unit: 'QUANTITY', value: positiveNumber(token, 'quantity') };
+
+// buy|sell <quantity|$notional> [symbol] [limit <price> | stop <price>] [sl <price>] [tp <price>] [<n>x | lev <n>] [reduce]
+const parseOrder = (side: OrderSide, tokens: string[]): TradingCommand => {
+  const command: Extract<TradingCommand, { type: 'ORDER' }> = {
+    type: 'ORDER',
+    side,
+    size: parseSize(tokens[0]),
+    orderType: 'MARKET'
+  };
+  let i = 1;
+  const symbol = symbolOf(tokens[i]);
+  if (symbol) {
+    command.symbol = symbol;
+    i++;
+  }
+  while (i < tokens.length) {
+    const token = tokens[i++];
+    const leverageSuffix = /^(\d+)x$/.exec(token);
+    if (leverageSuffix) {
+      command.leverage = clampLeverage(parseInt(leverageSuffix[1], 10));
+      continue;
+    }
+    switch (token) {
+      case 'market':
+        command.orderType = 'MARKET';
+        break;
+      case 'limit':
+        command.orderType = 'LIMIT';
+        command.price = positiveNumber(tokens[i++], 'limit price');
+        break;
+      case 'stop':
+        command.orderType = 'STOP_MARKET';
+        command.price = positiveNumber(tokens[i++], 'stop price');
+        break;
+      case 'sl':
+        command.stopLoss = positiveNumber(tokens[i++], 'stop loss');
+        break;
+      case 'tp':
+        command.takeProfit = positiveNumber(tokens[i++], 'take profit');
+        break;
+      case 'lev':
+        command.leverage = clampLeverage(positiveNumber(tokens[i++], 'leverage'));
+        break;
+      case 'reduce':
+        command.reduceOnly = true;
+        break;
+      default:
+        throw new Error(`Unknown order option "${token}"`);
+    }
+  }
+  return command;
+};
+
+// Throws with a readable message when the line cannot be understood
+export const parseCommand = (line: string): TradingCommand => {
+  const tokens = line.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const [verb, ...rest] = tokens;
+  if (!verb) throw new Error('Type a command, e.g. "buy 0.5 eth limit 2300 sl 2200 tp 2600"');
+
+  const symbolArgument = () => {
+    if (rest.length === 0) return undefined;
+    const symbol = symbolOf(rest[0]);
+    if (!symbol || rest.length > 1) throw new Error(`Unknown symbol "${rest.join(' ')}"`);
+    return symbol;
+  };
+
+  switch (verb) {
+    case 'buy':
+    case 'sell':
+      return parseOrder(verb === 'buy' ? 'BUY' : 'SELL', rest);
+    case 'close':
+    case 'flatten':
+      if (verb === 'close' && rest[0] === 'all' && rest.length === 1) return { type: 'CLOSE_ALL' };
+      return { type: 'FLATTEN', symbol: symbolArgument() };
+    case 'cancel':
+      if (rest[0] === 'all' && rest.length === 1) return { type: 'CANCEL_ALL' };
+      return { type: 'CANCEL_SYMBOL', symbol: symbolArgument() };
+    case 'lev':
+    case 'leverage':
+      return { type: 'SET_LEVERAGE', leverage: clampLeverage(positiveNumber(rest[0], 'leverage')) };
+    case 'next':
+      return { type: 'CYCLE_SYMBOL', step: 1 };
+    case 'prev':
+    case 'previous':
+      return { type: 'CYCLE_SYMBOL', step: -1 };
+    default: {
+      const symbol = symbolOf(verb);
+      if (symbol && rest.length === 0) return { type: 'SELECT_SYMBOL', symbol };
+      throw new Error(`Unknown command "${verb}"`);
+    }
+  }
+};
+
+// Settings
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseHotkeySettings = (json: string): HotkeySettings => {
+  const raw: unknown = JSON.parse(json);
+  if (!isObject(raw) || !Array.isArray(raw.bindings)) throw new Error('Stored hotkeys are not hotkey settings');
+  const bindings = raw.bindings.filter(
+    (b): b is Hotkey => isObject(b) && typeof b.id === 'string' && typeof b.keys === 'string' && isObject(b.command)
+  );
+  return {
+    enabled: raw.enabled !== false,
+    confirmOrders: raw.confirmOrders !== false,
+    bindings
+  };
+};
+
+export const loadHotkeySettings = (storage: StorageLike = window.localStorage): HotkeySettings => {
+  const json = storage.getItem(HOTKEYS_KEY);
+  if (!json) return DEFAULT_HOTKEY_SETTINGS;
+  try {
+    return parseHotkeySettings(json);
+  } catch (error) {
+    console.error('Discarding unreadable hotkey settings', error);
+    return DEFAULT_HOTKEY_SETTINGS;
+  }
+};
+
+export const saveHotkeySettings = (settings: HotkeySettings, storage: StorageLike = window.localStorage) => {
+  storage.setItem(HOTKEYS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,109 @@
+import { Candle } from './candles';
+
+// Every series is aligned with its input; null marks the warm-up period
+export type Series = (number | null)[];
+
+export const sma = (values: number[], period: number): Series =>
+  values.map((_, i) => {
+    if (i < period - 1) return null;
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) sum += values[j];
+    return sum / period;
+  });
+
+// Seeded with the SMA of the first `period` values
+export const ema = (values: number[], period: number): Series => {
+  const k = 2 / (period + 1);
+  const result: Series = [];
+  let prev: number | null = null;
+  values.forEach((value, i) => {
+    if (i < period - 1) {
+      result.push(null);
+      return;
+    }
+    if (prev === null) {
+      prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    } else {
+      prev = value * k + prev * (1 - k);
+    }
+    result.push(prev);
+  });
+  return result;
+};
+
+export const bollinger = (values: number[], period = 20, multiplier = 2) => {
+  const middle = sma(values, period);
+  const width = middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const variance = window.reduce((acc, v) => acc + (v - mean) ** 2, 0) / period;
+    return Math.sqrt(variance) * multiplier;
+  });
+  return {
+    middle,
+    upper: middle.map((mean, i) => (mean === null ? null : mean + (width[i] as number))),
+    lower: middle.map((mean, i) => (mean === null ? null : mean - (width[i] as number)))
+  };
+};
+
+// Cumulative over the series using the typical price
+export const vwap = (candles: Candle[]): Series => {
+  let volume = 0;
+  let value = 0;
+  return candles.map(candle => {
+    volume += candle.volume;
+    value += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    return volume > 0 ? value / volume : null;
+  });
+};
+
+// Wilder's smoothing
+export const rsi = (values: number[], period = 14): Series => {
+  const result: Series = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) gain += change;
+    else loss -= change;
+  }
+  gain /= period;
+  loss /= period;
+
+  const toRsi = () => (loss === 0 ? 100 : 100 - 100 / (1 + gain / loss));
+  result[period] = toRsi();
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+};
+
+export const macd = (values: number[], fast = 12, slow = 26, signalPeriod = 9) => {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = values.map((_, i) => {
+    const f = fastEma[i];
+    const s = slowEma[i];
+    return f === null || s === null ? null : f - s;
+  });
+
+  // The signal EMA runs over the defined part of the MACD line only
+  const start = line.findIndex(v => v !== null);
+  const signal: Series = start === -1
+    ? line.map(() => null)
+    : [...line.slice(0, start).map(() => null), ...ema(line.slice(start) as number[], signalPeriod)];
+
+  return {
+    line,
+    signal,
+    histogram: line.map((v, i) => {
+      const s = signal[i];
+      return v === null || s === null ? null : v - s;
+    })
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createJournal, importJournal, journalJson } from './journal';
+import { reconcile } from './ledger';
+import { AccountState, EngineAction, accountEquity, accountReducer, createInitialAccount } from './tradingEngine';
+
+const NOW = Date.UTC(2024, 0, 1);
+const MARKS = { BTC: 41000, ETH: 2100 };
+
+const ACTIONS: EngineAction[] = [
+  { type: 'DEPOSIT_COLLATERAL', asset: 'BTC', amount: 0.5, marks: MARKS, timestamp: NOW },
+  { type: 'DEPOSIT_COLLATERAL', asset: 'ETH', amount: 3, marks: MARKS, timestamp: NOW },
+  {
+    type: 'EXECUTE_ORDER',
+    order: { symbol: 'BTC', side: 'BUY', quantity: 0.1, price: 40000, leverage: 5, timestamp: NOW },
+    reason: 'Market'
+  },
+  {
+    type: 'EXECUTE_ORDER',
+    order: { symbol: 'ETH', side: 'SELL', quantity: 1, price: 2000, leverage: 10, timestamp: NOW + 1000 },
+    reason: 'Market'
+  }
+];
+
+const trading = (): AccountState => ACTIONS.reduce(accountReducer, createInitialAccount(10000, false));
+
+describe('journal', () => {
+  it('rebuilds the exported account, collateral included', () => {
+    const state = trading();
+    const journal = createJournal(state, MARKS, 10000, NOW);
+    const { account, startingBalance } = importJournal(journalJson(journal), MARKS);
+
+    expect(startingBalance).toBe(10000);
+    expect(account.collateral).toEqual(state.collateral);
+    expect(account.collateralTransfers.map(t => [t.asset, t.amount, t.value])).toEqual(
+      state.collateralTransfers.map(t => [t.asset, t.amount, t.value])
+    );
+    expect(account.balance).toBeCloseTo(state.balance, 9);
+    expect(accountEquity(account, MARKS)).toBeCloseTo(journal.account.equity, 9);
+    expect(account.positions.map(p => [p.symbol, p.side, p.quantity])).toEqual(
+      state.positions.map(p => [p.symbol, p.side, p.quantity])
+    );
+    expect(account.trades).toHaveLength(state.trades.length);
+    expect(reconcile(account).balanced).toBe(true);
+  });
+
+  it('still reads version 1 journals, which hold no collateral', () => {
+    const { collateral, ...journal } = createJournal(trading(), MARKS, 10000, NOW);
+    expect(collateral).toHaveLength(2);
+    const { account } = importJournal(JSON.stringify({ ...journal, version: 1 }), MARKS);
+    expect(account.collateral).toEqual([]);
+    expect(account.collateralTransfers).toEqual([]);
+  });
+
+  it('rejects collateral the account cannot hold', () => {
+    const journal = createJournal(trading(), MARKS, 10000, NOW);
+    const json = JSON.stringify({ ...journal, collateral: [{ asset: 'DOGE', amount: 1 }] });
+    expect(() => importJournal(json, MARKS)).toThrow('Collateral 1: DOGE is not accepted as collateral');
+  });
+});
@@ -0,0 +1,327 @@
+import {
+  AccountState,
+  Position,
+  PositionMode,
+  Side,
+  Trade,
+  accountEquity,
+  createInitialAccount,
+  transferCollateral
+} from './tradingEngine';
+import { MarginMode } from './margin';
+import { MarkPrices, SYMBOLS } from './marketData';
+import { post } from './ledger';
+import { COLLATERAL_HAIRCUTS, CollateralHolding } from './collateral';
+
+// Bumped whenever a column is added, renamed or reinterpreted
+export const JOURNAL_VERSION = 2;
+
+// Version 1 journals predate coin collateral and import without any
+const IMPORTABLE_VERSIONS = [1, JOURNAL_VERSION];
+
+export type TradeRow = {
+  id: string;
+  time: string;
+  symbol: string;
+  side: Side;
+  quantity: number;
+  price: number;
+  realizedPnl: number;
+  fee: number;
+  funding: number;
+  closeReason: string;
+};
+
+export type PositionRow = {
+  id: string;
+  time: string;
+  symbol: string;
+  side: Side;
+  quantity: number;
+  entryPrice: number;
+  leverage: number;
+  marginMode: MarginMode;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  trailingDistance: number | null;
+  fundingPaid: number;
+};
+
+export type AccountSnapshot = {
+  time: string;
+  startingBalance: number;
+  balance: number;
+  equity: number;
+  realizedPnl: number;
+  feesPaid: number;
+  fundingPaid: number;
+  positionMode: PositionMode;
+  marginMode: MarginMode;
+};
+
+export type CollateralRow = CollateralHolding;
+
+export type Journal = {
+  version: number;
+  account: AccountSnapshot;
+  positions: PositionRow[];
+  trades: TradeRow[];
+  collateral: CollateralRow[];
+};
+
+// Column order is part of the file format; append new columns at the end
+export const TRADE_COLUMNS: (keyof TradeRow)[] = [
+  'id', 'time', 'symbol', 'side', 'quantity', 'price', 'realizedPnl', 'fee', 'funding', 'closeReason'
+];
+
+export const POSITION_COLUMNS: (keyof PositionRow)[] = [
+  'id', 'time', 'symbol', 'side', 'quantity', 'entryPrice', 'leverage', 'marginMode',
+  'stopLoss', 'takeProfit', 'trailingDistance', 'fundingPaid'
+];
+
+export const ACCOUNT_COLUMNS: (keyof AccountSnapshot)[] = [
+  'time', 'startingBalance', 'balance', 'equity', 'realizedPnl', 'feesPaid', 'fundingPaid', 'positionMode', 'marginMode'
+];
+
+export const COLLATERAL_COLUMNS: (keyof CollateralRow)[] = ['asset', 'amount'];
+
+const toIso = (timestamp: number) => new Date(timestamp).toISOString();
+
+export const tradeRow = (trade: Trade): TradeRow => ({
+  id: trade.id,
+  time: toIso(trade.timestamp),
+  symbol: trade.symbol,
+  side: trade.side,
+  quantity: trade.quantity,
+  price: trade.price,
+  realizedPnl: trade.realizedPnl,
+  fee: trade.fee,
+  funding: trade.funding,
+  closeReason: trade.closeReason
+});
+
+export const positionRow = (position: Position): PositionRow => ({
+  id: position.id,
+  time: toIso(position.timestamp),
+  symbol: position.symbol,
+  side: position.side,
+  quantity: position.quantity,
+  entryPrice: position.entryPrice,
+  leverage: position.leverage,
+  marginMode: position.marginMode,
+  stopLoss: position.stopLoss ?? null,
+  takeProfit: position.takeProfit ?? null,
+  trailingDistance: position.trailingDistance ?? null,
+  fundingPaid: position.fundingPaid
+});
+
+export const accountSnapshot = (
+  state: AccountState,
+  marks: MarkPrices,
+  startingBalance: number,
+  now: number
+): AccountSnapshot => ({
+  time: toIso(now),
+  startingBalance,
+  balance: state.balance,
+  equity: accountEquity(state, marks),
+  realizedPnl: state.realizedPnl,
+  feesPaid: state.feesPaid,
+  fundingPaid: state.fundingPaid,
+  positionMode: state.positionMode,
+  marginMode: state.marginMode
+});
+
+// Trades are written oldest first, the way a spreadsheet reads them
+export const createJournal = (
+  state: AccountState,
+  marks: MarkPrices,
+  startingBalance: number,
+  now = Date.now()
+): Journal => ({
+  version: JOURNAL_VERSION,
+  account: accountSnapshot(state, marks, startingBalance, now),
+  positions: state.positions.map(positionRow),
+  trades: [...state.trades].sort((a, b) => a.timestamp - b.timestamp).map(tradeRow),
+  collateral: state.collateral.map(h => ({ asset: h.asset, amount: h.amount }))
+});
+
+// CSV
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T,>(columns: (keyof T)[], rows: T[]) =>
+  [columns.join(','), ...rows.map(row => columns.map(column => csvCell(row[column])).join(','))].join('\n') + '\n';
+
+export const tradesCsv = (journal: Journal) => toCsv(TRADE_COLUMNS, journal.trades);
+
+export const positionsCsv = (journal: Journal) => toCsv(POSITION_COLUMNS, journal.positions);
+
+export const accountCsv = (journal: Journal) => toCsv(ACCOUNT_COLUMNS, [journal.account]);
+
+export const collateralCsv = (journal: Journal) => toCsv(COLLATERAL_COLUMNS, journal.collateral);
+
+export const journalJson = (journal: Journal) => JSON.stringify(journal, null, 2);
+
+// Import
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (record: Record<string, unknown>, field: string) => {
+  const value = record[field];
+  if (typeof value !== 'string') throw new Error(`"${field}" must be a string`);
+  return value;
+};
+
+const readNumber = (record: Record<string, unknown>, field: string) => {
+  const value = record[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`"${field}" must be a number`);
+  return value;
+};
+
+const readOptionalNumber = (record: Record<string, unknown>, field: string) =>
+  record[field] === null || record[field] === undefined ? undefined : readNumber(record, field);
+
+const readTime = (record: Record<string, unknown>, field: string) => {
+  const parsed = Date.parse(readString(record, field));
+  if (Number.isNaN(parsed)) throw new Error(`"${field}" is not an ISO timestamp`);
+  return parsed;
+};
+
+const readOneOf = <T extends string>(record: Record<string, unknown>, field: string, allowed: T[]): T => {
+  const value = readString(record, field);
+  if (!allowed.includes(value as T)) throw new Error(`"${field}" must be one of ${allowed.join(', ')}`);
+  return value as T;
+};
+
+const readSymbol = (record: Record<string, unknown>) => {
+  const symbol = readString(record, 'symbol');
+  if (!SYMBOLS.some(s => s.symbol === symbol)) throw new Error(`Unknown symbol "${symbol}"`);
+  return symbol;
+};
+
+const SIDES: Side[] = ['LONG', 'SHORT'];
+const MARGIN_MODES: MarginMode[] = ['ISOLATED', 'CROSS'];
+const POSITION_MODES: PositionMode[] = ['ONE_WAY', 'HEDGE'];
+
+const withContext = <T,>(context: string, parse: () => T): T => {
+  try {
+    return parse();
+  } catch (error) {
+    throw new Error(`${context}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const parseTrade = (raw: unknown): Trade => {
+  if (!isObject(raw)) throw new Error('not an object');
+  return {
+    id: readString(raw, 'id'),
+    symbol: readSymbol(raw),
+    side: readOneOf(raw, 'side', SIDES),
+    quantity: readNumber(raw, 'quantity'),
+    price: readNumber(raw, 'price'),
+    realizedPnl: readNumber(raw, 'realizedPnl'),
+    fee: readNumber(raw, 'fee'),
+    funding: readNumber(raw, 'funding'),
+    timestamp: readTime(raw, 'time'),
+    closeReason: readString(raw, 'closeReason')
+  };
+};
+
+const parsePosition = (raw: unknown): Position => {
+  if (!isObject(raw)) throw new Error('not an object');
+  const position: Position = {
+    id: readString(raw, 'id'),
+    symbol: readSymbol(raw),
+    side: readOneOf(raw, 'side', SIDES),
+    quantity: readNumber(raw, 'quantity'),
+    entryPrice: readNumber(raw, 'entryPrice'),
+    leverage: readNumber(raw, 'leverage'),
+    marginMode: readOneOf(raw, 'marginMode', MARGIN_MODES),
+    stopLoss: readOptionalNumber(raw, 'stopLoss'),
+    takeProfit: readOptionalNumber(raw, 'takeProfit'),
+    trailingDistance: readOptionalNumber(raw, 'trailingDistance'),
+    fundingPaid: readNumber(raw, 'fundingPaid'),
+    lots: [],
+    timestamp: readTime(raw, 'time')
+  };
+  if (position.quantity <= 0 || position.entryPrice <= 0 || position.leverage < 1) {
+    throw new Error('quantity, entry price and leverage must be positive');
+  }
+  // Journals hold no lot breakdown, so the position comes back as one lot at its entry
+  return {
+    ...position,
+    lots: [{ id: position.id, quantity: position.quantity, price: position.entryPrice, timestamp: position.timestamp }]
+  };
+};
+
+const parseCollateral = (raw: unknown): CollateralRow => {
+  if (!isObject(raw)) throw new Error('not an object');
+  const asset = readString(raw, 'asset');
+  if (!(asset in COLLATERAL_HAIRCUTS)) throw new Error(`${asset} is not accepted as collateral`);
+  const amount = readNumber(raw, 'amount');
+  if (amount <= 0) throw new Error('amount must be positive');
+  return { asset, amount };
+};
+
+// Counter ids end in a number; the rebuilt account continues after the highest one
+const nextSequence = (ids: string[]) =>
+  ids.reduce((max, id) => {
+    const match = /-(\d+)$/.exec(id);
+    return match ? Math.max(max, parseInt(match[1], 10) + 1) : max;
+  }, 1);
+
+// Rebuilds an account from a journal; totals are recomputed from the rows rather than trusted
+export const importJournal = (json: string, marks: MarkPrices): { account: AccountState; startingBalance: number } => {
+  const raw: unknown = JSON.parse(json);
+  if (!isObject(raw) || !isObject(raw.account)) throw new Error('File is not a trade journal');
+  if (!IMPORTABLE_VERSIONS.includes(raw.version as number)) {
+    throw new Error(`Unsupported journal version ${String(raw.version)}`);
+  }
+  if (!Array.isArray(raw.positions) || !Array.isArray(raw.trades)) throw new Error('Journal needs positions and trades');
+  const rawCollateral = raw.version === 1 ? [] : raw.collateral;
+  if (!Array.isArray(rawCollateral)) throw new Error('Journal needs collateral');
+
+  const snapshot = raw.account;
+  const startingBalance = withContext('Account', () => readNumber(snapshot, 'startingBalance'));
+  const balance = withContext('Account', () => readNumber(snapshot, 'balance'));
+  const positionMode = withContext('Account', () => readOneOf(snapshot, 'positionMode', POSITION_MODES));
+  const marginMode = withContext('Account', () => readOneOf(snapshot, 'marginMode', MARGIN_MODES));
+  const positions = raw.positions.map((p, i) => withContext(`Position ${i + 1}`, () => parsePosition(p)));
+  const trades = raw.trades.map((t, i) => withContext(`Trade ${i + 1}`, () => parseTrade(t)));
+  const collateral = rawCollateral.map((h, i) => withContext(`Collateral ${i + 1}`, () => parseCollateral(h)));
+
+  if (positionMode === 'ONE_WAY') {
+    const symbols = positions.map(p => p.symbol);
+    if (new Set(symbols).size !== symbols.length) throw new Error('One-way journals hold one position per symbol');
+  }
+
+  // The journal holds no balance history, so the imported balance opens a fresh ledger
+  const now = Date.now();
+  const opened = post(
+    { ...createInitialAccount(startingBalance, false), balance: 0, ledger: [] },
+    now,
+    [{ type: 'DEPOSIT', amount: balance, reference: 'Journal import' }]
+  );
+  const account: AccountState = {
+    ...opened,
+    realizedPnl: trades.reduce((acc, t) => acc + t.realizedPnl, 0),
+    feesPaid: trades.reduce((acc, t) => acc + t.fee, 0),
+    fundingPaid: trades.reduce((acc, t) => acc + t.funding, 0) + positions.reduce((acc, p) => acc + p.fundingPaid, 0),
+    positions,
+    trades: [...trades].sort((a, b) => b.timestamp - a.timestamp),
+    positionMode,
+    marginMode,
+    sequence: nextSequence([...positions, ...trades].map(r => r.id))
+  };
+  // Coins come back as deposits, valued at the marks they are imported at
+  return {
+    account: collateral.reduce((acc, h) => transferCollateral(acc, h.asset, h.amount, marks, now), account),
+    startingBalance
+  };
+};
@@ -0,0 +1,85 @@
+import { AccountState } from './tradingEngine';
+
+export type LedgerEntryType =
+  | 'DEPOSIT'
+  | 'WITHDRAWAL'
+  | 'MARGIN_LOCK'
+  | 'MARGIN_RELEASE'
+  | 'REALIZED_PNL'
+  | 'FEE'
+  | 'FUNDING'
+  | 'LIQUIDATION'
+  // Liquidation losses past the margin behind the position, which the account does not pay
+  | 'INSURANCE';
+
+// Amounts are signed from the free balance's point of view: credits are positive
+export type LedgerEntry = {
+  id: string;
+  type: LedgerEntryType;
+  amount: number;
+  // Free balance once the entry was applied
+  balance: number;
+  // Trade, order or position the entry belongs to, or what it was for
+  reference?: string;
+  timestamp: number;
+};
+
+export type LedgerPosting = Pick<LedgerEntry, 'type' | 'amount' | 'reference'>;
+
+export type Reconciliation = {
+  balance: number;
+  ledgerTotal: number;
+  difference: number;
+  // Entries whose running balance does not follow from the one before
+  breaks: string[];
+  balanced: boolean;
+};
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  DEPOSIT: 'Deposit',
+  WITHDRAWAL: 'Withdrawal',
+  MARGIN_LOCK: 'Margin lock',
+  MARGIN_RELEASE: 'Margin release',
+  REALIZED_PNL: 'Realized PnL',
+  FEE: 'Fee',
+  FUNDING: 'Funding',
+  LIQUIDATION: 'Liquidation',
+  INSURANCE: 'Insurance fund'
+};
+
+// Sums are built in the same order as the balance, so only real drift shows up
+const RECONCILE_TOLERANCE = 1e-6;
+
+// The only way the free balance moves: every change is appended to the ledger first
+export const post = (state: AccountState, timestamp: number, postings: LedgerPosting[]): AccountState => {
+  let balance = state.balance;
+  const entries: LedgerEntry[] = [];
+  postings
+    .filter(p => p.amount !== 0)
+    .forEach(p => {
+      balance += p.amount;
+      entries.push({ ...p, id: `led-${state.ledger.length + entries.length + 1}`, balance, timestamp });
+    });
+  if (entries.length === 0) return state;
+  return { ...state, balance, ledger: [...state.ledger, ...entries] };
+};
+
+export const ledgerTotal = (ledger: LedgerEntry[]) => ledger.reduce((acc, e) => acc + e.amount, 0);
+
+export const reconcile = (state: AccountState): Reconciliation => {
+  const total = ledgerTotal(state.ledger);
+  const breaks: string[] = [];
+  state.ledger.reduce((running, entry) => {
+    const next = running + entry.amount;
+    if (Math.abs(next - entry.balance) > RECONCILE_TOLERANCE) breaks.push(entry.id);
+    return entry.balance;
+  }, 0);
+  const difference = state.balance - total;
+  return {
+    balance: state.balance,
+    ledgerTotal: total,
+    difference,
+    breaks,
+    balanced: Math.abs(difference) <= RECONCILE_TOLERANCE && breaks.length === 0
+  };
+};
@@ -0,0 +1,78 @@
+import { MarkPrices, SYMBOLS } from './marketData';
+import { collateralValue } from './collateral';
+import {
+  AccountState,
+  Position,
+  directionOf,
+  markFor,
+  positionMargin,
+  positionPnl,
+  reservedMargin
+} from './tradingEngine';
+
+// Isolated positions risk only their own margin; cross positions share the free balance
+export type MarginMode = 'ISOLATED' | 'CROSS';
+
+const DEFAULT_MAINTENANCE_RATE = 0.005;
+
+// Ratio at which the account summary starts warning about a margin call
+export const MARGIN_CALL_RATIO = 0.8;
+
+export const maintenanceRate = (symbol: string) =>
+  SYMBOLS.find(s => s.symbol === symbol)?.maintenanceMarginRate ?? DEFAULT_MAINTENANCE_RATE;
+
+export const maintenanceMargin = (position: Position, markPrice: number) =>
+  position.quantity * markPrice * maintenanceRate(position.symbol);
+
+const crossPositions = (state: AccountState) => state.positions.filter(p => p.marginMode === 'CROSS');
+
+// Collateral backing cross positions: free balance, reserves, coin collateral after haircuts and cross margin plus their PnL
+export const crossEquity = (state: AccountState, marks: MarkPrices) =>
+  crossPositions(state).reduce(
+    (acc, pos) => acc + positionMargin(pos) + positionPnl(pos, markFor(marks, pos)),
+    state.balance + reservedMargin(state.orders) + collateralValue(state.collateral, marks)
+  );
+
+export const crossMaintenance = (state: AccountState, marks: MarkPrices) =>
+  crossPositions(state).reduce((acc, pos) => acc + maintenanceMargin(pos, markFor(marks, pos)), 0);
+
+export const isolatedEquity = (position: Position, markPrice: number) =>
+  positionMargin(position) + positionPnl(position, markPrice);
+
+// Price at which the position's backing equity equals its maintenance margin
+export const liquidationPrice = (state: AccountState, position: Position, marks: MarkPrices): number | null => {
+  const rate = maintenanceRate(position.symbol);
+  const direction = directionOf(position.side);
+  const quantity = position.quantity;
+
+  // Equity and maintenance that do not move with this position's price
+  let fixedEquity = positionMargin(position);
+  let fixedMaintenance = 0;
+  if (position.marginMode === 'CROSS') {
+    const mark = markFor(marks, position);
+    fixedEquity = crossEquity(state, marks) - positionPnl(position, mark);
+    fixedMaintenance = crossMaintenance(state, marks) - maintenanceMargin(position, mark);
+  }
+
+  // fixedEquity + direction * (P - entry) * qty = P * qty * rate + fixedMaintenance
+  const price =
+    (direction * position.entryPrice * quantity - fixedEquity + fixedMaintenance) /
+    (quantity * (direction - rate));
+  return price > 0 && Number.isFinite(price) ? price : null;
+};
+
+export const isLiquidatable = (state: AccountState, position: Position, marks: MarkPrices) => {
+  const mark = markFor(marks, position);
+  if (position.marginMode === 'CROSS') return crossEquity(state, marks) <= crossMaintenance(state, marks);
+  return isolatedEquity(position, mark) <= maintenanceMargin(position, mark);
+};
+
+// Total maintenance over total equity; 1 means liquidation
+export const marginRatio = (state: AccountState, marks: MarkPrices, equity: number) => {
+  const maintenance = state.positions.reduce(
+    (acc, pos) => acc + maintenanceMargin(pos, markFor(marks, pos)),
+    0
+  );
+  if (maintenance === 0) return 0;
+  return equity > 0 ? maintenance / equity : Infinity;
+};
@@ -0,0 +1,249 @@
+import { Candle, BASE_INTERVAL_MS, applyTick, bucketStart } from './candles';
+import { OrderSide } from './tradingEngine';
+
+export type SymbolInfo = {
+  name: string;
+  symbol: string;
+  icon: string;
+  basePrice: number;
+  tickSize: number;
+  // Relative size of one simulated tick, as a fraction of price
+  volatility: number;
+  // Fraction of position notional that must stay covered before liquidation
+  maintenanceMarginRate: number;
+  // Mean traded size per simulated tick
+  averageTickVolume: number;
+  // Decimals shown for prices and for quantities
+  pricePrecision: number;
+  quantityPrecision: number;
+};
+
+export type PricePoint = {
+  timestamp: number;
+  price: number;
+};
+
+// One trade print from a price feed
+export type PriceTick = {
+  symbol: string;
+  timestamp: number;
+  price: number;
+  volume: number;
+};
+
+// A print on the time-and-sales tape; the side is the aggressor's, inferred with the tick rule
+export type TapePrint = {
+  timestamp: number;
+  price: number;
+  size: number;
+  side: OrderSide;
+};
+
+// Rolling 24h window over the 1m candles
+export type MarketStats = {
+  open24h: number;
+  high24h: number;
+  low24h: number;
+  volume24h: number;
+};
+
+export type SymbolMarket = {
+  symbol: string;
+  price: number;
+  // Recent ticks, oldest first
+  history: PricePoint[];
+  // 1m candles covering the last 24h
+  candles: Candle[];
+  stats: MarketStats;
+  // Trade prints, newest first
+  tape: TapePrint[];
+  // Feed time of the latest tick
+  updatedAt: number;
+};
+
+export type MarketState = Record<string, SymbolMarket>;
+
+// Latest price per symbol, used to value positions
+export type MarkPrices = Record<string, number>;
+
+export const SYMBOLS: SymbolInfo[] = [
+  { name: 'Bitcoin', symbol: 'BTC', icon: '₿', basePrice: 42350.75, tickSize: 0.01, volatility: 0.0035, maintenanceMarginRate: 0.004, averageTickVolume: 0.5, pricePrecision: 2, quantityPrecision: 4 },
+  { name: 'Ethereum', symbol: 'ETH', icon: 'Ξ', basePrice: 2250.40, tickSize: 0.01, volatility: 0.004, maintenanceMarginRate: 0.005, averageTickVolume: 8, pricePrecision: 2, quantityPrecision: 3 },
+  { name: 'Solana', symbol: 'SOL', icon: '◎', basePrice: 98.35, tickSize: 0.01, volatility: 0.006, maintenanceMarginRate: 0.01, averageTickVolume: 150, pricePrecision: 2, quantityPrecision: 2 },
+  { name: 'Cardano', symbol: 'ADA', icon: '₳', basePrice: 0.5234, tickSize: 0.0001, volatility: 0.005, maintenanceMarginRate: 0.01, averageTickVolume: 40000, pricePrecision: 4, quantityPrecision: 1 },
+  { name: 'Polkadot', symbol: 'DOT', icon: '●', basePrice: 7.215, tickSize: 0.001, volatility: 0.005, maintenanceMarginRate: 0.01, averageTickVolume: 2500, pricePrecision: 3, quantityPrecision: 2 }
+];
+
+const HISTORY_LENGTH = 101;
+const CANDLE_LIMIT = 24 * 60;
+const TAPE_LENGTH = 50;
+const STATS_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const TICK_INTERVAL_MS = 3000;
+
+export const getSymbolInfo = (symbol: string) => {
+  const info = SYMBOLS.find(s => s.symbol === symbol);
+  if (!info) throw new Error(`Unknown symbol: ${symbol}`);
+  return info;
+};
+
+export const roundToTick = (price: number, tickSize: number) => {
+  const decimals = Math.max(0, Math.ceil(-Math.log10(tickSize)));
+  return parseFloat((Math.round(price / tickSize) * tickSize).toFixed(decimals));
+};
+
+// Rounds down, so a quantity sized from a notional or a risk budget never exceeds it; the nudge keeps
+// float noise like 0.29 * 100 = 28.999… from costing a whole step
+export const roundQuantity = (quantity: number, precision: number) => {
+  const factor = 10 ** precision;
+  return parseFloat((Math.floor(quantity * factor + 1e-9) / factor).toFixed(precision));
+};
+
+export const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Candles that ended before the window are left out; without any, the price is its own open
+export const rollingStats = (candles: Candle[], price: number, now: number): MarketStats => {
+  const windowStart = now - STATS_WINDOW_MS;
+  const first = candles.findIndex(c => c.time + BASE_INTERVAL_MS > windowStart);
+  const recent = first === -1 ? [] : candles.slice(first);
+  return recent.reduce<MarketStats>(
+    (acc, candle) => ({
+      ...acc,
+      high24h: Math.max(acc.high24h, candle.high),
+      low24h: Math.min(acc.low24h, candle.low),
+      volume24h: acc.volume24h + candle.volume
+    }),
+    { open24h: recent[0]?.open ?? price, high24h: price, low24h: price, volume24h: 0 }
+  );
+};
+
+export const change24h = (market: SymbolMarket) =>
+  ((market.price - market.stats.open24h) / market.stats.open24h) * 100;
+
+// One random-walk step, never below one tick
+export const randomWalkStep = (info: SymbolInfo, prev: number, random: () => number) => {
+  const fluctuation = (random() - 0.5) * info.volatility * prev;
+  return Math.max(info.tickSize, roundToTick(prev + fluctuation, info.tickSize));
+};
+
+export const tickVolume = (info: SymbolInfo, random: () => number) => random() * 2 * info.averageTickVolume;
+
+// Replays the random walk at tick resolution over `candleCount` minutes ending at `now`
+const createSymbolMarket = (info: SymbolInfo, now: number, candleCount: number, random: () => number): SymbolMarket => {
+  const candles: Candle[] = [];
+  let currentPrice = info.basePrice;
+  const start = bucketStart(now, BASE_INTERVAL_MS) - (candleCount - 1) * BASE_INTERVAL_MS;
+
+  // Built in place; applyTick copies the series on every call
+  for (let t = start; t < now && candleCount > 0; t += TICK_INTERVAL_MS) {
+    currentPrice = randomWalkStep(info, currentPrice, random);
+    const volume = tickVolume(info, random);
+    const time = bucketStart(t, BASE_INTERVAL_MS);
+    const last = candles[candles.length - 1];
+    if (last && last.time === time) {
+      last.high = Math.max(last.high, currentPrice);
+      last.low = Math.min(last.low, currentPrice);
+      last.close = currentPrice;
+      last.volume += volume;
+    } else {
+      candles.push({ time, open: currentPrice, high: currentPrice, low: currentPrice, close: currentPrice, volume });
+    }
+  }
+
+  // Rescale the path so the seeded market ends at the symbol's base price
+  const scale = info.basePrice / currentPrice;
+  currentPrice = info.basePrice;
+  for (const candle of candles) {
+    candle.open = roundToTick(candle.open * scale, info.tickSize);
+    candle.high = roundToTick(candle.high * scale, info.tickSize);
+    candle.low = roundToTick(candle.low * scale, info.tickSize);
+    candle.close = roundToTick(candle.close * scale, info.tickSize);
+  }
+
+  const history = candles
+    .slice(-HISTORY_LENGTH)
+    .map(candle => ({ timestamp: candle.time, price: candle.close }));
+  return {
+    symbol: info.symbol,
+    price: currentPrice,
+    history,
+    candles,
+    stats: rollingStats(candles, currentPrice, now),
+    tape: [],
+    updatedAt: now
+  };
+};
+
+export const createMarketState = (
+  now = Date.now(),
+  candleCount = 0,
+  random: () => number = Math.random
+): MarketState =>
+  SYMBOLS.reduce<MarketState>((acc, info) => {
+    acc[info.symbol] = createSymbolMarket(info, now, candleCount, random);
+    return acc;
+  }, {});
+
+export const seedMarketState = (now = Date.now(), random: () => number = Math.random) =>
+  createMarketState(now, CANDLE_LIMIT, random);
+
+// Market for a symbol whose prices come from elsewhere, e.g. a replay file
+export const createEmptySymbolMarket = (symbol: string, price: number, now: number): SymbolMarket => ({
+  symbol,
+  price,
+  history: [{ timestamp: now, price }],
+  candles: [],
+  stats: rollingStats([], price, now),
+  tape: [],
+  updatedAt: now
+});
+
+// Upticks are buys and downticks sells; an unchanged price repeats the last side
+const tapeSide = (prev: SymbolMarket, price: number): OrderSide => {
+  if (price > prev.price) return 'BUY';
+  if (price < prev.price) return 'SELL';
+  return prev.tape[0]?.side ?? 'BUY';
+};
+
+const applySymbolTick = (prev: SymbolMarket, tick: PriceTick): SymbolMarket => {
+  const print: TapePrint = { timestamp: tick.timestamp, price: tick.price, size: tick.volume, side: tapeSide(prev, tick.price) };
+  const history = [...prev.history, { timestamp: tick.timestamp, price: tick.price }];
+  return {
+    ...prev,
+    price: tick.price,
+    history: history.length > HISTORY_LENGTH ? history.slice(history.length - HISTORY_LENGTH) : history,
+    candles: applyTick(prev.candles, tick.timestamp, tick.price, tick.volume, CANDLE_LIMIT),
+    tape: [print, ...prev.tape].slice(0, TAPE_LENGTH),
+    updatedAt: tick.timestamp
+  };
+};
+
+// Ticks for symbols the market does not track are ignored; stats are refreshed once per batch
+export const applyTicks = (state: MarketState, ticks: PriceTick[]): MarketState => {
+  const ticked = ticks.reduce<MarketState>((acc, tick) => {
+    const prev = acc[tick.symbol];
+    if (!prev) return acc;
+    return { ...acc, [tick.symbol]: applySymbolTick(prev, tick) };
+  }, state);
+
+  return Object.keys(ticked).reduce<MarketState>((acc, symbol) => {
+    const market = ticked[symbol];
+    acc[symbol] = market === state[symbol]
+      ? market
+      : { ...market, stats: rollingStats(market.candles, market.price, market.updatedAt) };
+    return acc;
+  }, {});
+};
+
+// Current feed time, the latest tick across all symbols
+export const marketTime = (state: MarketState) =>
+  Math.max(...Object.values(state).map(m => m.updatedAt));
+
+export const markPrices = (state: MarketState): MarkPrices =>
+  Object.keys(state).reduce<MarkPrices>((acc, symbol) => {
+    acc[symbol] = state[symbol].price;
+    return acc;
+  }, {});
@@ -0,0 +1,624 @@
+import {
+  MarketState,
+  PriceTick,
+  SYMBOLS,
+  applyTicks,
+  marketTime,
+  markPrices
+} from './marketData';
+import { QUOTE_ASSET } from './display';
+import { generateOrderBook } from './orderBook';
+import { PriceFeed, createRandomWalkFeed } from './priceFeed';
+import {
+  AccountState,
+  DEFAULT_BALANCE,
+  LimitOrderRequest,
+  MarketOrder,
+  OrderSide,
+  PendingOrder,
+  PositionMode,
+  Rejection,
+  Trade,
+  accountReducer,
+  createInitialAccount,
+  directionOf,
+  oppositeSide,
+  positionMargin,
+  positionNotional,
+  positionSideFor,
+  reject,
+  reservedMargin,
+  usedMargin,
+  validateAmendOrder,
+  validateLimitOrder,
+  validateOrder,
+  validatePositionMode,
+  withSlippage
+} from './tradingEngine';
+import {
+  API_PATHS,
+  AccountUpdateEvent,
+  ENGINE_ORDER_TYPES,
+  ENGINE_TIME_IN_FORCE,
+  ExchangeError,
+  ExchangeTransport,
+  RestParams,
+  RestRequest,
+  RestResponse,
+  OrderExecution,
+  OrderTradeUpdateEvent,
+  StreamControl,
+  StreamEvent,
+  StreamHandlers,
+  StreamMessage,
+  VENUE_ERRORS,
+  VENUE_ORDER_TYPES,
+  VENUE_TIME_IN_FORCE,
+  VenueAccount,
+  VenueOrder,
+  VenueOrderStatus,
+  VenuePosition,
+  VenuePositionSide,
+  engineSymbol,
+  klineRow,
+  tickerStream,
+  tradeStream,
+  venueErrorFor,
+  venueSymbol
+} from './exchange';
+
+export type MockExchangeOptions = {
+  // Added to every REST response and stream message, plus up to `jitterMs` more
+  latencyMs: number;
+  jitterMs: number;
+  // Chance that an otherwise valid new order is refused
+  rejectRate: number;
+  // Streams are dropped this often; 0 keeps them up
+  disconnectEveryMs: number;
+  // Requests past this in any one second get -1003
+  requestsPerSecond: number;
+};
+
+// The simulator behind the venue protocol, independent of how requests and streams reach it
+export type MockExchange = {
+  options: MockExchangeOptions;
+  handle: (request: RestRequest, now: number) => RestResponse;
+  // Plays `elapsedMs` of the feed through the engine; `disconnect` tells the transport to drop its streams
+  advance: (elapsedMs: number) => { messages: StreamMessage[]; disconnect: boolean };
+};
+
+export const DEFAULT_MOCK_OPTIONS: MockExchangeOptions = {
+  latencyMs: 50,
+  jitterMs: 50,
+  rejectRate: 0,
+  disconnectEveryMs: 0,
+  requestsPerSecond: 20
+};
+
+// How often transports advance the mock and flush its streams
+export const STREAM_INTERVAL_MS = 250;
+
+// Binance's default for a symbol nobody has set leverage on
+const DEFAULT_LEVERAGE = 20;
+const MAX_LEVERAGE = 125;
+const MAX_KLINES = 1500;
+
+// There is only one account, so its user-data stream has a fixed key
+const LISTEN_KEY = 'mock-account';
+
+const badParameter = (key: string) =>
+  new ExchangeError(VENUE_ERRORS.BAD_PARAMETER, `Mandatory parameter '${key}' was not sent, was empty/null, or malformed.`);
+
+const param = (params: RestParams, key: string) => {
+  const value = params[key];
+  if (value === undefined || value === '') throw badParameter(key);
+  return value;
+};
+
+const numberParam = (params: RestParams, key: string) => {
+  const value = parseFloat(param(params, key));
+  if (!Number.isFinite(value)) throw badParameter(key);
+  return value;
+};
+
+const optionalNumber = (params: RestParams, key: string) =>
+  params[key] === undefined ? undefined : numberParam(params, key);
+
+const symbolParam = (params: RestParams) => {
+  const symbol = engineSymbol(param(params, 'symbol'));
+  if (!SYMBOLS.some(info => info.symbol === symbol)) throw new ExchangeError(VENUE_ERRORS.BAD_SYMBOL, 'Invalid symbol.');
+  return symbol;
+};
+
+const sideParam = (params: RestParams): OrderSide => {
+  const side = param(params, 'side');
+  if (side !== 'BUY' && side !== 'SELL') throw badParameter('side');
+  return side;
+};
+
+const refused = (rejection: Rejection) => {
+  const error = venueErrorFor(rejection);
+  return new ExchangeError(error.code, error.msg);
+};
+
+const pendingBody = (order: PendingOrder, status: VenueOrderStatus, time: number): VenueOrder => ({
+  orderId: order.id,
+  symbol: venueSymbol(order.symbol),
+  side: order.side,
+  type: VENUE_ORDER_TYPES[order.type],
+  status,
+  price: order.type === 'STOP_MARKET' ? '0' : String(order.limitPrice),
+  stopPrice: String(order.stopPrice ?? 0),
+  avgPrice: '0',
+  origQty: String(order.quantity),
+  executedQty: '0',
+  timeInForce: VENUE_TIME_IN_FORCE[order.timeInForce],
+  reduceOnly: !!order.reduceOnly,
+  updateTime: time
+});
+
+const filledBody = (
+  orderId: string,
+  order: MarketOrder | LimitOrderRequest,
+  fillPrice: number,
+  time: number
+): VenueOrder => ({
+  orderId,
+  symbol: venueSymbol(order.symbol),
+  side: order.side,
+  type: 'type' in order ? VENUE_ORDER_TYPES[order.type] : 'MARKET',
+  status: 'FILLED',
+  price: 'type' in order ? String(order.limitPrice) : '0',
+  stopPrice: String(('type' in order && order.stopPrice) || 0),
+  avgPrice: String(fillPrice),
+  origQty: String(order.quantity),
+  executedQty: String(order.quantity),
+  timeInForce: 'type' in order ? VENUE_TIME_IN_FORCE[order.timeInForce] : 'GTC',
+  reduceOnly: !!order.reduceOnly,
+  updateTime: time
+});
+
+// Margin in use counts toward the wallet; unrealized PnL does not
+const walletBalance = (account: AccountState) =>
+  account.balance + usedMargin(account.positions) + reservedMargin(account.orders);
+
+const positionSides = (mode: PositionMode): VenuePositionSide[] => (mode === 'HEDGE' ? ['LONG', 'SHORT'] : ['BOTH']);
+
+// The venue nets the engine's positions down to one per symbol and position side
+const venuePositions = (account: AccountState, leverages: Record<string, number>, time: number): VenuePosition[] =>
+  SYMBOLS.flatMap(info =>
+    positionSides(account.positionMode).map(positionSide => {
+      const held = account.positions.filter(
+        p => p.symbol === info.symbol && (positionSide === 'BOTH' || p.side === positionSide)
+      );
+      const quantity = held.reduce((acc, p) => acc + p.quantity, 0);
+      const isolated = held.filter(p => p.marginMode === 'ISOLATED');
+      return {
+        symbol: venueSymbol(info.symbol),
+        positionAmt: String(held.reduce((acc, p) => acc + directionOf(p.side) * p.quantity, 0)),
+        entryPrice: String(quantity > 0 ? held.reduce((acc, p) => acc + positionNotional(p), 0) / quantity : 0),
+        leverage: String(leverages[info.symbol] ?? DEFAULT_LEVERAGE),
+        isolated: isolated.length > 0,
+        isolatedWallet: String(isolated.reduce((acc, p) => acc + positionMargin(p), 0)),
+        positionSide,
+        updateTime: time
+      };
+    })
+  );
+
+const changedPositions = (before: VenuePosition[], after: VenuePosition[]) =>
+  after.filter(p => {
+    const previous = before.find(b => b.symbol === p.symbol && b.positionSide === p.positionSide);
+    return !previous || previous.positionAmt !== p.positionAmt || previous.entryPrice !== p.entryPrice ||
+      previous.isolatedWallet !== p.isolatedWallet;
+  });
+
+const accountEvent = (positions: VenuePosition[], wallet: number, time: number): AccountUpdateEvent => ({
+  e: 'ACCOUNT_UPDATE',
+  E: time,
+  a: {
+    B: [{ a: QUOTE_ASSET, wb: String(wallet) }],
+    P: positions.map(p => ({
+      s: p.symbol,
+      pa: p.positionAmt,
+      ep: p.entryPrice,
+      mt: p.isolated ? 'isolated' : 'cross',
+      iw: p.isolatedWallet,
+      ps: p.positionSide
+    }))
+  }
+});
+
+const fillFields = (trade?: Trade) =>
+  trade
+    ? { t: trade.id, l: String(trade.quantity), L: String(trade.price), n: String(trade.fee), rp: String(trade.realizedPnl) }
+    : { t: '', l: '0', L: '0', n: '0', rp: '0' };
+
+// In hedge mode orders open their own side unless they can only reduce the other
+const orderEvent = (
+  order: PendingOrder,
+  x: OrderExecution,
+  status: VenueOrderStatus,
+  mode: PositionMode,
+  time: number,
+  fill?: Trade
+): OrderTradeUpdateEvent => ({
+  e: 'ORDER_TRADE_UPDATE',
+  E: time,
+  o: {
+    s: venueSymbol(order.symbol),
+    i: order.id,
+    S: order.side,
+    o: VENUE_ORDER_TYPES[order.type],
+    f: VENUE_TIME_IN_FORCE[order.timeInForce],
+    q: String(order.quantity),
+    p: order.type === 'STOP_MARKET' ? '0' : String(order.limitPrice),
+    sp: String(order.stopPrice ?? 0),
+    R: !!order.reduceOnly,
+    x,
+    X: status,
+    ...fillFields(fill),
+    ps: mode === 'HEDGE'
+      ? (order.reduceOnly ? oppositeSide(positionSideFor(order.side)) : positionSideFor(order.side))
+      : 'BOTH',
+    T: time
+  }
+});
+
+const fillSide = (trade: Trade): OrderSide => ((trade.side === 'LONG') !== (trade.closeReason !== '') ? 'BUY' : 'SELL');
+
+// Fills with no resting order behind them: market orders, stops and take-profits on positions, liquidations
+const fillEvent = (trade: Trade, mode: PositionMode, time: number): OrderTradeUpdateEvent => {
+  const closing = trade.closeReason !== '';
+  return {
+    e: 'ORDER_TRADE_UPDATE',
+    E: time,
+    o: {
+      s: venueSymbol(trade.symbol),
+      i: trade.id,
+      S: fillSide(trade),
+      o: trade.closeReason === 'Liquidation' ? 'LIQUIDATION' : 'MARKET',
+      f: 'GTC',
+      q: String(trade.quantity),
+      p: '0',
+      sp: '0',
+      R: closing,
+      x: 'TRADE',
+      X: 'FILLED',
+      ...fillFields(trade),
+      ps: mode === 'HEDGE' ? trade.side : 'BOTH',
+      T: trade.timestamp
+    }
+  };
+};
+
+const amended = (before: PendingOrder, after: PendingOrder) =>
+  before.quantity !== after.quantity || before.limitPrice !== after.limitPrice || before.stopPrice !== after.stopPrice;
+
+// Orders that left the book take the oldest new fill on their symbol and side, if any, as the fill that closed them
+const orderEvents = (before: AccountState, after: AccountState, time: number): OrderTradeUpdateEvent[] => {
+  const fills = after.trades.slice(0, after.trades.length - before.trades.length).reverse();
+  const mode = after.positionMode;
+  const events: OrderTradeUpdateEvent[] = [];
+  before.orders.forEach(order => {
+    const current = after.orders.find(o => o.id === order.id);
+    if (current) {
+      if (amended(order, current)) events.push(orderEvent(current, 'AMENDMENT', 'NEW', mode, time));
+      return;
+    }
+    const fill = fills.find(t => t.symbol === order.symbol && fillSide(t) === order.side);
+    if (!fill) {
+      events.push(orderEvent(order, 'CANCELED', 'CANCELED', mode, time));
+      return;
+    }
+    fills.splice(fills.indexOf(fill), 1);
+    events.push(orderEvent(order, 'TRADE', 'FILLED', mode, fill.timestamp, fill));
+  });
+  after.orders
+    .filter(o => !before.orders.some(b => b.id === o.id))
+    .forEach(order => events.push(orderEvent(order, 'NEW', 'NEW', mode, order.timestamp)));
+  return [...events, ...fills.map(trade => fillEvent(trade, mode, time))];
+};
+
+export const createMockExchange = (
+  options: Partial<MockExchangeOptions> = {},
+  feed: PriceFeed = createRandomWalkFeed(),
+  account: AccountState = createInitialAccount(DEFAULT_BALANCE, false),
+  random: () => number = Math.random
+): MockExchange => {
+  const settings: MockExchangeOptions = { ...DEFAULT_MOCK_OPTIONS, ...options };
+  let market: MarketState = feed.initialMarket(Date.now());
+  let state = account;
+  // The account as of the last user-data events
+  let published = state;
+  const leverages: Record<string, number> = {};
+  let marketOrders = 0;
+  let requestTimes: number[] = [];
+  let sinceDisconnect = 0;
+
+  const clock = () => marketTime(market);
+
+  const placeOrder = (params: RestParams): VenueOrder => {
+    const symbol = symbolParam(params);
+    const side = sideParam(params);
+    const type = ENGINE_ORDER_TYPES[param(params, 'type')];
+    if (!type) throw badParameter('type');
+    const quantity = numberParam(params, 'quantity');
+    if (random() < settings.rejectRate) {
+      throw new ExchangeError(VENUE_ERRORS.NEW_ORDER_REJECTED, 'Order rejected by the exchange (simulated)');
+    }
+
+    const timestamp = clock();
+    const marks = markPrices(market);
+    const common = {
+      symbol,
+      side,
+      quantity,
+      leverage: leverages[symbol] ?? DEFAULT_LEVERAGE,
+      stopLoss: optionalNumber(params, 'stopLoss'),
+      takeProfit: optionalNumber(params, 'takeProfit'),
+      trailingDistance: optionalNumber(params, 'trailingStop'),
+      reduceOnly: params.reduceOnly === 'true',
+      timestamp
+    };
+
+    if (type === 'MARKET') {
+      const order: MarketOrder = { ...common, price: marks[symbol] };
+      const book = generateOrderBook(market[symbol]);
+      const filled = withSlippage(state, order, book);
+      const error = validateOrder(state, filled);
+      if (error) throw refused(error);
+      state = accountReducer(state, { type: 'EXECUTE_ORDER', order, book, reason: side === 'BUY' ? 'Market Buy' : 'Market Sell' });
+      return filledBody(`mkt-${++marketOrders}`, order, filled.price, timestamp);
+    }
+
+    const stopPrice = type === 'LIMIT' ? undefined : numberParam(params, 'stopPrice');
+    const timeInForce = ENGINE_TIME_IN_FORCE[params.timeInForce ?? 'GTC'];
+    if (!timeInForce) throw badParameter('timeInForce');
+    const order: LimitOrderRequest = {
+      ...common,
+      type,
+      limitPrice: numberParam(params, type === 'STOP_MARKET' ? 'stopPrice' : 'price'),
+      stopPrice,
+      timeInForce
+    };
+    const error = validateLimitOrder(state, order, marks);
+    if (error) throw refused(error);
+    const before = state;
+    state = accountReducer(state, { type: 'PLACE_LIMIT_ORDER', order, marks });
+    const rested = state.orders.find(o => !before.orders.some(b => b.id === o.id));
+    // Marketable limits fill on arrival at the mark
+    return rested ? pendingBody(rested, 'NEW', timestamp) : filledBody(`lmt-${state.sequence}`, order, marks[symbol], timestamp);
+  };
+
+  const amendOrder = (params: RestParams): VenueOrder => {
+    symbolParam(params);
+    const orderId = param(params, 'orderId');
+    const limitPrice = numberParam(params, 'price');
+    const quantity = numberParam(params, 'quantity');
+    const marks = markPrices(market);
+    const order = state.orders.find(o => o.id === orderId);
+    const error = validateAmendOrder(state, orderId, limitPrice, quantity, marks);
+    if (error || !order) throw refused(error ?? reject('ORDER_NOT_FOUND', 'Order not found'));
+
+    state = accountReducer(state, { type: 'AMEND_ORDER', orderId, limitPrice, quantity, marks, timestamp: clock() });
+    const amended = state.orders.find(o => o.id === orderId);
+    // A marketable amendment fills at the mark and leaves the book
+    return amended
+      ? pendingBody(amended, 'NEW', clock())
+      : filledBody(orderId, { ...order, limitPrice, quantity }, marks[order.symbol], clock());
+  };
+
+  const cancelOrder = (params: RestParams): VenueOrder => {
+    symbolParam(params);
+    const orderId = param(params, 'orderId');
+    const order = state.orders.find(o => o.id === orderId);
+    if (!order) throw new ExchangeError(VENUE_ERRORS.CANCEL_REJECTED, 'Unknown order sent.');
+    state = accountReducer(state, { type: 'CANCEL_ORDER', orderId, timestamp: clock() });
+    return pendingBody(order, 'CANCELED', clock());
+  };
+
+  const setLeverage = (params: RestParams) => {
+    const symbol = symbolParam(params);
+    const leverage = numberParam(params, 'leverage');
+    if (!Number.isInteger(leverage) || leverage < 1 || leverage > MAX_LEVERAGE) throw badParameter('leverage');
+    leverages[symbol] = leverage;
+    return { symbol: venueSymbol(symbol), leverage };
+  };
+
+  const setPositionMode = (params: RestParams) => {
+    const mode = param(params, 'dualSidePosition') === 'true' ? 'HEDGE' : 'ONE_WAY';
+    const error = validatePositionMode(state, mode);
+    if (error) throw refused(error);
+    state = accountReducer(state, { type: 'SET_POSITION_MODE', mode });
+    return { code: 200, msg: 'success' };
+  };
+
+  const klines = (params: RestParams) => {
+    const symbol = symbolParam(params);
+    if (param(params, 'interval') !== '1m') throw badParameter('interval');
+    const limit = Math.min(MAX_KLINES, Math.max(1, Math.floor(optionalNumber(params, 'limit') ?? 500)));
+    return market[symbol].candles.slice(-limit).map(klineRow);
+  };
+
+  const accountBody = (): VenueAccount => ({
+    totalWalletBalance: String(walletBalance(state)),
+    availableBalance: String(state.balance),
+    assets: [{ asset: QUOTE_ASSET, walletBalance: String(walletBalance(state)), availableBalance: String(state.balance) }],
+    positions: venuePositions(state, leverages, clock())
+  });
+
+  // Only what changed since the last flush, as a venue's user-data stream sends it
+  const userEvents = (before: AccountState, after: AccountState, time: number): StreamEvent[] => {
+    const events: StreamEvent[] = orderEvents(before, after, time);
+    const positions = changedPositions(venuePositions(before, leverages, time), venuePositions(after, leverages, time));
+    const wallet = walletBalance(after);
+    if (positions.length > 0 || wallet !== walletBalance(before)) events.push(accountEvent(positions, wallet, time));
+    return events;
+  };
+
+  const routes: Record<string, (params: RestParams, now: number) => unknown> = {
+    [`GET ${API_PATHS.ping}`]: () => ({}),
+    [`GET ${API_PATHS.time}`]: (_, now) => ({ serverTime: now }),
+    [`GET ${API_PATHS.klines}`]: klines,
+    [`POST ${API_PATHS.order}`]: placeOrder,
+    [`PUT ${API_PATHS.order}`]: amendOrder,
+    [`DELETE ${API_PATHS.order}`]: cancelOrder,
+    [`GET ${API_PATHS.openOrders}`]: (params) => {
+      const symbol = params.symbol === undefined ? undefined : symbolParam(params);
+      return state.orders.filter(o => !symbol || o.symbol === symbol).map(o => pendingBody(o, 'NEW', o.timestamp));
+    },
+    [`POST ${API_PATHS.leverage}`]: setLeverage,
+    [`GET ${API_PATHS.positionMode}`]: () => ({ dualSidePosition: state.positionMode === 'HEDGE' }),
+    [`POST ${API_PATHS.positionMode}`]: setPositionMode,
+    [`POST ${API_PATHS.listenKey}`]: () => ({ listenKey: LISTEN_KEY }),
+    [`GET ${API_PATHS.account}`]: accountBody
+  };
+
+  const handle = (request: RestRequest, now: number): RestResponse => {
+    requestTimes = [...requestTimes.filter(t => now - t < 1000), now];
+    if (requestTimes.length > settings.requestsPerSecond) {
+      return { status: 429, body: { code: VENUE_ERRORS.TOO_MANY_REQUESTS, msg: 'Too many requests; please slow down.' } };
+    }
+    const route = routes[`${request.method} ${request.path}`];
+    if (!route) return { status: 404, body: { code: VENUE_ERRORS.UNKNOWN, msg: `Unknown endpoint ${request.method} ${request.path}` } };
+    try {
+      return { status: 200, body: route(request.params, now) };
+    } catch (error) {
+      if (error instanceof ExchangeError) return { status: 400, body: { code: error.code, msg: error.message } };
+      return { status: 500, body: { code: VENUE_ERRORS.UNKNOWN, msg: error instanceof Error ? error.message : String(error) } };
+    }
+  };
+
+  const tradeMessages = (ticks: PriceTick[], before: MarketState): StreamMessage[] => {
+    const last: Record<string, number> = {};
+    return ticks.map(tick => {
+      const previous = last[tick.symbol] ?? before[tick.symbol]?.price ?? tick.price;
+      last[tick.symbol] = tick.price;
+      return {
+        stream: tradeStream(tick.symbol),
+        data: {
+          e: 'trade',
+          E: tick.timestamp,
+          s: venueSymbol(tick.symbol),
+          p: String(tick.price),
+          q: String(tick.volume),
+          T: tick.timestamp,
+          m: tick.price < previous
+        }
+      };
+    });
+  };
+
+  const advance = (elapsedMs: number) => {
+    const ticks = feed.advance(elapsedMs);
+    const messages: StreamMessage[] = [];
+    if (ticks.length > 0) {
+      const before = market;
+      market = applyTicks(market, ticks);
+      state = accountReducer(state, { type: 'MARKET_TICK', marks: markPrices(market), timestamp: clock() });
+      messages.push(...tradeMessages(ticks, before));
+      [...new Set(ticks.map(t => t.symbol))].forEach(symbol => {
+        const { stats, price } = market[symbol];
+        messages.push({
+          stream: tickerStream(symbol),
+          data: {
+            e: '24hrTicker',
+            E: clock(),
+            s: venueSymbol(symbol),
+            o: String(stats.open24h),
+            h: String(stats.high24h),
+            l: String(stats.low24h),
+            c: String(price),
+            v: String(stats.volume24h)
+          }
+        });
+      });
+    }
+    // Fills from REST calls go out with the next flush, as on a venue's user-data stream
+    if (state !== published) {
+      messages.push(...userEvents(published, state, clock()).map(data => ({ stream: LISTEN_KEY, data })));
+      published = state;
+    }
+
+    sinceDisconnect += elapsedMs;
+    const disconnect = settings.disconnectEveryMs > 0 && sinceDisconnect >= settings.disconnectEveryMs;
+    if (disconnect) sinceDisconnect = 0;
+    return { messages, disconnect };
+  };
+
+  return { options: settings, handle, advance };
+};
+
+// Applies a SUBSCRIBE or UNSUBSCRIBE to a connection's streams and returns the reply to send
+export const applyStreamControl = (streams: Set<string>, data: string): string => {
+  let control: StreamControl;
+  try {
+    control = JSON.parse(data);
+  } catch (error) {
+    return JSON.stringify({ error: { code: 3, msg: 'Invalid JSON' }, id: null });
+  }
+  if ((control.method !== 'SUBSCRIBE' && control.method !== 'UNSUBSCRIBE') || !Array.isArray(control.params)) {
+    return JSON.stringify({ error: { code: 2, msg: 'Invalid request' }, id: control.id ?? null });
+  }
+  control.params.forEach(stream => (control.method === 'SUBSCRIBE' ? streams.add(stream) : streams.delete(stream)));
+  return JSON.stringify({ result: null, id: control.id });
+};
+
+// Runs the mock inside the page, adding the same latency and disconnects the server would
+export const createLocalTransport = (exchange: MockExchange, name = 'Mock exchange (in page)'): ExchangeTransport => {
+  const connections = new Map<StreamHandlers, Set<string>>();
+  let pump: ReturnType<typeof setInterval> | null = null;
+  let lastPump = Date.now();
+
+  const later = (deliver: () => void) =>
+    setTimeout(deliver, exchange.options.latencyMs + Math.random() * exchange.options.jitterMs);
+
+  const drop = (handlers: StreamHandlers) => {
+    connections.delete(handlers);
+    if (connections.size === 0 && pump) {
+      clearInterval(pump);
+      pump = null;
+    }
+  };
+
+  // The mock only advances while someone is listening; a reconnect catches up on the time missed
+  const flush = () => {
+    const now = Date.now();
+    const { messages, disconnect } = exchange.advance(now - lastPump);
+    lastPump = now;
+    connections.forEach((streams, handlers) => {
+      const wanted = messages.filter(m => streams.has(m.stream)).map(m => JSON.stringify(m));
+      if (wanted.length > 0) later(() => connections.has(handlers) && wanted.forEach(handlers.onMessage));
+    });
+    if (disconnect) {
+      [...connections.keys()].forEach(handlers => {
+        drop(handlers);
+        handlers.onClose();
+      });
+    }
+  };
+
+  return {
+    name,
+    request: (request) =>
+      new Promise(resolve => later(() => resolve(exchange.handle(request, Date.now())))),
+    openStream: (handlers) => {
+      connections.set(handlers, new Set());
+      if (!pump) pump = setInterval(flush, STREAM_INTERVAL_MS);
+      later(() => connections.has(handlers) && handlers.onOpen());
+      return {
+        send: (data) =>
+          later(() => {
+            const streams = connections.get(handlers);
+            if (streams) handlers.onMessage(applyStreamControl(streams, data));
+          }),
+        close: () => {
+          if (!connections.has(handlers)) return;
+          drop(handlers);
+          handlers.onClose();
+        }
+      };
+    }
+  };
+};
@@ -0,0 +1,197 @@
+// Serves the mock exchange over HTTP and WebSocket so the dashboard can reach it like a real venue:
+//
+//   PORT=8090 LATENCY_MS=50 REJECT_RATE=0.1 DISCONNECT_EVERY_MS=60000 SEED=42 npx tsx mockExchangeServer.ts
+//
+// REST is on http://localhost:PORT/fapi/..., the combined stream on ws://localhost:PORT/ws.
+// Only the parts of RFC 6455 a browser client needs are spoken: unfragmented text, ping and close frames.
+import { IncomingMessage, ServerResponse, createServer } from 'http';
+import { Duplex } from 'stream';
+import { createHash } from 'crypto';
+import { createRandomWalkFeed, createSeededFeed } from './priceFeed';
+import { RestMethod, RestParams } from './exchange';
+import { STREAM_INTERVAL_MS, applyStreamControl, createMockExchange } from './mockExchange';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const STREAM_PATH = '/ws';
+const METHODS: RestMethod[] = ['GET', 'POST', 'PUT', 'DELETE'];
+
+const OPCODES = {
+  TEXT: 0x1,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa
+};
+
+const envNumber = (key: string, fallback: number) => {
+  const value = parseFloat(process.env[key] ?? '');
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const port = envNumber('PORT', 8090);
+const seed = process.env.SEED;
+const exchange = createMockExchange(
+  {
+    latencyMs: envNumber('LATENCY_MS', 50),
+    jitterMs: envNumber('JITTER_MS', 50),
+    rejectRate: envNumber('REJECT_RATE', 0),
+    disconnectEveryMs: envNumber('DISCONNECT_EVERY_MS', 0),
+    requestsPerSecond: envNumber('REQUESTS_PER_SECOND', 20)
+  },
+  seed ? createSeededFeed(parseInt(seed)) : createRandomWalkFeed()
+);
+
+const later = (deliver: () => void) =>
+  setTimeout(deliver, exchange.options.latencyMs + Math.random() * exchange.options.jitterMs);
+
+// Frames
+
+const encodeFrame = (opcode: number, payload: Buffer) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+type Frame = {
+  opcode: number;
+  payload: Buffer;
+  // Bytes the frame took up in the buffer
+  size: number;
+};
+
+// Client frames are always masked; null means the buffer holds only part of a frame
+const decodeFrame = (buffer: Buffer): Frame | null => {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const masked = (buffer[1] & 0x80) !== 0;
+  const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (mask) payload.forEach((byte, i) => (payload[i] = byte ^ mask[i % 4]));
+  return { opcode, payload, size: offset + length };
+};
+
+// Streams
+
+const connections = new Map<Duplex, Set<string>>();
+
+const sendText = (socket: Duplex, text: string) => {
+  if (!socket.destroyed) socket.write(encodeFrame(OPCODES.TEXT, Buffer.from(text)));
+};
+
+const acceptStream = (request: IncomingMessage, socket: Duplex) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.url !== STREAM_PATH || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const streams = new Set<string>();
+  connections.set(socket, streams);
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk: Buffer) => {
+    pending = Buffer.concat([pending, chunk]);
+    for (let frame = decodeFrame(pending); frame; frame = decodeFrame(pending)) {
+      pending = pending.subarray(frame.size);
+      const { opcode, payload } = frame;
+      if (opcode === OPCODES.TEXT) {
+        const reply = applyStreamControl(streams, payload.toString());
+        later(() => sendText(socket, reply));
+      } else if (opcode === OPCODES.PING) {
+        socket.write(encodeFrame(OPCODES.PONG, payload));
+      } else if (opcode === OPCODES.CLOSE) {
+        socket.end(encodeFrame(OPCODES.CLOSE, Buffer.alloc(0)));
+      }
+    }
+  });
+  socket.on('close', () => connections.delete(socket));
+  socket.on('error', () => connections.delete(socket));
+};
+
+// REST
+
+// Parameters may come in the query string or a form body, as Binance accepts both
+const readParams = (request: IncomingMessage, url: URL) =>
+  new Promise<RestParams>((resolve) => {
+    let body = '';
+    request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    request.on('end', () => {
+      const params: RestParams = {};
+      url.searchParams.forEach((value, key) => (params[key] = value));
+      new URLSearchParams(body).forEach((value, key) => (params[key] = value));
+      resolve(params);
+    });
+  });
+
+const respond = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': METHODS.join(', ')
+  });
+  response.end(JSON.stringify(body));
+};
+
+const server = createServer(async (request, response) => {
+  if (request.method === 'OPTIONS') {
+    respond(response, 204, {});
+    return;
+  }
+  const method = METHODS.find(m => m === request.method);
+  const url = new URL(request.url ?? '/', `http://localhost:${port}`);
+  const params = await readParams(request, url);
+  if (!method) {
+    respond(response, 405, { code: -1000, msg: `Unsupported method ${request.method}` });
+    return;
+  }
+  const result = exchange.handle({ method, path: url.pathname, params }, Date.now());
+  later(() => respond(response, result.status, result.body));
+});
+
+server.on('upgrade', acceptStream);
+
+let lastPump = Date.now();
+setInterval(() => {
+  const now = Date.now();
+  const { messages, disconnect } = exchange.advance(now - lastPump);
+  lastPump = now;
+  connections.forEach((streams, socket) => {
+    const wanted = messages.filter(m => streams.has(m.stream));
+    if (wanted.length > 0) later(() => wanted.forEach(m => sendText(socket, JSON.stringify(m))));
+  });
+  // Dropped without a close frame, the way a network failure looks to the client
+  if (disconnect) [...connections.keys()].forEach(socket => socket.destroy());
+}, STREAM_INTERVAL_MS);
+
+server.listen(port, () => {
+  console.log(`Mock exchange on http://localhost:${port} (stream ws://localhost:${port}${STREAM_PATH})`);
+});
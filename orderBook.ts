@@ -0,0 +1,92 @@
+import { SymbolMarket, getSymbolInfo, roundToTick } from './marketData';
+import { seededRandom } from './priceFeed';
+import { OrderSide } from './tradingEngine';
+
+export type BookLevel = {
+  price: number;
+  size: number;
+};
+
+// Bids best (highest) first, asks best (lowest) first
+export type OrderBook = {
+  symbol: string;
+  bids: BookLevel[];
+  asks: BookLevel[];
+  timestamp: number;
+};
+
+export type BookFill = {
+  // Volume-weighted across the levels taken
+  price: number;
+  quantity: number;
+  levels: number;
+};
+
+export type DepthPoint = {
+  price: number;
+  bidDepth?: number;
+  askDepth?: number;
+};
+
+export const BOOK_DEPTH = 20;
+
+// Levels sit about 1bp apart, never closer than one tick
+const LEVEL_STEP = 0.0001;
+// Each level further from the mid holds this much more than the one before
+const DEPTH_GROWTH = 0.15;
+
+const symbolSeed = (symbol: string) =>
+  symbol.split('').reduce((acc, char) => Math.imul(acc, 31) + char.charCodeAt(0), 7);
+
+// Rebuilt from the price and feed time, so the same tick always shows the same book
+export const generateOrderBook = (market: SymbolMarket): OrderBook => {
+  const info = getSymbolInfo(market.symbol);
+  const random = seededRandom(market.updatedAt ^ symbolSeed(market.symbol));
+  const step = Math.max(info.tickSize, roundToTick(market.price * LEVEL_STEP, info.tickSize));
+  const bestBid = Math.max(info.tickSize, roundToTick(market.price - step / 2, info.tickSize));
+  const levelSize = (i: number) => info.averageTickVolume * (0.5 + random()) * (1 + i * DEPTH_GROWTH);
+
+  const bids: BookLevel[] = [];
+  const asks: BookLevel[] = [];
+  for (let i = 0; i < BOOK_DEPTH; i++) {
+    const bidPrice = roundToTick(bestBid - i * step, info.tickSize);
+    if (bidPrice > 0) bids.push({ price: bidPrice, size: levelSize(i) });
+    asks.push({ price: roundToTick(bestBid + (i + 1) * step, info.tickSize), size: levelSize(i) });
+  }
+  return { symbol: market.symbol, bids, asks, timestamp: market.updatedAt };
+};
+
+export const spread = (book: OrderBook) =>
+  book.asks.length > 0 && book.bids.length > 0 ? book.asks[0].price - book.bids[0].price : 0;
+
+// Buys take the asks and sells the bids; quantity past the visible depth fills at the last level
+export const walkBook = (book: OrderBook, side: OrderSide, quantity: number): BookFill => {
+  const levels = side === 'BUY' ? book.asks : book.bids;
+  let remaining = quantity;
+  let cost = 0;
+  let taken = 0;
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const size = Math.min(level.size, remaining);
+    cost += size * level.price;
+    remaining -= size;
+    taken++;
+  }
+  const last = levels[levels.length - 1];
+  if (remaining > 0 && last) cost += remaining * last.price;
+  return { price: quantity > 0 ? cost / quantity : levels[0]?.price ?? 0, quantity, levels: taken };
+};
+
+// Cumulative size outwards from the mid on each side, for the depth chart
+export const depthSeries = (book: OrderBook): DepthPoint[] => {
+  const cumulative = (levels: BookLevel[]) => {
+    let total = 0;
+    return levels.map(level => {
+      total += level.size;
+      return { price: level.price, depth: total };
+    });
+  };
+  const bids = cumulative(book.bids).reverse().map(p => ({ price: p.price, bidDepth: p.depth }));
+  const asks = cumulative(book.asks).map(p => ({ price: p.price, askDepth: p.depth }));
+  return [...bids, ...asks];
+};
@@ -1,333 +1,1239 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useReducer, useRef, ChangeEvent } from 'react';
 import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer
-} from "recharts";
-
-type Position = {
-  id: string;
-  symbol: string;
-  side: 'LONG' | 'SHORT';
-  quantity: number;
-  entryPrice: number;
-  leverage: number;
-  stopLoss?: number;
-  takeProfit?: number;
-  timestamp: number;
+  accountReducer,
+  createInitialAccount,
+  DEFAULT_BALANCE,
+  AccountState,
+  EngineAction,
+  positionPnl,
+  unrealizedPnl as totalUnrealizedPnl,
+  accountEquity,
+  validateOrder,
+  validatePositionMode,
+  withSlippage,
+  toMarketOrder,
+  markFor,
+  validateLimitOrder,
+  validateOrderGroup,
+  validateAmendOrder,
+  isArmed,
+  validateProtection,
+  validateReverse,
+  validateTransfer,
+  validatePositionLeverage,
+  reverseOrder,
+  leverageWithMargin,
+  positionMargin,
+  positionNotional,
+  MarketOrder,
+  OrderField,
+  Rejection,
+  Trade,
+  ticketRejections,
+  reject,
+  PositionMode,
+  OrderSide,
+  TimeInForce,
+  LimitOrderRequest,
+  OrderGroupRequest,
+  PendingOrder,
+  PendingOrderType,
+  Position,
+  Protection
+} from './tradingEngine';
+import {
+  SYMBOLS,
+  SymbolInfo,
+  MarketState,
+  createMarketState,
+  applyTicks,
+  marketTime,
+  markPrices,
+  getSymbolInfo,
+  roundQuantity,
+  change24h as symbolChange24h
+} from './marketData';
+import {
+  MarginMode,
+  MARGIN_CALL_RATIO,
+  liquidationPrice,
+  marginRatio as accountMarginRatio
+} from './margin';
+import {
+  PortfolioStore,
+  activePortfolio,
+  addPortfolio,
+  createPortfolio,
+  createStore,
+  downloadFile,
+  exportPortfolio,
+  importPortfolio,
+  loadStore,
+  saveStore,
+  updateActiveAccount
+} from './storage';
+import { CostConfig } from './costs';
+import CandlestickChart, { ChartLevel, ChartMarker } from './CandlestickChart';
+import {
+  ALERT_WINDOWS,
+  AlertCondition,
+  AlertIndicator,
+  describeAlert,
+  evaluateAlerts,
+  validateAlert
+} from './alerts';
+import AnalyticsView from './AnalyticsView';
+import LedgerView from './LedgerView';
+import HotkeysPanel from './HotkeysPanel';
+import {
+  DisplaySettings,
+  DEFAULT_DISPLAY_SETTINGS,
+  LOCALES,
+  QUOTE_ASSET,
+  formatClock as displayClock,
+  formatCompact,
+  formatDateTime as displayDateTime,
+  formatMoney,
+  formatPrice as displayPrice,
+  formatQuantity as displayQuantity,
+  loadDisplaySettings,
+  saveDisplaySettings,
+  validateRate
+} from './display';
+import { collateralValue, validateCollateralDeposit, validateCollateralWithdrawal } from './collateral';
+import {
+  HotkeySettings,
+  TradingCommand,
+  DEFAULT_HOTKEY_SETTINGS,
+  clampLeverage,
+  describeCommand,
+  findHotkey,
+  loadHotkeySettings,
+  parseCommand,
+  saveHotkeySettings
+} from './hotkeys';
+import Watchlist from './Watchlist';
+import OrderBookPanel from './OrderBookPanel';
+import { OrderBook, generateOrderBook } from './orderBook';
+import BotsPanel from './BotsPanel';
+import { Bot, botOrders, botPnl, createBot, logToBot, runHeadless, setBotRunning, stepBot } from './bots';
+import { StrategyId } from './strategies';
+import NotificationCenter, { NotificationLevel, useNotifications } from './NotificationCenter';
+import {
+  SizingMode,
+  RiskUnit,
+  impliedSide,
+  previewOrder,
+  riskBudget,
+  sizeForRisk
+} from './sizing';
+import { RiskLimits, checkRiskLimits, tradingLock, dailyLoss, drawdownPercent } from './riskLimits';
+import { accountCsv, collateralCsv, createJournal, importJournal, journalJson, positionsCsv, tradesCsv } from './journal';
+import {
+  PriceFeed,
+  FEED_SPEEDS,
+  createRandomWalkFeed,
+  createSeededFeed,
+  createReplayFeed,
+  parseOhlcvFile
+} from './priceFeed';
+import {
+  ConnectionStatus,
+  ExchangeClient,
+  createExchangeClient,
+  createHttpTransport,
+  createStreamFeed,
+  loadVenueMarket,
+  venueRejection
+} from './exchange';
+import { createLocalTransport, createMockExchange } from './mockExchange';
+
+// How often the feed is pumped; speed scales the feed time covered per pump
+const FEED_INTERVAL_MS = 1000;
+
+type TicketOrderType = 'MARKET' | PendingOrderType | 'OCO' | 'BRACKET';
+
+const ORDER_TYPES: [TicketOrderType, string][] = [
+  ['MARKET', 'Market'],
+  ['LIMIT', 'Limit'],
+  ['STOP_MARKET', 'Stop'],
+  ['STOP_LIMIT', 'Stop Limit'],
+  ['OCO', 'OCO'],
+  ['BRACKET', 'Bracket']
+];
+
+// Stop-limits turn into plain limits when triggered but keep their stop price
+const pendingOrderLabel = (order: PendingOrder) => {
+  const type = order.type === 'LIMIT' && order.stopPrice !== undefined
+    ? 'Stop Limit (triggered)'
+    : ORDER_TYPES.find(([t]) => t === order.type)?.[1];
+  if (order.groupRole === 'OCO') return `${type} · OCO`;
+  if (order.groupRole === 'ENTRY') return `${type} · Bracket entry`;
+  if (order.groupRole === 'EXIT') return `${type} · Bracket exit`;
+  return type;
 };
 
-type Trade = {
-  id: string;
-  symbol: string;
-  side: 'LONG' | 'SHORT';
-  quantity: number;
-  price: number;
-  realizedPnl: number;
-  timestamp: number;
-  closeReason: string;
+// Share of a position each close button takes
+const CLOSE_FRACTIONS = [0.25, 0.5, 0.75, 1];
+
+// Merged positions carry whatever leverage their combined margin works out to
+const formatLeverage = (leverage: number) => `${parseFloat(leverage.toFixed(2))}x`;
+
+// The mock runs in the page, or anything speaking the same protocol is reached over the network
+type VenueForm = {
+  target: 'LOCAL' | 'REMOTE';
+  restUrl: string;
+  streamUrl: string;
+  latencyMs: number;
+  rejectPercent: number;
+  disconnectSeconds: number;
+};
+
+const VENUE_STATUS_LABELS: Record<ConnectionStatus, string> = {
+  CONNECTING: 'Connecting',
+  OPEN: 'Connected',
+  RECONNECTING: 'Reconnecting',
+  CLOSED: 'Closed'
 };
 
-type PricePoint = {
-  time: string;
+const VENUE_PING_INTERVAL_MS = 5000;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+type AlertForm = {
+  type: AlertCondition['type'];
   price: number;
+  percent: number;
+  window: string;
+  indicator: AlertIndicator;
+  period: number;
+  operator: 'ABOVE' | 'BELOW';
+  value: number;
 };
 
-const SYMBOLS = [
-  { name: 'Bitcoin', symbol: 'BTC', icon: '₿' },
-  { name: 'Ethereum', symbol: 'ETH', icon: 'Ξ' },
-  { name: 'Solana', symbol: 'SOL', icon: '◎' },
-  { name: 'Cardano', symbol: 'ADA', icon: '₳' },
-  { name: 'Polkadot', symbol: 'DOT', icon: '●' }
-];
+const alertCondition = (form: AlertForm): AlertCondition => {
+  switch (form.type) {
+    case 'CROSS_ABOVE':
+    case 'CROSS_BELOW':
+      return { type: form.type, price: form.price };
+    case 'PERCENT_MOVE':
+      return { type: form.type, percent: form.percent, windowMs: ALERT_WINDOWS[form.window] };
+    case 'INDICATOR':
+      return { type: form.type, indicator: form.indicator, period: form.period, operator: form.operator, value: form.value };
+  }
+};
 
-const DEFAULT_BALANCE = 10000;
+const tradeLevel = (trade: Trade): NotificationLevel => {
+  if (trade.closeReason === 'Liquidation') return 'error';
+  if (trade.closeReason === 'Stop Loss') return 'warning';
+  return 'success';
+};
 
 export default function CryptoTradingDashboard() {
   // Account state
-  const [balance, setBalance] = useState<number>(DEFAULT_BALANCE);
-  const [equity, setEquity] = useState<number>(DEFAULT_BALANCE);
-  const [unrealizedPnl, setUnrealizedPnl] = useState<number>(0);
-  const [realizedPnl, setRealizedPnl] = useState<number>(0);
+  const [account, dispatch] = useReducer(accountReducer, undefined, () => createInitialAccount());
   const [leverage, setLeverage] = useState<number>(10);
 
+  // Saved portfolios, loaded after mount since storage is browser-only
+  const [store, setStore] = useState<PortfolioStore | null>(null);
+  const [newPortfolioName, setNewPortfolioName] = useState<string>('');
+  const [newPortfolioBalance, setNewPortfolioBalance] = useState<number>(DEFAULT_BALANCE);
+  const [view, setView] = useState<'TRADING' | 'ANALYTICS' | 'LEDGER'>('TRADING');
+  const { notifications, toasts, notify, dismiss, clear } = useNotifications();
+
   // Market state
   const [selectedSymbol, setSelectedSymbol] = useState(SYMBOLS[0]);
-  const [price, setPrice] = useState<number>(42350.75);
-  const [priceHistory, setPriceHistory] = useState<PricePoint[]>([]);
-  const [change24h, setChange24h] = useState<number>(2.35);
+  const [market, setMarket] = useState<MarketState>(() => createMarketState());
+
+  // Price feed
+  const feedRef = useRef<PriceFeed>(createRandomWalkFeed());
+  const [feedName, setFeedName] = useState<string>(feedRef.current.name);
+  const [feedSpeed, setFeedSpeed] = useState<number>(1);
+  const [feedDone, setFeedDone] = useState<boolean>(false);
+  const [seed, setSeed] = useState<number>(42);
+
+  // Exchange connection; without one the page trades against its own engine
+  const venueRef = useRef<ExchangeClient | null>(null);
+  const [venueStatus, setVenueStatus] = useState<ConnectionStatus | null>(null);
+  const [venueRtt, setVenueRtt] = useState<number | null>(null);
+  const [venueForm, setVenueForm] = useState<VenueForm>({
+    target: 'LOCAL',
+    restUrl: 'http://localhost:8090',
+    streamUrl: 'ws://localhost:8090/ws',
+    latencyMs: 50,
+    rejectPercent: 0,
+    disconnectSeconds: 0
+  });
+  const onVenue = venueStatus !== null;
 
   // Orders
-  const [orderType, setOrderType] = useState<'MARKET' | 'LIMIT'>('MARKET');
-  const [limitPrice, setLimitPrice] = useState<number>(42350.75);
+  const [orderType, setOrderType] = useState<TicketOrderType>('MARKET');
+  const [limitPrice, setLimitPrice] = useState<number>(SYMBOLS[0].basePrice);
+  const [stopPrice, setStopPrice] = useState<number>(SYMBOLS[0].basePrice);
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('GTC');
+  const [reduceOnly, setReduceOnly] = useState<boolean>(false);
+  const [amending, setAmending] = useState<{ orderId: string; limitPrice: number; quantity: number } | null>(null);
   const [quantity, setQuantity] = useState<number>(0.1);
+  const [sizingMode, setSizingMode] = useState<SizingMode>('QUANTITY');
+  const [riskUnit, setRiskUnit] = useState<RiskUnit>('PERCENT');
+  const [riskValue, setRiskValue] = useState<number>(1);
+  // Price alerts
+  const [alertForm, setAlertForm] = useState<AlertForm>({
+    type: 'CROSS_ABOVE',
+    price: 0,
+    percent: 2,
+    window: '15m',
+    indicator: 'RSI',
+    period: 14,
+    operator: 'ABOVE',
+    value: 70
+  });
+  const [browserNotifications, setBrowserNotifications] = useState<boolean>(false);
+  // Bots
+  const [bots, setBots] = useState<Bot[]>([]);
+  const nextBotId = useRef(1);
+  
+  // Last rejected submission, pinned to its input until the ticket changes
+  const [rejection, setRejection] = useState<Rejection | null>(null);
   const [stopLoss, setStopLoss] = useState<number>(41000);
   const [takeProfit, setTakeProfit] = useState<number>(45000);
+  const [trailingDistance, setTrailingDistance] = useState<number>(0);
+  const [editingProtection, setEditingProtection] = useState<{ positionId: string; stopLoss: number; takeProfit: number; trailingDistance: number } | null>(null);
+  const [adjustingLeverage, setAdjustingLeverage] = useState<{ positionId: string; leverage: number } | null>(null);
+
+  const [hotkeys, setHotkeys] = useState<HotkeySettings>(DEFAULT_HOTKEY_SETTINGS);
+  const [display, setDisplay] = useState<DisplaySettings>(DEFAULT_DISPLAY_SETTINGS);
+  const [paletteOpen, setPaletteOpen] = useState<boolean>(false);
+  const [paletteText, setPaletteText] = useState<string>('');
+  // Keyboard order waiting for the user to confirm it
+  const [confirming, setConfirming] = useState<TradingCommand | null>(null);
+  // The key listener is registered once and always calls the latest handler
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => undefined);
+
+  // Restore saved portfolios
+  useEffect(() => {
+    const saved = loadStore() ?? createStore();
+    setStore(saved);
+    dispatch({ type: 'LOAD', account: activePortfolio(saved).account });
+    setHotkeys(loadHotkeySettings());
+    setDisplay(loadDisplaySettings());
+  }, []);
 
-  // Positions and history
-  const [positions, setPositions] = useState<Position[]>([
-    {
-      id: '1',
-      symbol: 'BTC',
-      side: 'LONG',
-      quantity: 0.25,
-      entryPrice: 41200.50,
-      leverage: 10,
-      stopLoss: 40000,
-      takeProfit: 45000,
-      timestamp: Date.now() - 86400000
-    }
-  ]);
-  const [trades, setTrades] = useState<Trade[]>([
-    {
-      id: 't1',
-      symbol: 'BTC',
-      side: 'LONG',
-      quantity: 0.25,
-      price: 41200.50,
-      realizedPnl: 0,
-      timestamp: Date.now() - 86400000,
-      closeReason: ''
-    }
-  ]);
+  const changeDisplay = (settings: DisplaySettings) => {
+    setDisplay(settings);
+    saveDisplaySettings(settings);
+  };
+
+  const changeRate = (rate: number) => {
+    if (validateRate(rate)) return;
+    changeDisplay({ ...display, rates: { ...display.rates, [display.currency]: rate } });
+  };
+
+  const changeHotkeys = (settings: HotkeySettings) => {
+    setHotkeys(settings);
+    saveHotkeySettings(settings);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Keep the active portfolio in sync with the account and persist it; an exchange's account is not saved
+  useEffect(() => {
+    if (onVenue) return;
+    setStore(prev => prev && updateActiveAccount(prev, account));
+  }, [account]);
+
+  useEffect(() => {
+    if (store) saveStore(store);
+  }, [store]);
 
   // Generate initial price history
   useEffect(() => {
-    const initialHistory: PricePoint[] = [];
-    let currentPrice = 42350.75;
-    
-    for (let i = 100; i >= 0; i--) {
-      const fluctuation = (Math.random() - 0.5) * 200;
-      currentPrice += fluctuation;
-      const time = new Date(Date.now() - i * 60000).toLocaleTimeString([], {
-        hour: '2-digit',
-        minute: '2-digit'
-      });
-      initialHistory.push({ time, price: parseFloat(currentPrice.toFixed(2)) });
-    }
-    
-    setPriceHistory(initialHistory);
-    setPrice(parseFloat(currentPrice.toFixed(2)));
+    setMarket(feedRef.current.initialMarket(Date.now()));
   }, []);
 
-  // Simulate price updates
+  // Pump the feed; ticks are pulled outside the state updater since feeds are stateful
   useEffect(() => {
+    if (feedSpeed === 0) return;
     const interval = setInterval(() => {
-      setPrice(prev => {
-        const fluctuation = (Math.random() - 0.5) * 150;
-        const newPrice = prev + fluctuation;
-        
-        // Update price history
-        setPriceHistory(prevHistory => {
-          const newHistory = [...prevHistory.slice(1), {
-            time: new Date().toLocaleTimeString([], {
-              hour: '2-digit',
-              minute: '2-digit'
-            }),
-            price: parseFloat(newPrice.toFixed(2))
-          }];
-          return newHistory;
-        });
-        
-        return parseFloat(newPrice.toFixed(2));
-      });
-    }, 3000);
+      const ticks = feedRef.current.advance(FEED_INTERVAL_MS * feedSpeed);
+      if (ticks.length > 0) setMarket(prev => applyTicks(prev, ticks));
+      setFeedDone(feedRef.current.done());
+    }, FEED_INTERVAL_MS);
+    
+    return () => clearInterval(interval);
+  }, [feedSpeed]);
+
+  // Selected market
+  const selectedMarket = market[selectedSymbol.symbol];
+  const price = selectedMarket.price;
+  const change24h = symbolChange24h(selectedMarket);
+  const book = useMemo(() => generateOrderBook(selectedMarket), [selectedMarket]);
+  const marks = useMemo(() => markPrices(market), [market]);
+  // Feed time, so replayed sessions record historical timestamps
+  const clock = marketTime(market);
+
+  // Let the engine react to every new set of marks; a connected exchange runs its own
+  useEffect(() => {
+    if (onVenue) return;
+    dispatch({ type: 'MARKET_TICK', marks, timestamp: clock });
+  }, [marks]);
+
+  // Round trip to the exchange, sampled while its stream is up
+  useEffect(() => {
+    if (venueStatus !== 'OPEN') return;
+    const sample = () => venueRef.current?.ping().then(setVenueRtt, () => setVenueRtt(null));
+    sample();
+    const interval = setInterval(sample, VENUE_PING_INTERVAL_MS);
     
     return () => clearInterval(interval);
+  }, [venueStatus]);
+
+  useEffect(() => () => venueRef.current?.close(), []);
+
+  // Derived account metrics
+  const { balance, realizedPnl, feesPaid, fundingPaid, positions, orders, trades, costs } = account;
+  const unrealizedPnl = useMemo(() => totalUnrealizedPnl(positions, marks), [positions, marks]);
+  const equity = useMemo(() => accountEquity(account, marks), [account, marks]);
+  const chartLevels = useMemo<ChartLevel[]>(() =>
+    positions
+      .filter(position => position.symbol === selectedSymbol.symbol)
+      .flatMap(position => [
+        ...(position.stopLoss !== undefined
+          ? [{ key: `${position.id}-sl`, price: position.stopLoss, label: 'SL', color: '#ef4444' }]
+          : []),
+        ...(position.takeProfit !== undefined
+          ? [{ key: `${position.id}-tp`, price: position.takeProfit, label: 'TP', color: '#22c55e' }]
+          : [])
+      ])
+      .concat(
+        account.alerts.flatMap(alert =>
+          alert.symbol === selectedSymbol.symbol && alert.triggeredAt === undefined &&
+          (alert.condition.type === 'CROSS_ABOVE' || alert.condition.type === 'CROSS_BELOW')
+            ? [{ key: alert.id, price: alert.condition.price, label: 'Alert', color: '#f59e0b' }]
+            : []
+        )
+      ),
+    [positions, account.alerts, selectedSymbol]
+  );
+  const chartMarkers = useMemo<ChartMarker[]>(() =>
+    account.alerts.flatMap(alert =>
+      alert.symbol === selectedSymbol.symbol && alert.triggeredAt !== undefined && alert.triggerPrice !== undefined
+        ? [{ key: alert.id, time: alert.triggeredAt, price: alert.triggerPrice, label: '🔔', color: '#f59e0b' }]
+        : []
+    ),
+    [account.alerts, selectedSymbol]
+  );
+  const marginRatio = useMemo(() => accountMarginRatio(account, marks, equity), [account, marks, equity]);
+  const startingBalance = store ? activePortfolio(store).startingBalance : DEFAULT_BALANCE;
+  const riskLock = useMemo(() => tradingLock(account, marks), [account, marks]);
+
+  // Order ticket: risk sizing derives the quantity from the stop distance
+  const usesStopPrice = orderType === 'STOP_MARKET' || orderType === 'STOP_LIMIT' || orderType === 'OCO';
+  const usesLimitPrice = orderType !== 'MARKET' && orderType !== 'STOP_MARKET';
+  const entryPrice = orderType === 'MARKET' ? price : orderType === 'STOP_MARKET' ? stopPrice : limitPrice;
+  const orderQuantity = sizingMode === 'RISK'
+    ? sizeForRisk(account, riskBudget(riskUnit, riskValue, equity), entryPrice, stopLoss, selectedSymbol.quantityPrecision)
+    : quantity;
+  const preview = useMemo(() => {
+    const draft: MarketOrder = {
+      symbol: selectedSymbol.symbol,
+      side: impliedSide(entryPrice, stopLoss, takeProfit),
+      quantity: orderQuantity,
+      price: entryPrice,
+      leverage,
+      stopLoss: stopLoss || undefined,
+      takeProfit: takeProfit || undefined,
+      reduceOnly,
+      timestamp: clock
+    };
+    return {
+      side: draft.side,
+      ...previewOrder(account, orderType === 'MARKET' ? withSlippage(account, draft, book) : draft, marks)
+    };
+  }, [account, marks, book, selectedSymbol, entryPrice, orderQuantity, leverage, stopLoss, takeProfit, reduceOnly, orderType, clock]);
+
+  const ticketErrors = useMemo(
+    () => ticketRejections(orderQuantity, entryPrice, {
+      stopLoss: stopLoss || undefined,
+      takeProfit: takeProfit || undefined,
+      trailingDistance: trailingDistance || undefined
+    }, usesStopPrice ? stopPrice : undefined),
+    [orderQuantity, entryPrice, stopLoss, takeProfit, trailingDistance, usesStopPrice, stopPrice]
+  );
+  const fieldError = (field: OrderField) =>
+    rejection?.field === field ? rejection.message : ticketErrors.find(r => r.field === field)?.message;
+  const ticketInputClass = (field: OrderField) =>
+    `w-full bg-gray-700 border ${fieldError(field) ? 'border-red-500' : 'border-gray-600'} rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  useEffect(() => {
+    setRejection(null);
+  }, [selectedSymbol, orderType, orderQuantity, limitPrice, stopPrice, leverage, stopLoss, takeProfit, trailingDistance, reduceOnly]);
+
+  // Announce fills, closes and triggers as they land in the trade history
+  const lastTrade = useRef({ portfolioId: store?.activeId, tradeId: trades[0]?.id });
+  useEffect(() => {
+    const portfolioId = store?.activeId;
+    const { tradeId } = lastTrade.current;
+    // A different portfolio or a reset history is loaded silently
+    const fresh = tradeId === undefined ? trades.length : trades.findIndex(t => t.id === tradeId);
+    if (lastTrade.current.portfolioId === portfolioId && fresh > 0) {
+      trades.slice(0, fresh).reverse().forEach(trade => {
+        const action = trade.closeReason || `Opened ${trade.side}`;
+        const pnl = trade.closeReason ? ` · PnL ${formatCurrency(trade.realizedPnl)}` : '';
+        notify(tradeLevel(trade), `${action}: ${trade.symbol}`, `${formatQuantity(trade.quantity, trade.symbol)} @ ${formatPrice(trade.price, trade.symbol)}${pnl}`);
+      });
+    }
+    lastTrade.current = { portfolioId, tradeId: trades[0]?.id };
+  }, [trades, store?.activeId]);
+
+  useEffect(() => {
+    setBrowserNotifications(typeof Notification !== 'undefined' && Notification.permission === 'granted');
   }, []);
 
-  // Calculate PnL
+  // Alerts are checked against every batch of ticks
   useEffect(() => {
-    const unrealized = positions.reduce((acc, pos) => {
-      const direction = pos.side === 'LONG' ? 1 : -1;
-      const priceDiff = direction * (price - pos.entryPrice);
-      const notional = pos.quantity * pos.entryPrice * pos.leverage;
-      const pnl = (priceDiff / pos.entryPrice) * notional;
-      return acc + pnl;
-    }, 0);
+    const triggers = evaluateAlerts(account.alerts, market);
+    if (triggers.length === 0) return;
     
-    setUnrealizedPnl(parseFloat(unrealized.toFixed(2)));
-    setEquity(parseFloat((balance + unrealized).toFixed(2)));
-  }, [positions, price, balance]);
+    dispatch({ type: 'TRIGGER_ALERTS', triggers, timestamp: clock });
+    triggers.forEach(trigger => {
+      const alert = account.alerts.find(a => a.id === trigger.id);
+      if (!alert) return;
+      const title = `Alert: ${describeAlert(alert)}`;
+      const body = `Triggered at ${formatPrice(trigger.price, alert.symbol)}`;
+      notify('info', title, body);
+      if (browserNotifications) new Notification(title, { body });
+    });
+  }, [market]);
+
+  // Running bots act on the account as it will be after this tick, which the MARKET_TICK above has yet to apply
+  useEffect(() => {
+    if (onVenue || !bots.some(bot => bot.running)) return;
+    let next = accountReducer(account, { type: 'MARKET_TICK', marks, timestamp: clock });
+    const actions: EngineAction[] = [];
+    const stepped = new Map<string, { from: Bot; to: Bot }>();
+    bots.forEach(bot => {
+      const result = stepBot(bot, next, market, clock);
+      next = result.account;
+      actions.push(...result.actions);
+      stepped.set(bot.id, { from: bot, to: result.bot });
+    });
+    actions.forEach(dispatch);
+    // Bots added, started, stopped or edited since this tick read them keep those changes, but still
+    // take the strategy state that goes with the orders just sent
+    setBots(prev => prev.map(bot => {
+      const step = stepped.get(bot.id);
+      if (!step) return bot;
+      return step.from === bot ? step.to : { ...bot, memory: step.to.memory, lastCandle: step.to.lastCandle };
+    }));
+  }, [market]);
+
+  const selectSymbol = (symbol: SymbolInfo) => {
+    setSelectedSymbol(symbol);
+    setLimitPrice(market[symbol.symbol].price);
+    setStopPrice(market[symbol.symbol].price);
+    setStopLoss(0);
+    setTakeProfit(0);
+    setTrailingDistance(0);
+  };
 
-  const handleBuy = () => {
-    if (quantity <= 0) return;
+  // Picking a book level stages a limit order at that price
+  const selectBookPrice = (levelPrice: number) => {
+    setOrderType('LIMIT');
+    setLimitPrice(levelPrice);
+  };
+
+  const rejectOrder = (reason: Rejection) => {
+    setRejection(reason);
+    notify('error', 'Order rejected', reason.message);
+    return reason;
+  };
+
+  // Blocks are logged on the account so the history travels with the portfolio
+  const checkRisk = (order: MarketOrder): Rejection | null => {
+    const reason = checkRiskLimits(account, order, marks);
+    if (!reason) return null;
     
-    const requiredMargin = (quantity * price) / leverage;
-    if (requiredMargin > balance) {
-      alert('Insufficient balance');
-      return;
+    dispatch({
+      type: 'LOG_RISK_BLOCK',
+      block: {
+        timestamp: clock,
+        symbol: order.symbol,
+        side: order.side,
+        quantity: order.quantity,
+        leverage: order.leverage,
+        reason: reason.message
+      }
+    });
+    setRejection(reason);
+    notify('warning', 'Order blocked by risk limits', reason.message);
+    return reason;
+  };
+
+  // The exchange re-checks the order and answers later; fills arrive with its next account update
+  const sendToVenue = (venue: ExchangeClient, order: MarketOrder | LimitOrderRequest): Rejection | null => {
+    venue.placeOrder(order).catch(error => rejectOrder(venueRejection(error)));
+    return null;
+  };
+
+  // Time in force only applies to plain limits; stops and grouped legs rest until filled or cancelled
+  const pendingRequest = (side: OrderSide, type: PendingOrderType, tif: TimeInForce = 'GTC'): LimitOrderRequest => ({
+    symbol: selectedSymbol.symbol,
+    side,
+    quantity: orderQuantity,
+    type,
+    limitPrice: type === 'STOP_MARKET' ? stopPrice : limitPrice,
+    stopPrice: type === 'LIMIT' ? undefined : stopPrice,
+    leverage,
+    stopLoss: stopLoss || undefined,
+    takeProfit: takeProfit || undefined,
+    trailingDistance: trailingDistance || undefined,
+    timeInForce: tif,
+    reduceOnly,
+    timestamp: clock
+  });
+
+  const sendPendingOrder = (order: LimitOrderRequest): Rejection | null => {
+    const error = validateLimitOrder(account, order, marks);
+    if (error) return rejectOrder(error);
+    const blocked = checkRisk(toMarketOrder(order, order.limitPrice, order.timestamp));
+    if (blocked) return blocked;
+    if (venueRef.current) return sendToVenue(venueRef.current, order);
+    
+    dispatch({ type: 'PLACE_LIMIT_ORDER', order, marks });
+    return null;
+  };
+
+  const placePendingOrder = (side: OrderSide, type: PendingOrderType): Rejection | null =>
+    sendPendingOrder(pendingRequest(side, type, type === 'LIMIT' ? timeInForce : 'GTC'));
+
+  const sendMarketOrder = (order: MarketOrder, orderBook: OrderBook): Rejection | null => {
+    const error = validateOrder(account, withSlippage(account, order, orderBook));
+    if (error) return rejectOrder(error);
+    const blocked = checkRisk(order);
+    if (blocked) return blocked;
+    if (venueRef.current) return sendToVenue(venueRef.current, order);
+    
+    dispatch({ type: 'EXECUTE_ORDER', order, book: orderBook, reason: order.side === 'BUY' ? 'Market Buy' : 'Market Sell' });
+    return null;
+  };
+
+  // OCO pairs a limit with a stop; a bracket's SL and TP become exit orders instead of position protection
+  const placeOrderGroup = (side: OrderSide): Rejection | null => {
+    if (venueRef.current) {
+      return rejectOrder(reject('NOT_SUPPORTED', `${orderType === 'OCO' ? 'OCO' : 'Bracket'} orders are not supported by the exchange`));
     }
+    const group: OrderGroupRequest = orderType === 'OCO'
+      ? { kind: 'OCO', legs: [pendingRequest(side, 'LIMIT'), pendingRequest(side, 'STOP_MARKET')] }
+      : {
+          kind: 'BRACKET',
+          entry: { ...pendingRequest(side, 'LIMIT', timeInForce), stopLoss: undefined, takeProfit: undefined, trailingDistance: undefined },
+          stopLoss,
+          takeProfit
+        };
     
-    setBalance(prev => prev - requiredMargin);
+    const error = validateOrderGroup(account, group, marks);
+    if (error) return rejectOrder(error);
+    const legs = group.kind === 'OCO' ? group.legs : [group.entry];
+    for (const leg of legs) {
+      const blocked = checkRisk(toMarketOrder(leg, leg.limitPrice, leg.timestamp));
+      if (blocked) return blocked;
+    }
+    
+    dispatch({ type: 'PLACE_ORDER_GROUP', group, marks });
+    return null;
+  };
+
+  // Returns why the order was refused, or null once it has been sent
+  const submitOrder = (side: OrderSide): Rejection | null => {
+    if (orderType === 'OCO' || orderType === 'BRACKET') return placeOrderGroup(side);
+    if (orderType !== 'MARKET') return placePendingOrder(side, orderType);
     
-    const newPosition: Position = {
-      id: `pos-${Date.now()}`,
+    const order: MarketOrder = {
       symbol: selectedSymbol.symbol,
-      side: 'LONG',
-      quantity,
-      entryPrice: orderType === 'MARKET' ? price : limitPrice,
+      side,
+      quantity: orderQuantity,
+      price,
       leverage,
       stopLoss: stopLoss || undefined,
       takeProfit: takeProfit || undefined,
-      timestamp: Date.now()
+      trailingDistance: trailingDistance || undefined,
+      reduceOnly,
+      timestamp: clock
     };
+    return sendMarketOrder(order, book);
+  };
+
+  const handleBuy = () => submitOrder('BUY');
+
+  const handleSell = () => submitOrder('SELL');
+
+  const changePositionMode = (mode: PositionMode) => {
+    const error = validatePositionMode(account, mode);
+    if (error) {
+      notify('error', 'Position mode unchanged', error.message);
+      return;
+    }
+    if (venueRef.current) {
+      venueRef.current.setPositionMode(mode)
+        .catch(venueError => notify('error', 'Position mode unchanged', venueRejection(venueError).message));
+      return;
+    }
     
-    setPositions(prev => [...prev, newPosition]);
+    dispatch({ type: 'SET_POSITION_MODE', mode });
+  };
+
+  const changeMarginMode = (mode: MarginMode) => {
+    dispatch({ type: 'SET_MARGIN_MODE', mode });
+  };
+
+  const changeCost = (key: keyof CostConfig, value: number) => {
+    // A zero funding interval would settle endlessly
+    if (!Number.isFinite(value) || value < 0 || (key === 'fundingIntervalMs' && value === 0)) return;
+    dispatch({ type: 'SET_COSTS', costs: { ...account.costs, [key]: value } });
   };
 
-  const handleSell = () => {
-    if (quantity <= 0) return;
+  const changeRiskLimit = (key: Exclude<keyof RiskLimits, 'maxLeverage'>, value: number) => {
+    if (!Number.isFinite(value) || value < 0) return;
+    dispatch({ type: 'SET_RISK_LIMITS', limits: { ...account.riskLimits, [key]: value } });
+  };
+
+  const changeMaxLeverage = (symbol: string, value: number) => {
+    if (!Number.isFinite(value) || value < 0) return;
+    const maxLeverage = { ...account.riskLimits.maxLeverage, [symbol]: value };
+    dispatch({ type: 'SET_RISK_LIMITS', limits: { ...account.riskLimits, maxLeverage } });
+  };
+
+  const addAlert = () => {
+    const condition = alertCondition(alertForm);
+    const error = validateAlert(condition, price);
+    if (error) {
+      notify('error', 'Alert not added', error);
+      return;
+    }
     
-    const longPositions = positions.filter(p => p.side === 'LONG');
-    const totalLongQty = longPositions.reduce((sum, p) => sum + p.quantity, 0);
+    dispatch({ type: 'ADD_ALERT', symbol: selectedSymbol.symbol, condition, timestamp: clock });
+  };
+
+  const removeAlert = (alertId: string) => {
+    dispatch({ type: 'REMOVE_ALERT', alertId });
+  };
+
+  const enableBrowserNotifications = async () => {
+    if (typeof Notification === 'undefined') {
+      notify('error', 'Browser notifications unavailable', 'This browser does not support notifications');
+      return;
+    }
     
-    if (quantity > totalLongQty) {
-      alert('Not enough position to sell');
+    const permission = await Notification.requestPermission();
+    setBrowserNotifications(permission === 'granted');
+    if (permission !== 'granted') notify('warning', 'Browser notifications blocked', 'Alerts will only show in the dashboard');
+  };
+
+  // Exchanges close positions through reduce-only market orders
+  const closingOrder = (position: Position, closeQuantity: number): MarketOrder => ({
+    symbol: position.symbol,
+    side: position.side === 'LONG' ? 'SELL' : 'BUY',
+    quantity: closeQuantity,
+    price: markFor(marks, position),
+    leverage: position.leverage,
+    reduceOnly: true,
+    timestamp: clock
+  });
+
+  const transferFunds = (type: 'DEPOSIT' | 'WITHDRAW', amount: number) => {
+    const error = validateTransfer(account, type, amount);
+    if (error) {
+      notify('error', `${type === 'DEPOSIT' ? 'Deposit' : 'Withdrawal'} rejected`, error.message);
       return;
     }
     
-    // Close positions
-    let remainingQty = quantity;
-    const closedPositions: Position[] = [];
-    const updatedPositions = positions.filter(position => {
-      if (position.side !== 'LONG') return true;
-      if (remainingQty <= 0) return true;
-      
-      if (position.quantity <= remainingQty) {
-        // Close entire position
-        remainingQty -= position.quantity;
-        closedPositions.push(position);
-        return false;
-      } else {
-        // Partially close position
-        const closedQty = remainingQty;
-        const pnl = (price - position.entryPrice) * closedQty * leverage;
-        
-        setRealizedPnl(prev => prev + pnl);
-        setBalance(prev => prev + (closedQty * position.entryPrice / leverage) + pnl);
-        
-        const newTrade: Trade = {
-          id: `trade-${Date.now()}`,
-          symbol: position.symbol,
-          side: 'LONG',
-          quantity: closedQty,
-          price,
-          realizedPnl: pnl,
-          timestamp: Date.now(),
-          closeReason: 'Market Sell'
-        };
-        
-        setTrades(prev => [newTrade, ...prev]);
-        
-        remainingQty = 0;
-        return {
-          ...position,
-          quantity: position.quantity - closedQty
-        };
-      }
-    });
+    dispatch({ type, amount, timestamp: clock });
+  };
+
+  const depositCollateral = (asset: string, amount: number) => {
+    const error = validateCollateralDeposit(asset, amount);
+    if (error) {
+      notify('error', 'Collateral deposit rejected', error.message);
+      return;
+    }
     
-    // Close full positions
-    closedPositions.forEach(position => {
-      const pnl = (price - position.entryPrice) * position.quantity * leverage;
-      setRealizedPnl(prev => prev + pnl);
-      setBalance(prev => prev + (position.quantity * position.entryPrice / leverage) + pnl);
-      
-      const newTrade: Trade = {
-        id: `trade-${Date.now()}`,
-        symbol: position.symbol,
-        side: 'LONG',
-        quantity: position.quantity,
-        price,
-        realizedPnl: pnl,
-        timestamp: Date.now(),
-        closeReason: 'Market Sell'
-      };
-      
-      setTrades(prev => [newTrade, ...prev]);
-    });
+    dispatch({ type: 'DEPOSIT_COLLATERAL', asset, amount, marks, timestamp: clock });
+  };
+
+  const withdrawCollateral = (asset: string, amount: number) => {
+    const error = validateCollateralWithdrawal(account, asset, amount, marks);
+    if (error) {
+      notify('error', 'Collateral withdrawal rejected', error.message);
+      return;
+    }
     
-    setPositions(updatedPositions);
+    dispatch({ type: 'WITHDRAW_COLLATERAL', asset, amount, marks, timestamp: clock });
   };
 
   const closeAllPositions = () => {
     if (positions.length === 0) return;
+    const venue = venueRef.current;
+    if (venue) {
+      positions.forEach(position => sendToVenue(venue, closingOrder(position, position.quantity)));
+      return;
+    }
+    dispatch({ type: 'CLOSE_ALL', marks, timestamp: clock, reason: 'Manual Close All' });
+  };
+
+  const closePositionPart = (position: Position, fraction: number) => {
+    const closeQuantity = fraction >= 1 ? position.quantity : position.quantity * fraction;
+    if (venueRef.current) {
+      sendToVenue(venueRef.current, closingOrder(position, closeQuantity));
+      return;
+    }
+    dispatch({
+      type: 'CLOSE_POSITION',
+      positionId: position.id,
+      quantity: closeQuantity,
+      marks,
+      timestamp: clock,
+      reason: fraction >= 1 ? 'Manual Close' : `Manual Close ${Math.round(fraction * 100)}%`
+    });
+  };
+
+  const reversePosition = (position: Position) => {
+    const error = validateReverse(account, position.id, marks);
+    if (error) {
+      notify('error', 'Reverse rejected', error.message);
+      return;
+    }
+    const order = reverseOrder(position, markFor(marks, position), clock);
+    const blocked = checkRisk(order);
+    if (blocked) return;
+    // The opening leg waits for the close to fill; sent together, it could arrive first and net against the position
+    const venue = venueRef.current;
+    if (venue) {
+      venue.placeOrder(closingOrder(position, position.quantity))
+        .then(() => sendToVenue(venue, order))
+        .catch(error => rejectOrder(venueRejection(error)));
+      return;
+    }
     
-    const totalPnl = positions.reduce((acc, pos) => {
-      const direction = pos.side === 'LONG' ? 1 : -1;
-      const priceDiff = direction * (price - pos.entryPrice);
-      const notional = pos.quantity * pos.entryPrice * pos.leverage;
-      const pnl = (priceDiff / pos.entryPrice) * notional;
-      return acc + pnl;
-    }, 0);
+    dispatch({ type: 'REVERSE_POSITION', positionId: position.id, marks, timestamp: clock });
+  };
+
+  const saveLeverage = () => {
+    if (!adjustingLeverage) return;
     
-    const marginReturned = positions.reduce((acc, pos) => {
-      return acc + (pos.quantity * pos.entryPrice / pos.leverage);
-    }, 0);
+    const error = validatePositionLeverage(account, adjustingLeverage.positionId, adjustingLeverage.leverage);
+    if (error) {
+      notify('error', 'Margin unchanged', error.message);
+      return;
+    }
     
-    setRealizedPnl(prev => prev + totalPnl);
-    setBalance(prev => prev + marginReturned + totalPnl);
+    dispatch({ type: 'SET_POSITION_LEVERAGE', ...adjustingLeverage, timestamp: clock });
+    setAdjustingLeverage(null);
+  };
+
+  const cancelOrder = (orderId: string) => {
+    const order = orders.find(o => o.id === orderId);
+    if (venueRef.current && order) {
+      venueRef.current.cancelOrder(order.symbol, orderId)
+        .catch(error => notify('error', 'Cancel failed', venueRejection(error).message));
+      return;
+    }
+    dispatch({ type: 'CANCEL_ORDER', orderId, timestamp: clock });
+  };
+
+  const saveAmendment = () => {
+    if (!amending) return;
     
-    const newTrades = positions.map(pos => ({
-      id: `trade-${Date.now()}-${pos.id}`,
-      symbol: pos.symbol,
-      side: pos.side,
-      quantity: pos.quantity,
-      price,
-      realizedPnl: (price - pos.entryPrice) * pos.quantity * pos.leverage,
-      timestamp: Date.now(),
-      closeReason: 'Manual Close All'
-    }));
+    const error = validateAmendOrder(account, amending.orderId, amending.limitPrice, amending.quantity, marks);
+    if (error) {
+      notify('error', 'Amendment rejected', error.message);
+      return;
+    }
+    const order = orders.find(o => o.id === amending.orderId);
+    if (venueRef.current && order) {
+      venueRef.current.amendOrder(order.symbol, order.id, amending.limitPrice, amending.quantity)
+        .catch(venueError => notify('error', 'Amendment rejected', venueRejection(venueError).message));
+    } else {
+      dispatch({ type: 'AMEND_ORDER', ...amending, marks, timestamp: clock });
+    }
+    setAmending(null);
+  };
+
+  const saveProtection = () => {
+    if (!editingProtection) return;
+    const position = positions.find(p => p.id === editingProtection.positionId);
+    if (!position) {
+      setEditingProtection(null);
+      return;
+    }
     
-    setTrades(prev => [...newTrades, ...prev]);
-    setPositions([]);
+    const protection: Protection = {
+      stopLoss: editingProtection.stopLoss || undefined,
+      takeProfit: editingProtection.takeProfit || undefined,
+      trailingDistance: editingProtection.trailingDistance || undefined
+    };
+    const error = validateProtection(position.side, protection, markFor(marks, position));
+    if (error) {
+      notify('error', 'Protection rejected', error.message);
+      return;
+    }
+    
+    dispatch({ type: 'UPDATE_PROTECTION', positionId: position.id, protection, marks });
+    setEditingProtection(null);
   };
 
-  const resetAccount = () => {
-    setBalance(DEFAULT_BALANCE);
-    setEquity(DEFAULT_BALANCE);
-    setUnrealizedPnl(0);
-    setRealizedPnl(0);
-    setPositions([
-      {
-        id: '1',
-        symbol: 'BTC',
-        side: 'LONG',
-        quantity: 0.25,
-        entryPrice: 41200.50,
-        leverage: 10,
-        stopLoss: 40000,
-        takeProfit: 45000,
-        timestamp: Date.now() - 86400000
+  // Keyboard trading
+
+  // Builds the order the command describes and sends it through the same checks as the ticket
+  const sendCommandOrder = (command: Extract<TradingCommand, { type: 'ORDER' }>): Rejection | null => {
+    const symbol = command.symbol ?? selectedSymbol.symbol;
+    const symbolMarket = market[symbol];
+    // Notional sizes round down to the symbol's quantity precision, as risk-sized quantities do
+    const quantity = command.size.unit === 'NOTIONAL'
+      ? roundQuantity(command.size.value / symbolMarket.price, getSymbolInfo(symbol).quantityPrecision)
+      : command.size.value;
+    const base = {
+      symbol,
+      side: command.side,
+      quantity,
+      leverage: command.leverage ?? leverage,
+      stopLoss: command.stopLoss,
+      takeProfit: command.takeProfit,
+      reduceOnly: command.reduceOnly,
+      timestamp: clock
+    };
+    if (command.orderType === 'MARKET') {
+      return sendMarketOrder({ ...base, price: symbolMarket.price }, generateOrderBook(symbolMarket));
+    }
+    const limit = command.price ?? symbolMarket.price;
+    return sendPendingOrder({
+      ...base,
+      type: command.orderType,
+      limitPrice: limit,
+      stopPrice: command.orderType === 'LIMIT' ? undefined : limit,
+      timeInForce: 'GTC'
+    });
+  };
+
+  const executeCommand = (command: TradingCommand) => {
+    switch (command.type) {
+      case 'ORDER':
+        if (!sendCommandOrder(command)) notify('info', 'Order sent', describeCommand(command));
+        return;
+      case 'CLOSE_ALL':
+        closeAllPositions();
+        return;
+      case 'FLATTEN': {
+        const symbol = command.symbol ?? selectedSymbol.symbol;
+        positions.filter(p => p.symbol === symbol).forEach(p => closePositionPart(p, 1));
+        return;
+      }
+      case 'CANCEL_ALL':
+        orders.forEach(o => cancelOrder(o.id));
+        return;
+      case 'CANCEL_SYMBOL': {
+        const symbol = command.symbol ?? selectedSymbol.symbol;
+        orders.filter(o => o.symbol === symbol).forEach(o => cancelOrder(o.id));
+        return;
       }
-    ]);
-    setTrades([
-      {
-        id: 't1',
-        symbol: 'BTC',
-        side: 'LONG',
-        quantity: 0.25,
-        price: 41200.50,
-        realizedPnl: 0,
-        timestamp: Date.now() - 86400000,
-        closeReason: ''
+      case 'CYCLE_SYMBOL': {
+        const index = SYMBOLS.findIndex(s => s.symbol === selectedSymbol.symbol);
+        selectSymbol(SYMBOLS[(index + command.step + SYMBOLS.length) % SYMBOLS.length]);
+        return;
       }
-    ]);
+      case 'SELECT_SYMBOL': {
+        const symbol = SYMBOLS.find(s => s.symbol === command.symbol);
+        if (symbol) selectSymbol(symbol);
+        return;
+      }
+      case 'SET_LEVERAGE':
+        setLeverage(clampLeverage(command.leverage));
+        return;
+      case 'CHANGE_LEVERAGE':
+        setLeverage(clampLeverage(leverage + command.step));
+        return;
+      case 'OPEN_PALETTE':
+        setPaletteOpen(true);
+        return;
+    }
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2
-    }).format(value);
+  // Orders typed or keyed in wait for confirmation when the setting asks for it
+  const runCommand = (command: TradingCommand) => {
+    if (command.type === 'ORDER' && hotkeys.confirmOrders) {
+      setConfirming(command);
+      return;
+    }
+    executeCommand(command);
+  };
+
+  const confirmCommand = () => {
+    if (confirming) executeCommand(confirming);
+    setConfirming(null);
+  };
+
+  const submitPalette = () => {
+    try {
+      const command = parseCommand(paletteText);
+      setPaletteOpen(false);
+      setPaletteText('');
+      runCommand(command);
+    } catch (error) {
+      notify('error', 'Command not understood', errorMessage(error));
+    }
+  };
+
+  // Hotkeys stay out of the way while typing into a field
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    if (confirming) {
+      if (e.key === 'Enter') confirmCommand();
+      if (e.key === 'Escape') setConfirming(null);
+      e.preventDefault();
+      return;
+    }
+    const target = e.target;
+    if (target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName))) {
+      return;
+    }
+    const binding = findHotkey(hotkeys, e);
+    if (!binding) return;
+    e.preventDefault();
+    runCommand(binding.command);
+  };
+
+  const paletteLine = (() => {
+    if (!paletteText.trim()) return null;
+    try {
+      return { ok: true, text: describeCommand(parseCommand(paletteText)) };
+    } catch (error) {
+      return { ok: false, text: errorMessage(error) };
+    }
+  })();
+
+  const clearEditing = () => {
+    setAmending(null);
+    setEditingProtection(null);
+    setAdjustingLeverage(null);
   };
 
+  const loadAccount = (next: PortfolioStore, nextAccount: AccountState) => {
+    clearEditing();
+    setStore(next);
+    dispatch({ type: 'LOAD', account: nextAccount });
+  };
+
+  // Portfolios are left alone while an exchange's account is on screen
+  const switchPortfolio = (id: string) => {
+    if (!store || onVenue) return;
+    const next = { ...updateActiveAccount(store, account), activeId: id };
+    loadAccount(next, activePortfolio(next).account);
+  };
+
+  const createNewPortfolio = () => {
+    if (!store || onVenue) return;
+    const name = newPortfolioName.trim();
+    if (!name) {
+      notify('error', 'Portfolio not created', 'Enter a portfolio name');
+      return;
+    }
+    if (newPortfolioBalance <= 0) {
+      notify('error', 'Portfolio not created', 'Starting balance must be positive');
+      return;
+    }
+    
+    const portfolio = createPortfolio(name, newPortfolioBalance);
+    loadAccount(addPortfolio(updateActiveAccount(store, account), portfolio), portfolio.account);
+    setNewPortfolioName('');
+  };
+
+  const exportActivePortfolio = () => {
+    if (!store || onVenue) return;
+    const portfolio = activePortfolio(updateActiveAccount(store, account));
+    downloadFile(`${portfolio.name.replace(/\s+/g, '-').toLowerCase()}.json`, exportPortfolio(portfolio));
+  };
+
+  const importPortfolioFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !store || onVenue) return;
+    
+    try {
+      const portfolio = importPortfolio(await file.text());
+      loadAccount(addPortfolio(updateActiveAccount(store, account), portfolio), portfolio.account);
+      notify('success', 'Portfolio imported', portfolio.name);
+    } catch (error) {
+      notify('error', 'Import failed', errorMessage(error));
+    }
+  };
+
+  const exportJournal = (kind: 'trades' | 'positions' | 'account' | 'collateral' | 'json') => {
+    const journal = createJournal(account, marks, startingBalance, clock);
+    const name = (store ? activePortfolio(store).name : 'journal').replace(/\s+/g, '-').toLowerCase();
+    if (kind === 'json') {
+      downloadFile(`${name}-journal.json`, journalJson(journal));
+      return;
+    }
+    const csv = { trades: tradesCsv, positions: positionsCsv, account: accountCsv, collateral: collateralCsv }[kind](journal);
+    downloadFile(`${name}-${kind}.csv`, csv, 'text/csv');
+  };
+
+  // Journals rebuild into a new portfolio so the current one is never overwritten
+  const importJournalFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !store || onVenue) return;
+    
+    try {
+      const { account: rebuilt, startingBalance: funding } = importJournal(await file.text(), marks);
+      const portfolio = { ...createPortfolio(file.name.replace(/\.json$/i, ''), funding), account: rebuilt };
+      loadAccount(addPortfolio(updateActiveAccount(store, account), portfolio), rebuilt);
+      notify('success', 'Journal imported', `${rebuilt.trades.length} trades, ${rebuilt.positions.length} positions`);
+    } catch (error) {
+      notify('error', 'Journal import failed', errorMessage(error));
+    }
+  };
+
+  const startFeed = (feed: PriceFeed) => {
+    feedRef.current = feed;
+    setFeedName(feed.name);
+    setFeedDone(false);
+    setMarket(feed.initialMarket(Date.now()));
+  };
+
+  const stepFeed = () => {
+    const ticks = feedRef.current.step();
+    if (ticks.length > 0) setMarket(prev => applyTicks(prev, ticks));
+    setFeedDone(feedRef.current.done());
+  };
+
+  const loadReplayFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    try {
+      const candles = parseOhlcvFile(file.name, await file.text(), selectedSymbol.symbol);
+      setFeedSpeed(0);
+      startFeed(createReplayFeed(candles, `Replay: ${file.name}`));
+    } catch (error) {
+      notify('error', 'Replay failed', errorMessage(error));
+    }
+  };
+
+  const connectVenue = async () => {
+    const transport = venueForm.target === 'LOCAL'
+      ? createLocalTransport(createMockExchange({
+          latencyMs: venueForm.latencyMs,
+          rejectRate: venueForm.rejectPercent / 100,
+          disconnectEveryMs: venueForm.disconnectSeconds * 1000
+        }))
+      : createHttpTransport(venueForm.restUrl, venueForm.streamUrl);
+    const client = createExchangeClient(transport);
+    setVenueStatus('CONNECTING');
+    
+    try {
+      const stream = createStreamFeed(`Exchange: ${client.name}`, await loadVenueMarket(client, Date.now()));
+      clearEditing();
+      venueRef.current = client;
+      setFeedSpeed(1);
+      startFeed(stream.feed);
+      let dropped = false;
+      client.connect({
+        onTrade: stream.push,
+        onAccount: snapshot => dispatch({ type: 'SYNC_ACCOUNT', account: snapshot }),
+        onStatus: (status, detail) => {
+          setVenueStatus(status);
+          if (status === 'RECONNECTING') {
+            dropped = true;
+            notify('warning', 'Exchange stream dropped', detail ?? '');
+          } else if (status === 'OPEN' && detail) {
+            notify('error', 'Exchange subscription failed', detail);
+          } else if (status === 'OPEN' && dropped) {
+            dropped = false;
+            notify('success', 'Exchange stream restored', client.name);
+          }
+        }
+      });
+    } catch (error) {
+      setVenueStatus(null);
+      notify('error', 'Exchange connection failed', venueRejection(error).message);
+    }
+  };
+
+  // Back to the simulator and the portfolio as it was before connecting
+  const disconnectVenue = () => {
+    venueRef.current?.close();
+    venueRef.current = null;
+    setVenueStatus(null);
+    setVenueRtt(null);
+    clearEditing();
+    startFeed(createRandomWalkFeed());
+    if (store) dispatch({ type: 'LOAD', account: activePortfolio(store).account });
+  };
+
+  const addBot = (strategyId: StrategyId, params: Record<string, number>) => {
+    setBots(prev => [...prev, createBot(`bot-${nextBotId.current++}`, strategyId, selectedSymbol.symbol, params)]);
+  };
+
+  // Stopping a bot pulls its resting orders; its positions stay open
+  const toggleBot = (botId: string) => {
+    const bot = bots.find(b => b.id === botId);
+    if (!bot) return;
+    if (bot.running) botOrders(account, botId).forEach(order => dispatch({ type: 'CANCEL_ORDER', orderId: order.id, timestamp: clock }));
+    setBots(prev => prev.map(b => (b.id === botId ? setBotRunning(b, !b.running, clock) : b)));
+  };
+
+  const removeBot = (botId: string) => {
+    setBots(prev => prev.filter(b => b.id !== botId));
+  };
+
+  // Replays the file through a fresh copy of the bot on a fresh account with the current settings
+  const backtestBot = async (botId: string, file: File) => {
+    const bot = bots.find(b => b.id === botId);
+    if (!bot) return;
+    
+    try {
+      const candles = parseOhlcvFile(file.name, await file.text(), bot.symbol);
+      const fresh = { ...createBot(bot.id, bot.strategyId, bot.symbol, bot.params), running: true };
+      const start: AccountState = {
+        ...createInitialAccount(startingBalance, false),
+        costs: account.costs,
+        riskLimits: account.riskLimits,
+        positionMode: account.positionMode,
+        marginMode: account.marginMode
+      };
+      const result = runHeadless(createReplayFeed(candles, file.name), [fresh], start);
+      const pnl = botPnl(result.account, bot.id, markPrices(result.market));
+      const summary = `${file.name}: net ${formatCurrency(pnl.net)} over ${pnl.fills} fills (fees ${formatCurrency(pnl.fees)})`;
+      setBots(prev => prev.map(b => (b.id === botId ? logToBot(b, `Backtest ${summary}`, Date.now()) : b)));
+      notify('info', `Backtest: ${bot.name}`, summary);
+    } catch (error) {
+      notify('error', 'Backtest failed', errorMessage(error));
+    }
+  };
+
+  const resetAccount = () => {
+    clearEditing();
+    const portfolio = store && activePortfolio(store);
+    dispatch({ type: 'RESET', balance: portfolio?.startingBalance, demo: portfolio?.demo });
+  };
+
+  const formatCurrency = (value: number) => formatMoney(value, display);
+
+  const formatPrice = (value: number, symbol: string) => displayPrice(value, symbol, display);
+
+  const formatQuantity = (value: number, symbol: string) => displayQuantity(value, symbol, display);
+
+  const formatVolume = (value: number) => formatCompact(value, display);
+
+  const formatDateTime = (timestamp: number) => displayDateTime(timestamp, display);
+
+  const formatClock = (timestamp: number) => displayClock(timestamp, display);
+
   const formatPercent = (value: number) => {
     return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
   };
@@ -336,13 +1242,217 @@ export default function CryptoTradingDashboard() {
     <div className="min-h-screen bg-gradient-to-br from-gray-900 to-gray-800 text-white p-4 md:p-8">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
-        <header className="mb-8">
-          <h1 className="text-3xl font-bold mb-2">Crypto Trading Dashboard</h1>
-          <p className="text-gray-400">Simulated trading environment for cryptocurrency markets</p>
+        <header className="mb-8 flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Crypto Trading Dashboard</h1>
+            <p className="text-gray-400">Simulated trading environment for cryptocurrency markets</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={display.locale}
+              onChange={(e) => changeDisplay({ ...display, locale: e.target.value })}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {LOCALES.map(([locale, label]) => (
+                <option key={locale} value={locale}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={display.currency}
+              onChange={(e) => changeDisplay({ ...display, currency: e.target.value })}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {Object.keys(display.rates).map(currency => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+            <label className="text-xs text-gray-400" title={`${display.currency} per ${QUOTE_ASSET}`}>
+              1 {QUOTE_ASSET} =
+              <input
+                type="number"
+                value={display.rates[display.currency] ?? 1}
+                onChange={(e) => changeRate(parseFloat(e.target.value))}
+                disabled={display.currency === 'USD'}
+                className="w-20 ml-1 bg-gray-700 border border-gray-600 rounded px-2 py-1 disabled:opacity-50"
+              />
+            </label>
+            <NotificationCenter
+              notifications={notifications}
+              toasts={toasts}
+              onDismiss={dismiss}
+              onClear={clear}
+              formatClock={formatClock}
+            />
+          </div>
         </header>
 
+        {/* Portfolios */}
+        <div className="bg-gray-800 rounded-xl p-4 shadow-lg mb-8 flex flex-wrap items-center gap-3">
+          <select
+            value={store?.activeId ?? ''}
+            onChange={(e) => switchPortfolio(e.target.value)}
+            disabled={!store}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {store?.portfolios.map(portfolio => (
+              <option key={portfolio.id} value={portfolio.id}>{portfolio.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={newPortfolioName}
+            onChange={(e) => setNewPortfolioName(e.target.value)}
+            placeholder="New portfolio name"
+            className="bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="number"
+            value={newPortfolioBalance}
+            onChange={(e) => setNewPortfolioBalance(parseFloat(e.target.value) || 0)}
+            className="w-36 bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={createNewPortfolio}
+            className="bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg"
+          >
+            Create
+          </button>
+          <div className="flex-1" />
+          <button
+            onClick={exportActivePortfolio}
+            className="text-sm bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded"
+          >
+            Export JSON
+          </button>
+          <label className="text-sm bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded cursor-pointer">
+            Import JSON
+            <input type="file" accept="application/json,.json" onChange={importPortfolioFile} className="hidden" />
+          </label>
+        </div>
+
+        {/* Price Feed */}
+        <div className="bg-gray-800 rounded-xl p-4 shadow-lg mb-8 flex flex-wrap items-center gap-3">
+          <span className="text-gray-400 text-sm">Feed:</span>
+          <span className="font-medium">{feedName}</span>
+          {feedDone && <span className="text-xs text-yellow-500">finished</span>}
+          {!onVenue && (
+            <>
+              <button
+                onClick={() => startFeed(createRandomWalkFeed())}
+                className="text-sm bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded"
+              >
+                Random
+              </button>
+              <input
+                type="number"
+                value={seed}
+                onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+                className="w-24 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => startFeed(createSeededFeed(seed))}
+                className="text-sm bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded"
+              >
+                Seeded
+              </button>
+              <label className="text-sm bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded cursor-pointer">
+                Replay CSV/JSON
+                <input type="file" accept=".csv,.json,text/csv,application/json" onChange={loadReplayFile} className="hidden" />
+              </label>
+            </>
+          )}
+          <div className="flex-1" />
+          {FEED_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              onClick={() => setFeedSpeed(speed)}
+              className={`text-sm px-3 py-2 rounded ${feedSpeed === speed ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {speed === 0 ? 'Pause' : `${speed}x`}
+            </button>
+          ))}
+          <button
+            onClick={stepFeed}
+            disabled={feedSpeed !== 0 || feedDone}
+            className="text-sm bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded disabled:opacity-50"
+          >
+            Step
+          </button>
+        </div>
+
+        {/* Exchange */}
+        <div className="bg-gray-800 rounded-xl p-4 shadow-lg mb-8 flex flex-wrap items-center gap-3 text-sm">
+          <span className="text-gray-400">Exchange:</span>
+          {venueStatus !== null ? (
+            <>
+              <span className={`px-2 py-1 rounded text-xs ${venueStatus === 'OPEN' ? 'bg-green-900 text-green-400' : 'bg-yellow-900 text-yellow-400'}`}>
+                {VENUE_STATUS_LABELS[venueStatus]}
+              </span>
+              {venueRtt !== null && <span className="text-gray-400">Round trip {venueRtt} ms</span>}
+              <span className="text-gray-500">Bots, OCO, brackets and SL/TP edits stay on the simulator</span>
+              <div className="flex-1" />
+              <button
+                onClick={disconnectVenue}
+                className="bg-gray-700 hover:bg-gray-600 px-3 py-2 rounded"
+              >
+                Disconnect
+              </button>
+            </>
+          ) : (
+            <>
+              <select
+                value={venueForm.target}
+                onChange={(e) => setVenueForm({ ...venueForm, target: e.target.value as VenueForm['target'] })}
+                className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="LOCAL">Mock (in page)</option>
+                <option value="REMOTE">Server</option>
+              </select>
+              {venueForm.target === 'LOCAL' ? (
+                ([
+                  ['latencyMs', 'Latency (ms)'],
+                  ['rejectPercent', 'Reject %'],
+                  ['disconnectSeconds', 'Drop every (s, 0 = never)']
+                ] as [keyof VenueForm, string][]).map(([key, label]) => (
+                  <label key={key} className="flex items-center gap-2 text-gray-400">
+                    {label}
+                    <input
+                      type="number"
+                      value={venueForm[key]}
+                      onChange={(e) => setVenueForm({ ...venueForm, [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-20 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </label>
+                ))
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    value={venueForm.restUrl}
+                    onChange={(e) => setVenueForm({ ...venueForm, restUrl: e.target.value })}
+                    className="w-56 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="text"
+                    value={venueForm.streamUrl}
+                    onChange={(e) => setVenueForm({ ...venueForm, streamUrl: e.target.value })}
+                    className="w-56 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </>
+              )}
+              <div className="flex-1" />
+              <button
+                onClick={connectVenue}
+                className="bg-blue-600 hover:bg-blue-700 px-3 py-2 rounded"
+              >
+                Connect
+              </button>
+            </>
+          )}
+        </div>
+
         {/* Account Summary */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-8">
           <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
             <h3 className="text-gray-400 text-sm font-medium mb-1">Balance</h3>
             <p className="text-2xl font-bold">{formatCurrency(balance)}</p>
@@ -350,6 +1460,9 @@ export default function CryptoTradingDashboard() {
           <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
             <h3 className="text-gray-400 text-sm font-medium mb-1">Equity</h3>
             <p className="text-2xl font-bold">{formatCurrency(equity)}</p>
+            {account.collateral.length > 0 && (
+              <p className="text-xs text-gray-400 mt-1">Collateral {formatCurrency(collateralValue(account.collateral, marks))}</p>
+            )}
           </div>
           <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
             <h3 className="text-gray-400 text-sm font-medium mb-1">Unrealized PnL</h3>
@@ -362,10 +1475,72 @@ export default function CryptoTradingDashboard() {
             <p className={`text-2xl font-bold ${realizedPnl >= 0 ? 'text-green-500' : 'text-red-500'}`}>
               {formatCurrency(realizedPnl)}
             </p>
+            <div className="text-xs text-gray-400 mt-2 space-y-1">
+              <div className="flex justify-between">
+                <span>Fees</span>
+                <span className="text-red-400">-{formatCurrency(feesPaid)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Funding</span>
+                <span className={fundingPaid > 0 ? 'text-red-400' : 'text-green-400'}>{formatCurrency(-fundingPaid)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Net</span>
+                <span>{formatCurrency(realizedPnl - feesPaid - fundingPaid)}</span>
+              </div>
+            </div>
+          </div>
+          <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+            <h3 className="text-gray-400 text-sm font-medium mb-1">Margin Ratio</h3>
+            <p className={`text-2xl font-bold ${marginRatio >= MARGIN_CALL_RATIO ? 'text-red-500' : ''}`}>
+              {Number.isFinite(marginRatio) ? `${(marginRatio * 100).toFixed(2)}%` : '∞'}
+            </p>
+            <div className="w-full h-2 bg-gray-700 rounded mt-2">
+              <div
+                className={`h-2 rounded ${marginRatio >= MARGIN_CALL_RATIO ? 'bg-red-500' : marginRatio >= MARGIN_CALL_RATIO / 2 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                style={{ width: `${Math.min(100, marginRatio * 100)}%` }}
+              />
+            </div>
+            {marginRatio >= MARGIN_CALL_RATIO && (
+              <p className="text-xs text-red-400 mt-1">Margin call: add funds or reduce positions</p>
+            )}
           </div>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* View */}
+        <div className="flex gap-2 mb-8">
+          {(['TRADING', 'ANALYTICS', 'LEDGER'] as const).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-4 py-2 rounded-lg ${view === v ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {v === 'TRADING' ? 'Trading' : v === 'ANALYTICS' ? 'Analytics' : 'Ledger'}
+            </button>
+          ))}
+        </div>
+
+        {view === 'ANALYTICS' && (
+          <AnalyticsView trades={trades} startingBalance={startingBalance} formatCurrency={formatCurrency} />
+        )}
+
+        {view === 'LEDGER' && (
+          <LedgerView
+            account={account}
+            onDeposit={(amount) => transferFunds('DEPOSIT', amount)}
+            onWithdraw={(amount) => transferFunds('WITHDRAW', amount)}
+            onDepositCollateral={depositCollateral}
+            onWithdrawCollateral={withdrawCollateral}
+            marks={marks}
+            transfersDisabled={onVenue}
+            formatCurrency={formatCurrency}
+            formatQuantity={formatQuantity}
+            formatDateTime={formatDateTime}
+          />
+        )}
+
+        {/* Kept mounted so the trading panel's inputs survive a trip to analytics */}
+        <div className={`grid grid-cols-1 lg:grid-cols-3 gap-8 ${view === 'TRADING' ? '' : 'hidden'}`}>
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-8">
             {/* Chart Section */}
@@ -377,56 +1552,48 @@ export default function CryptoTradingDashboard() {
                     {selectedSymbol.name} ({selectedSymbol.symbol})
                   </h2>
                   <div className="flex items-center mt-1">
-                    <span className="text-2xl font-bold mr-3">{formatCurrency(price)}</span>
+                    <span className="text-2xl font-bold mr-3">{formatPrice(price, selectedSymbol.symbol)}</span>
                     <span className={`px-2 py-1 rounded ${change24h >= 0 ? 'bg-green-900 text-green-400' : 'bg-red-900 text-red-400'}`}>
                       {formatPercent(change24h)}
                     </span>
                   </div>
                 </div>
-                <div className="flex space-x-2">
-                  {SYMBOLS.map(symbol => (
-                    <button
-                      key={symbol.symbol}
-                      onClick={() => setSelectedSymbol(symbol)}
-                      className={`px-3 py-1 rounded-lg ${selectedSymbol.symbol === symbol.symbol ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
-                    >
-                      {symbol.symbol}
-                    </button>
-                  ))}
+                <div className="grid grid-cols-3 gap-4 text-sm text-right">
+                  <div>
+                    <div className="text-gray-400">24h High</div>
+                    <div>{formatPrice(selectedMarket.stats.high24h, selectedSymbol.symbol)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-400">24h Low</div>
+                    <div>{formatPrice(selectedMarket.stats.low24h, selectedSymbol.symbol)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-400">24h Volume</div>
+                    <div>{formatQuantity(selectedMarket.stats.volume24h, selectedSymbol.symbol)} {selectedSymbol.symbol}</div>
+                  </div>
                 </div>
               </div>
               
-              <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={priceHistory}>
-                    <CartesianGrid strokeDasharray="3 3" stroke="#444" />
-                    <XAxis 
-                      dataKey="time" 
-                      tick={{ fill: '#999', fontSize: 12 }}
-                      tickLine={{ stroke: '#444' }}
-                    />
-                    <YAxis 
-                      domain={['auto', 'auto']} 
-                      tick={{ fill: '#999', fontSize: 12 }}
-                      tickLine={{ stroke: '#444' }}
-                      tickFormatter={(value) => `$${value.toLocaleString()}`}
-                    />
-                    <Tooltip 
-                      contentStyle={{ backgroundColor: '#1f2937', borderColor: '#374151' }}
-                      formatter={(value) => [formatCurrency(Number(value)), 'Price']}
-                      labelStyle={{ color: '#fff' }}
-                    />
-                    <Line 
-                      type="monotone" 
-                      dataKey="price" 
-                      stroke="#3b82f6" 
-                      strokeWidth={2} 
-                      dot={false} 
-                      activeDot={{ r: 6, fill: '#3b82f6' }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
+              <CandlestickChart
+                candles={selectedMarket.candles}
+                levels={chartLevels}
+                markers={chartMarkers}
+                formatPrice={(value) => formatPrice(value, selectedSymbol.symbol)}
+                formatVolume={formatVolume}
+              />
+            </div>
+
+            {/* Market Depth */}
+            <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+              <h2 className="text-xl font-bold mb-4">Market Depth</h2>
+              <OrderBookPanel
+                book={book}
+                tape={selectedMarket.tape}
+                formatPrice={(value) => formatPrice(value, selectedSymbol.symbol)}
+                formatSize={(value) => formatQuantity(value, selectedSymbol.symbol)}
+                formatClock={formatClock}
+                onSelectPrice={selectBookPrice}
+              />
             </div>
 
             {/* Trading Panel */}
@@ -436,44 +1603,159 @@ export default function CryptoTradingDashboard() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {/* Order Type */}
                 <div>
-                  <label className="block text-gray-400 mb-2">Order Type</label>
+                  <label className="block text-gray-400 mb-2">Position Mode</label>
                   <div className="flex space-x-4 mb-4">
                     <button
-                      onClick={() => setOrderType('MARKET')}
-                      className={`flex-1 py-2 rounded-lg ${orderType === 'MARKET' ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                      onClick={() => changePositionMode('ONE_WAY')}
+                      className={`flex-1 py-2 rounded-lg ${account.positionMode === 'ONE_WAY' ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
                     >
-                      Market
+                      One-way
                     </button>
                     <button
-                      onClick={() => setOrderType('LIMIT')}
-                      className={`flex-1 py-2 rounded-lg ${orderType === 'LIMIT' ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                      onClick={() => changePositionMode('HEDGE')}
+                      className={`flex-1 py-2 rounded-lg ${account.positionMode === 'HEDGE' ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
                     >
-                      Limit
+                      Hedge
                     </button>
                   </div>
                   
-                  {orderType === 'LIMIT' && (
+                  <label className="block text-gray-400 mb-2">Margin Mode</label>
+                  <div className="flex space-x-4 mb-4">
+                    <button
+                      onClick={() => changeMarginMode('CROSS')}
+                      disabled={onVenue}
+                      className={`flex-1 py-2 rounded-lg disabled:opacity-50 ${account.marginMode === 'CROSS' ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    >
+                      Cross
+                    </button>
+                    <button
+                      onClick={() => changeMarginMode('ISOLATED')}
+                      disabled={onVenue}
+                      className={`flex-1 py-2 rounded-lg disabled:opacity-50 ${account.marginMode === 'ISOLATED' ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    >
+                      Isolated
+                    </button>
+                  </div>
+                  
+                  <label className="block text-gray-400 mb-2">Order Type</label>
+                  <div className="grid grid-cols-3 gap-2 mb-4">
+                    {ORDER_TYPES.map(([type, label]) => (
+                      <button
+                        key={type}
+                        onClick={() => setOrderType(type)}
+                        className={`py-2 rounded-lg ${orderType === type ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  
+                  {orderType === 'OCO' && (
+                    <p className="text-xs text-gray-400 mb-4">A limit and a stop on the same side; whichever fills first cancels the other.</p>
+                  )}
+                  {orderType === 'BRACKET' && (
+                    <p className="text-xs text-gray-400 mb-4">A limit entry whose stop loss and take profit become linked exit orders once it fills.</p>
+                  )}
+                  
+                  {usesLimitPrice && (
                     <div className="mb-4">
-                      <label className="block text-gray-400 mb-2">Limit Price</label>
+                      <label className="block text-gray-400 mb-2">{orderType === 'BRACKET' ? 'Entry Price' : 'Limit Price'}</label>
                       <input
                         type="number"
                         value={limitPrice}
                         onChange={(e) => setLimitPrice(parseFloat(e.target.value) || 0)}
-                        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        className={ticketInputClass('price')}
                       />
+                      {fieldError('price') && <p className="text-xs text-red-400 mt-1">{fieldError('price')}</p>}
                     </div>
                   )}
                   
-                  <div className="mb-4">
-                    <label className="block text-gray-400 mb-2">Quantity ({selectedSymbol.symbol})</label>
-                    <input
-                      type="number"
-                      value={quantity}
-                      onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
-                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
+                  {usesStopPrice && (
+                    <div className="mb-4">
+                      <label className="block text-gray-400 mb-2">Stop Price</label>
+                      <input
+                        type="number"
+                        value={stopPrice}
+                        onChange={(e) => setStopPrice(parseFloat(e.target.value) || 0)}
+                        className={ticketInputClass('stopPrice')}
+                      />
+                      {fieldError('stopPrice') && <p className="text-xs text-red-400 mt-1">{fieldError('stopPrice')}</p>}
+                    </div>
+                  )}
+                  
+                  {(orderType === 'LIMIT' || orderType === 'BRACKET') && (
+                    <>
+                      <div className="mb-4">
+                        <label className="block text-gray-400 mb-2">Time in Force</label>
+                        <select
+                          value={timeInForce}
+                          onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+                          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="GTC">Good Till Cancelled</option>
+                          <option value="IOC">Immediate or Cancel</option>
+                          <option value="FOK">Fill or Kill</option>
+                          <option value="POST_ONLY">Post Only</option>
+                        </select>
+                      </div>
+                    </>
+                  )}
+                  
+                  <label className="block text-gray-400 mb-2">Sizing</label>
+                  <div className="flex space-x-4 mb-4">
+                    <button
+                      onClick={() => setSizingMode('QUANTITY')}
+                      className={`flex-1 py-2 rounded-lg ${sizingMode === 'QUANTITY' ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    >
+                      Quantity
+                    </button>
+                    <button
+                      onClick={() => setSizingMode('RISK')}
+                      className={`flex-1 py-2 rounded-lg ${sizingMode === 'RISK' ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    >
+                      Risk
+                    </button>
                   </div>
                   
+                  {sizingMode === 'QUANTITY' ? (
+                    <div className="mb-4">
+                      <label className="block text-gray-400 mb-2">Quantity ({selectedSymbol.symbol})</label>
+                      <input
+                        type="number"
+                        value={quantity}
+                        onChange={(e) => setQuantity(parseFloat(e.target.value) || 0)}
+                        className={ticketInputClass('quantity')}
+                      />
+                      {fieldError('quantity') && <p className="text-xs text-red-400 mt-1">{fieldError('quantity')}</p>}
+                    </div>
+                  ) : (
+                    <div className="mb-4">
+                      <label className="block text-gray-400 mb-2">Risk per Trade</label>
+                      <div className="flex space-x-2">
+                        <input
+                          type="number"
+                          value={riskValue}
+                          onChange={(e) => setRiskValue(parseFloat(e.target.value) || 0)}
+                          className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <select
+                          value={riskUnit}
+                          onChange={(e) => setRiskUnit(e.target.value as RiskUnit)}
+                          className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="PERCENT">% Equity</option>
+                          <option value="AMOUNT">{QUOTE_ASSET}</option>
+                        </select>
+                      </div>
+                      <p className={`text-xs mt-1 ${fieldError('quantity') ? 'text-red-400' : 'text-gray-400'}`}>
+                        {stopLoss
+                          ? `Quantity: ${formatQuantity(orderQuantity, selectedSymbol.symbol)} ${selectedSymbol.symbol}`
+                          : 'Enter a stop loss to size the position'}
+                        {stopLoss > 0 && fieldError('quantity') && ` · ${fieldError('quantity')}`}
+                      </p>
+                    </div>
+                  )}
+                  
                   <div className="mb-4">
                     <label className="block text-gray-400 mb-2">Leverage: {leverage}x</label>
                     <input
@@ -499,22 +1781,155 @@ export default function CryptoTradingDashboard() {
                       type="number"
                       value={stopLoss || ''}
                       onChange={(e) => setStopLoss(parseFloat(e.target.value) || 0)}
-                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      className={ticketInputClass('stopLoss')}
                       placeholder="None"
                     />
+                    {fieldError('stopLoss') && <p className="text-xs text-red-400 mt-1">{fieldError('stopLoss')}</p>}
                   </div>
                   
-                  <div className="mb-6">
+                  <div className="mb-4">
                     <label className="block text-gray-400 mb-2">Take Profit</label>
                     <input
                       type="number"
                       value={takeProfit || ''}
                       onChange={(e) => setTakeProfit(parseFloat(e.target.value) || 0)}
-                      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      className={ticketInputClass('takeProfit')}
                       placeholder="None"
                     />
+                    {fieldError('takeProfit') && <p className="text-xs text-red-400 mt-1">{fieldError('takeProfit')}</p>}
                   </div>
                   
+                  {orderType !== 'BRACKET' && (
+                    <div className="mb-4">
+                      <label className="block text-gray-400 mb-2">Trailing Stop Distance</label>
+                      <input
+                        type="number"
+                        value={trailingDistance || ''}
+                        onChange={(e) => setTrailingDistance(parseFloat(e.target.value) || 0)}
+                        className={ticketInputClass('trailingDistance')}
+                        placeholder="None"
+                      />
+                      {fieldError('trailingDistance') && <p className="text-xs text-red-400 mt-1">{fieldError('trailingDistance')}</p>}
+                    </div>
+                  )}
+                  
+                  <label className="flex items-center mb-6 text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={reduceOnly}
+                      onChange={(e) => setReduceOnly(e.target.checked)}
+                      className="mr-2 accent-blue-500"
+                    />
+                    Reduce Only
+                  </label>
+                  
+                  {/* Order Preview */}
+                  <div className="bg-gray-700 rounded-lg p-4 mb-6 text-sm space-y-1">
+                    <div className="flex justify-between text-gray-400 mb-1">
+                      <span>Preview</span>
+                      <span className={preview.side === 'BUY' ? 'text-green-400' : 'text-red-400'}>
+                        {preview.side === 'BUY' ? 'LONG' : 'SHORT'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">{orderType === 'MARKET' ? 'Est. Fill' : 'Price'}</span>
+                      <span>{formatPrice(preview.fillPrice, selectedSymbol.symbol)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Notional</span>
+                      <span>{formatCurrency(preview.notional)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Margin</span>
+                      <span>{formatCurrency(preview.margin)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Est. Fee</span>
+                      <span>{formatCurrency(preview.fee)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Risk / Reward</span>
+                      <span>
+                        {preview.risk !== null ? formatCurrency(preview.risk) : '-'}
+                        {' / '}
+                        {preview.reward !== null ? formatCurrency(preview.reward) : '-'}
+                        {preview.riskReward !== null && ` (${preview.riskReward.toFixed(2)}R)`}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Liq. Price</span>
+                      <span className="text-yellow-500">
+                        {preview.liquidationPrice !== null ? formatPrice(preview.liquidationPrice, selectedSymbol.symbol) : '-'}
+                      </span>
+                    </div>
+                    {preview.error && orderQuantity > 0 && (
+                      <p className="text-xs text-red-400 pt-1">{preview.error.message}</p>
+                    )}
+                  </div>
+                  
+                  <details className="mb-6 text-sm">
+                    <summary className="cursor-pointer text-gray-400">Fees &amp; Funding</summary>
+                    <div className="grid grid-cols-2 gap-3 mt-3">
+                      {([
+                        ['makerFeeBps', 'Maker Fee (bps)', 1],
+                        ['takerFeeBps', 'Taker Fee (bps)', 1],
+                        ['fundingRate', 'Funding Rate', 1],
+                        ['fundingIntervalMs', 'Funding Interval (h)', 1 / 3600000]
+                      ] as [keyof CostConfig, string, number][]).map(([key, label, scale]) => (
+                        <div key={key}>
+                          <label className="block text-gray-400 mb-1">{label}</label>
+                          <input
+                            type="number"
+                            value={costs[key] * scale}
+                            step={key === 'fundingRate' ? 0.0001 : 1}
+                            onChange={(e) => changeCost(key, parseFloat(e.target.value) / scale)}
+                            disabled={onVenue}
+                            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </details>
+                  
+                  <details className="mb-6 text-sm">
+                    <summary className="cursor-pointer text-gray-400">Risk Limits (0 = off)</summary>
+                    <div className="grid grid-cols-2 gap-3 mt-3">
+                      <div>
+                        <label className="block text-gray-400 mb-1">Max Leverage ({selectedSymbol.symbol})</label>
+                        <input
+                          type="number"
+                          value={account.riskLimits.maxLeverage[selectedSymbol.symbol] ?? 0}
+                          onChange={(e) => changeMaxLeverage(selectedSymbol.symbol, parseFloat(e.target.value) || 0)}
+                          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      {([
+                        ['maxOpenNotional', 'Max Open Notional'],
+                        ['maxPositionsPerSymbol', 'Max Positions / Symbol'],
+                        ['dailyLossLimit', 'Daily Loss Limit'],
+                        ['maxDrawdownPercent', 'Max Drawdown (%)']
+                      ] as [Exclude<keyof RiskLimits, 'maxLeverage'>, string][]).map(([key, label]) => (
+                        <div key={key}>
+                          <label className="block text-gray-400 mb-1">{label}</label>
+                          <input
+                            type="number"
+                            value={account.riskLimits[key]}
+                            onChange={(e) => changeRiskLimit(key, parseFloat(e.target.value) || 0)}
+                            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-400 mt-3">
+                      <span>Today: {formatCurrency(-dailyLoss(account, marks))}</span>
+                      <span>From peak: -{drawdownPercent(account, marks).toFixed(2)}%</span>
+                    </div>
+                  </details>
+                  
+                  {riskLock && (
+                    <p className="mb-4 text-sm text-red-400 bg-red-900/30 rounded-lg px-3 py-2">{riskLock.message}</p>
+                  )}
+                  
                   <div className="grid grid-cols-2 gap-4">
                     <button
                       onClick={handleBuy}
@@ -536,6 +1951,51 @@ export default function CryptoTradingDashboard() {
 
           {/* Sidebar */}
           <div className="space-y-8">
+            {/* Watchlist */}
+            <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+              <h2 className="text-xl font-bold mb-4">Markets</h2>
+              <Watchlist
+                market={market}
+                selectedSymbol={selectedSymbol.symbol}
+                onSelect={selectSymbol}
+                formatPrice={formatPrice}
+                formatPercent={formatPercent}
+                formatVolume={formatVolume}
+              />
+            </div>
+            
+            {/* Bots */}
+            <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+              <h2 className="text-xl font-bold mb-4">Bots</h2>
+              {onVenue && <p className="text-xs text-yellow-500 mb-3">Bots are paused while connected to an exchange</p>}
+              <BotsPanel
+                bots={bots}
+                account={account}
+                marks={marks}
+                symbol={selectedSymbol.symbol}
+                onAdd={addBot}
+                onToggle={toggleBot}
+                onRemove={removeBot}
+                onBacktest={backtestBot}
+                formatCurrency={formatCurrency}
+                formatClock={formatClock}
+              />
+            </div>
+            
+            {/* Keyboard */}
+            <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold">Keyboard</h2>
+                <button
+                  onClick={() => setPaletteOpen(true)}
+                  className="text-sm bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded"
+                >
+                  Command Palette
+                </button>
+              </div>
+              <HotkeysPanel settings={hotkeys} onChange={changeHotkeys} />
+            </div>
+            
             {/* Positions */}
             <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
               <div className="flex justify-between items-center mb-4">
@@ -562,48 +2022,458 @@ export default function CryptoTradingDashboard() {
                             {position.side}
                           </span>
                         </div>
-                        <span>{position.quantity} {position.symbol}</span>
+                        <span>{formatQuantity(position.quantity, position.symbol)} {position.symbol}</span>
                       </div>
                       
                       <div className="flex justify-between text-sm text-gray-400 mb-1">
                         <span>Entry:</span>
-                        <span>{formatCurrency(position.entryPrice)}</span>
+                        <span>{formatPrice(position.entryPrice, position.symbol)}</span>
                       </div>
                       
                       <div className="flex justify-between text-sm text-gray-400 mb-1">
                         <span>Current:</span>
-                        <span>{formatCurrency(price)}</span>
+                        <span>{formatPrice(markFor(marks, position), position.symbol)}</span>
                       </div>
                       
                       <div className="flex justify-between text-sm mb-1">
                         <span>PnL:</span>
-                        <span className={`${(price - position.entryPrice) * position.quantity * position.leverage >= 0 ? 'text-green-500' : 'text-red-500'}`}>
-                          {formatCurrency((price - position.entryPrice) * position.quantity * position.leverage)}
+                        <span className={`${positionPnl(position, markFor(marks, position)) >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                          {formatCurrency(positionPnl(position, markFor(marks, position)))}
                         </span>
                       </div>
                       
-                      <div className="flex justify-between text-sm text-gray-400">
+                      <div className="flex justify-between text-sm text-gray-400 mb-1">
                         <span>Leverage:</span>
-                        <span>{position.leverage}x</span>
+                        <span>{formatLeverage(position.leverage)} {position.marginMode === 'CROSS' ? 'Cross' : 'Isolated'}</span>
+                      </div>
+                      
+                      <div className="flex justify-between text-sm text-gray-400 mb-1">
+                        <span>Liq. Price:</span>
+                        <span className="text-yellow-500">
+                          {(() => {
+                            const liqPrice = liquidationPrice(account, position, marks);
+                            return liqPrice === null ? '—' : formatPrice(liqPrice, position.symbol);
+                          })()}
+                        </span>
+                      </div>
+                      
+                      {editingProtection?.positionId === position.id ? (
+                        <div className="space-y-2 mt-3">
+                          <input
+                            type="number"
+                            value={editingProtection.stopLoss || ''}
+                            onChange={(e) => setEditingProtection({ ...editingProtection, stopLoss: parseFloat(e.target.value) || 0 })}
+                            className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-1 text-sm"
+                            placeholder="Stop Loss"
+                          />
+                          <input
+                            type="number"
+                            value={editingProtection.takeProfit || ''}
+                            onChange={(e) => setEditingProtection({ ...editingProtection, takeProfit: parseFloat(e.target.value) || 0 })}
+                            className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-1 text-sm"
+                            placeholder="Take Profit"
+                          />
+                          <input
+                            type="number"
+                            value={editingProtection.trailingDistance || ''}
+                            onChange={(e) => setEditingProtection({ ...editingProtection, trailingDistance: parseFloat(e.target.value) || 0 })}
+                            className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-1 text-sm"
+                            placeholder="Trailing Distance"
+                          />
+                          <div className="flex space-x-2">
+                            <button onClick={saveProtection} className="flex-1 text-sm bg-blue-600 hover:bg-blue-700 py-1 rounded">
+                              Save
+                            </button>
+                            <button onClick={() => setEditingProtection(null)} className="flex-1 text-sm bg-gray-600 hover:bg-gray-500 py-1 rounded">
+                              Discard
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          <div className="flex justify-between text-sm text-gray-400 mb-1">
+                            <span>SL / TP:</span>
+                            <span>
+                              {position.stopLoss !== undefined ? formatPrice(position.stopLoss, position.symbol) : '—'}
+                              {' / '}
+                              {position.takeProfit !== undefined ? formatPrice(position.takeProfit, position.symbol) : '—'}
+                            </span>
+                          </div>
+                          
+                          {position.trailingDistance !== undefined && (
+                            <div className="flex justify-between text-sm text-gray-400 mb-1">
+                              <span>Trailing:</span>
+                              <span>{formatPrice(position.trailingDistance, position.symbol)}</span>
+                            </div>
+                          )}
+                          
+                          {!onVenue && (
+                            <button
+                              onClick={() => setEditingProtection({
+                                positionId: position.id,
+                                stopLoss: position.stopLoss ?? 0,
+                                takeProfit: position.takeProfit ?? 0,
+                                trailingDistance: position.trailingDistance ?? 0
+                              })}
+                              className="w-full mt-2 text-sm bg-gray-600 hover:bg-gray-500 py-1 rounded"
+                            >
+                              Edit SL/TP
+                            </button>
+                          )}
+                        </>
+                      )}
+                      
+                      {adjustingLeverage?.positionId === position.id ? (
+                        <div className="grid grid-cols-2 gap-2 mt-3 text-sm">
+                          <div>
+                            <label className="block text-gray-400 mb-1">Leverage</label>
+                            <input
+                              type="number"
+                              value={adjustingLeverage.leverage || ''}
+                              onChange={(e) => setAdjustingLeverage({ ...adjustingLeverage, leverage: parseFloat(e.target.value) || 0 })}
+                              className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-1"
+                            />
+                          </div>
+                          <div>
+                            <label className="block text-gray-400 mb-1">Add margin</label>
+                            <input
+                              type="number"
+                              value={adjustingLeverage.leverage > 0
+                                ? parseFloat((positionNotional(position) / adjustingLeverage.leverage - positionMargin(position)).toFixed(2))
+                                : ''}
+                              onChange={(e) => setAdjustingLeverage({
+                                ...adjustingLeverage,
+                                leverage: leverageWithMargin(position, parseFloat(e.target.value) || 0)
+                              })}
+                              className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-1"
+                            />
+                          </div>
+                          <button onClick={saveLeverage} className="bg-blue-600 hover:bg-blue-700 py-1 rounded">
+                            Save
+                          </button>
+                          <button onClick={() => setAdjustingLeverage(null)} className="bg-gray-600 hover:bg-gray-500 py-1 rounded">
+                            Discard
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="grid grid-cols-4 gap-2 mt-2 text-sm">
+                          {CLOSE_FRACTIONS.map(fraction => (
+                            <button
+                              key={fraction}
+                              onClick={() => closePositionPart(position, fraction)}
+                              className="bg-gray-600 hover:bg-gray-500 py-1 rounded"
+                            >
+                              {fraction * 100}%
+                            </button>
+                          ))}
+                          <button
+                            onClick={() => reversePosition(position)}
+                            className={`${onVenue ? 'col-span-4' : 'col-span-2'} bg-gray-600 hover:bg-gray-500 py-1 rounded`}
+                          >
+                            Reverse
+                          </button>
+                          {!onVenue && (
+                            <button
+                              onClick={() => setAdjustingLeverage({ positionId: position.id, leverage: position.leverage })}
+                              className="col-span-2 bg-gray-600 hover:bg-gray-500 py-1 rounded"
+                            >
+                              Margin
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      
+                      {position.lots.length > 1 && (
+                        <details className="mt-2 text-sm">
+                          <summary className="cursor-pointer text-gray-400">Lots ({position.lots.length})</summary>
+                          <div className="mt-2 space-y-1 text-xs">
+                            {position.lots.map(lot => (
+                              <div key={lot.id} className="flex justify-between text-gray-300">
+                                <span className="text-gray-500">{formatDateTime(lot.timestamp)}</span>
+                                <span>{formatQuantity(lot.quantity, position.symbol)} @ {formatPrice(lot.price, position.symbol)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </details>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            
+            {/* Open Orders */}
+            <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+              <h2 className="text-xl font-bold mb-4">Open Orders</h2>
+              
+              {orders.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">No open orders</p>
+              ) : (
+                <div className="space-y-3">
+                  {orders.map(order => (
+                    <div key={order.id} className="bg-gray-700 rounded-lg p-4">
+                      <div className="flex justify-between mb-2">
+                        <div>
+                          <span className="font-bold">{order.symbol}</span>
+                          <span className={`ml-2 px-2 py-1 rounded text-xs ${order.side === 'BUY' ? 'bg-green-900 text-green-400' : 'bg-red-900 text-red-400'}`}>
+                            {order.side}
+                          </span>
+                          <span className="ml-2 text-xs text-gray-400">
+                            {pendingOrderLabel(order)}
+                            {order.type === 'LIMIT' && !order.groupId && ` · ${order.timeInForce}`}
+                          </span>
+                        </div>
+                        <span>{formatQuantity(order.quantity, order.symbol)} {order.symbol}</span>
                       </div>
+                      
+                      {amending?.orderId === order.id ? (
+                        <div className="space-y-2">
+                          <input
+                            type="number"
+                            value={amending.limitPrice}
+                            onChange={(e) => setAmending({ ...amending, limitPrice: parseFloat(e.target.value) || 0 })}
+                            className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-1 text-sm"
+                          />
+                          <input
+                            type="number"
+                            value={amending.quantity}
+                            onChange={(e) => setAmending({ ...amending, quantity: parseFloat(e.target.value) || 0 })}
+                            className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-1 text-sm"
+                          />
+                          <div className="flex space-x-2">
+                            <button onClick={saveAmendment} className="flex-1 text-sm bg-blue-600 hover:bg-blue-700 py-1 rounded">
+                              Save
+                            </button>
+                            <button onClick={() => setAmending(null)} className="flex-1 text-sm bg-gray-600 hover:bg-gray-500 py-1 rounded">
+                              Discard
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          {order.type !== 'STOP_MARKET' && (
+                            <div className="flex justify-between text-sm text-gray-400 mb-1">
+                              <span>Limit:</span>
+                              <span>{formatPrice(order.limitPrice, order.symbol)}</span>
+                            </div>
+                          )}
+                          
+                          {order.stopPrice !== undefined && (
+                            <div className="flex justify-between text-sm text-gray-400 mb-1">
+                              <span>Stop:</span>
+                              <span>{formatPrice(order.stopPrice, order.symbol)}</span>
+                            </div>
+                          )}
+                          
+                          {!isArmed(account, order) && (
+                            <p className="text-xs text-yellow-500 mb-1">Waiting for the entry to fill</p>
+                          )}
+                          
+                          <div className="flex justify-between text-sm text-gray-400 mb-3">
+                            <span>Reserved:</span>
+                            <span>{formatCurrency(order.reservedMargin)}</span>
+                          </div>
+                          
+                          <div className="flex space-x-2">
+                            {order.type === 'LIMIT' && !order.groupId && (
+                              <button
+                                onClick={() => setAmending({ orderId: order.id, limitPrice: order.limitPrice, quantity: order.quantity })}
+                                className="flex-1 text-sm bg-gray-600 hover:bg-gray-500 py-1 rounded"
+                              >
+                                Amend
+                              </button>
+                            )}
+                            <button
+                              onClick={() => cancelOrder(order.id)}
+                              className="flex-1 text-sm bg-gray-600 hover:bg-gray-500 py-1 rounded"
+                            >
+                              {order.groupId ? 'Cancel Group' : 'Cancel'}
+                            </button>
+                          </div>
+                        </>
+                      )}
                     </div>
                   ))}
                 </div>
               )}
             </div>
             
+            {/* Price Alerts */}
+            <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold">Price Alerts</h2>
+                <button
+                  onClick={enableBrowserNotifications}
+                  disabled={browserNotifications}
+                  className="text-xs bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded disabled:opacity-50"
+                >
+                  {browserNotifications ? 'Browser alerts on' : 'Enable browser alerts'}
+                </button>
+              </div>
+              
+              <div className="flex flex-wrap gap-2 mb-4 text-sm">
+                <select
+                  value={alertForm.type}
+                  onChange={(e) => setAlertForm({ ...alertForm, type: e.target.value as AlertForm['type'] })}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="CROSS_ABOVE">Crosses above</option>
+                  <option value="CROSS_BELOW">Crosses below</option>
+                  <option value="PERCENT_MOVE">Moves %</option>
+                  <option value="INDICATOR">Indicator</option>
+                </select>
+                {(alertForm.type === 'CROSS_ABOVE' || alertForm.type === 'CROSS_BELOW') && (
+                  <input
+                    type="number"
+                    value={alertForm.price || ''}
+                    onChange={(e) => setAlertForm({ ...alertForm, price: parseFloat(e.target.value) || 0 })}
+                    placeholder={String(price)}
+                    className="w-28 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
+                {alertForm.type === 'PERCENT_MOVE' && (
+                  <>
+                    <input
+                      type="number"
+                      value={alertForm.percent}
+                      onChange={(e) => setAlertForm({ ...alertForm, percent: parseFloat(e.target.value) || 0 })}
+                      className="w-20 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <select
+                      value={alertForm.window}
+                      onChange={(e) => setAlertForm({ ...alertForm, window: e.target.value })}
+                      className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {Object.keys(ALERT_WINDOWS).map(window => (
+                        <option key={window} value={window}>{window}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+                {alertForm.type === 'INDICATOR' && (
+                  <>
+                    <select
+                      value={alertForm.indicator}
+                      onChange={(e) => setAlertForm({ ...alertForm, indicator: e.target.value as AlertIndicator })}
+                      className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="RSI">RSI</option>
+                      <option value="SMA">Price vs SMA</option>
+                      <option value="EMA">Price vs EMA</option>
+                    </select>
+                    <input
+                      type="number"
+                      value={alertForm.period}
+                      onChange={(e) => setAlertForm({ ...alertForm, period: parseInt(e.target.value) || 0 })}
+                      title="Period"
+                      className="w-16 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <select
+                      value={alertForm.operator}
+                      onChange={(e) => setAlertForm({ ...alertForm, operator: e.target.value as AlertForm['operator'] })}
+                      className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="ABOVE">Above</option>
+                      <option value="BELOW">Below</option>
+                    </select>
+                    {alertForm.indicator === 'RSI' && (
+                      <input
+                        type="number"
+                        value={alertForm.value}
+                        onChange={(e) => setAlertForm({ ...alertForm, value: parseFloat(e.target.value) || 0 })}
+                        className="w-16 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    )}
+                  </>
+                )}
+                <button
+                  onClick={addAlert}
+                  className="bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded-lg"
+                >
+                  Add {selectedSymbol.symbol}
+                </button>
+              </div>
+              
+              {account.alerts.length === 0 ? (
+                <p className="text-gray-500 text-center py-4">No alerts</p>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto pr-2">
+                  {account.alerts.map(alert => (
+                    <div key={alert.id} className="bg-gray-700 rounded-lg p-3 text-sm flex justify-between items-center">
+                      <div>
+                        <div className={alert.triggeredAt !== undefined ? 'text-gray-400' : ''}>{describeAlert(alert)}</div>
+                        {alert.triggeredAt !== undefined && alert.triggerPrice !== undefined && (
+                          <div className="text-xs text-yellow-500">
+                            Triggered {formatClock(alert.triggeredAt)} at {formatPrice(alert.triggerPrice, alert.symbol)}
+                          </div>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => removeAlert(alert.id)}
+                        className="text-xs bg-gray-600 hover:bg-gray-500 px-2 py-1 rounded"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            
+            {/* Risk Blocks */}
+            {account.riskBlocks.length > 0 && (
+              <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
+                <h2 className="text-xl font-bold mb-4">Blocked Orders</h2>
+                <div className="space-y-3 max-h-64 overflow-y-auto pr-2">
+                  {account.riskBlocks.map((block, i) => (
+                    <div key={`${block.timestamp}-${i}`} className="bg-gray-700 rounded-lg p-3 text-sm">
+                      <div className="flex justify-between mb-1">
+                        <span className="font-bold">{block.side} {formatQuantity(block.quantity, block.symbol)} {block.symbol} @ {block.leverage}x</span>
+                        <span className="text-gray-400">{formatClock(block.timestamp)}</span>
+                      </div>
+                      <div className="text-xs text-red-400">{block.reason}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             {/* Recent Trades */}
             <div className="bg-gray-800 rounded-xl p-6 shadow-lg">
               <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-bold">Recent Trades</h2>
                 <button 
                   onClick={resetAccount}
-                  className="text-sm bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded"
+                  disabled={onVenue}
+                  className="text-sm bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded disabled:opacity-50"
                 >
                   Reset Account
                 </button>
               </div>
               
+              <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+                <span className="text-gray-400">Journal:</span>
+                {(['trades', 'positions', 'account', 'collateral'] as const).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => exportJournal(kind)}
+                    className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded capitalize"
+                  >
+                    {kind} CSV
+                  </button>
+                ))}
+                <button
+                  onClick={() => exportJournal('json')}
+                  className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded"
+                >
+                  JSON
+                </button>
+                <label className="bg-gray-700 hover:bg-gray-600 px-2 py-1 rounded cursor-pointer">
+                  Import
+                  <input type="file" accept="application/json,.json" onChange={importJournalFile} className="hidden" />
+                </label>
+              </div>
+              
               {trades.length === 0 ? (
                 <p className="text-gray-500 text-center py-4">No recent trades</p>
               ) : (
@@ -623,12 +2493,16 @@ export default function CryptoTradingDashboard() {
                       </div>
                       
                       <div className="flex justify-between text-sm text-gray-400">
-                        <span>{new Date(trade.timestamp).toLocaleTimeString()}</span>
-                        <span>{trade.quantity} {trade.symbol} @ {formatCurrency(trade.price)}</span>
+                        <span>{formatClock(trade.timestamp)}</span>
+                        <span>{formatQuantity(trade.quantity, trade.symbol)} {trade.symbol} @ {formatPrice(trade.price, trade.symbol)}</span>
                       </div>
                       
-                      <div className="text-xs text-gray-500 mt-1">
-                        {trade.closeReason}
+                      <div className="flex justify-between text-xs text-gray-500 mt-1">
+                        <span>{trade.closeReason || 'Open'}</span>
+                        <span>
+                          Fee {formatCurrency(trade.fee)}
+                          {trade.funding !== 0 && ` · Funding ${formatCurrency(trade.funding)}`}
+                        </span>
                       </div>
                     </div>
                   ))}
@@ -638,6 +2512,51 @@ export default function CryptoTradingDashboard() {
           </div>
         </div>
       </div>
+
+      {/* Command Palette */}
+      {paletteOpen && (
+        <div className="fixed inset-0 bg-black/50 flex items-start justify-center pt-32 z-50" onClick={() => setPaletteOpen(false)}>
+          <div className="bg-gray-800 rounded-xl p-4 shadow-lg w-full max-w-xl" onClick={(e) => e.stopPropagation()}>
+            <input
+              autoFocus
+              value={paletteText}
+              onChange={(e) => setPaletteText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitPalette();
+                if (e.key === 'Escape') setPaletteOpen(false);
+              }}
+              placeholder="buy 0.5 eth limit 2300 sl 2200 tp 2600"
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-4 py-3 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className={`text-sm mt-2 ${paletteLine === null ? 'text-gray-500' : paletteLine.ok ? 'text-gray-300' : 'text-red-400'}`}>
+              {paletteLine === null
+                ? 'buy|sell <qty|$amount> [symbol] [limit|stop <price>] [sl <price>] [tp <price>] [10x] [reduce] · close all · flatten [symbol] · cancel all|[symbol] · lev <n> · <symbol>'
+                : paletteLine.text}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Order Confirmation */}
+      {confirming && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-gray-800 rounded-xl p-6 shadow-lg w-full max-w-md">
+            <h2 className="text-xl font-bold mb-2">Confirm order</h2>
+            <p className="text-gray-300 mb-1">{describeCommand(confirming)}</p>
+            <p className="text-xs text-gray-500 mb-4">
+              {confirming.type === 'ORDER' && !confirming.symbol && `On ${selectedSymbol.symbol} · `}Enter to send, Escape to cancel
+            </p>
+            <div className="flex space-x-2">
+              <button onClick={confirmCommand} className="flex-1 bg-blue-600 hover:bg-blue-700 py-2 rounded-lg font-medium">
+                Send
+              </button>
+              <button onClick={() => setConfirming(null)} className="flex-1 bg-gray-600 hover:bg-gray-500 py-2 rounded-lg">
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededFeed } from './priceFeed';
+import { markPrices } from './marketData';
+
+const START = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+// Ticks relative to the session start, so sessions started at different times can be compared
+const session = (seed: number, start: number, elapsedMs = 30000) => {
+  const feed = createSeededFeed(seed);
+  const market = feed.initialMarket(start);
+  const ticks = feed.advance(elapsedMs).map(t => ({ ...t, timestamp: t.timestamp - start }));
+  return { marks: markPrices(market), ticks };
+};
+
+describe('seeded feed', () => {
+  it('plays the same ticks whenever the session starts', () => {
+    const first = session(42, START);
+    expect(first.ticks.length).toBeGreaterThan(0);
+    [1000, 7000, 59000, 3600000].forEach(offset => {
+      const later = session(42, START + offset);
+      expect(later.marks).toEqual(first.marks);
+      expect(later.ticks).toEqual(first.ticks);
+    });
+  });
+
+  it('replays the session when restarted', () => {
+    const feed = createSeededFeed(7);
+    feed.initialMarket(START);
+    const first = feed.advance(30000);
+    feed.initialMarket(START);
+    expect(feed.advance(30000)).toEqual(first);
+  });
+
+  it('plays different ticks for different seeds', () => {
+    expect(session(1, START).ticks).not.toEqual(session(2, START).ticks);
+  });
+});
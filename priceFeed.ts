@@ -0,0 +1,250 @@
+import { BASE_INTERVAL_MS, Candle } from './candles';
+import {
+  MarketState,
+  PriceTick,
+  SYMBOLS,
+  TICK_INTERVAL_MS,
+  createEmptySymbolMarket,
+  markPrices,
+  randomWalkStep,
+  seedMarketState,
+  tickVolume
+} from './marketData';
+
+export type PriceFeed = {
+  name: string;
+  // Builds the market the feed starts from and resets the feed clock
+  initialMarket: (now: number) => MarketState;
+  // Ticks covering the next `elapsedMs` of feed time
+  advance: (elapsedMs: number) => PriceTick[];
+  // Ticks for the next single timestamp
+  step: () => PriceTick[];
+  // True once a finite feed has nothing left to play
+  done: () => boolean;
+};
+
+export type ReplayCandle = Candle & { symbol: string };
+
+// Playback multipliers offered by the feed controls; 0 pauses
+export const FEED_SPEEDS = [0, 1, 10, 100];
+
+// mulberry32: small, fast and good enough for a price simulation
+export const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// The pre-built history and the live ticks draw from separate streams, so how much history a start time
+// needs never shifts the ticks that follow; each session asks for fresh streams
+export type RandomStreams = (stream: 'HISTORY' | 'LIVE') => () => number;
+
+const HISTORY_STREAM_SALT = 0x9e3779b9;
+
+export const createRandomWalkFeed = (streams: RandomStreams = () => Math.random, name = 'Random walk'): PriceFeed => {
+  let clock = 0;
+  let pending = 0;
+  let prices: Record<string, number> = {};
+  let random = streams('LIVE');
+
+  const emit = (): PriceTick[] => {
+    clock += TICK_INTERVAL_MS;
+    return SYMBOLS.map(info => {
+      const price = randomWalkStep(info, prices[info.symbol], random);
+      prices[info.symbol] = price;
+      return { symbol: info.symbol, timestamp: clock, price, volume: tickVolume(info, random) };
+    });
+  };
+
+  return {
+    name,
+    initialMarket: (now) => {
+      const market = seedMarketState(now, streams('HISTORY'));
+      random = streams('LIVE');
+      clock = now;
+      pending = 0;
+      prices = markPrices(market);
+      return market;
+    },
+    advance: (elapsedMs) => {
+      pending += elapsedMs;
+      const ticks: PriceTick[] = [];
+      while (pending >= TICK_INTERVAL_MS) {
+        pending -= TICK_INTERVAL_MS;
+        ticks.push(...emit());
+      }
+      return ticks;
+    },
+    step: emit,
+    done: () => false
+  };
+};
+
+// Same seed, same ticks from whenever the session starts; only the history before it depends on the start time
+export const createSeededFeed = (seed: number) =>
+  createRandomWalkFeed(
+    stream => seededRandom(stream === 'HISTORY' ? seed ^ HISTORY_STREAM_SALT : seed),
+    `Seeded #${seed}`
+  );
+
+// Walks each candle open → low/high → close, ending before the next candle opens
+const candleTicks = (candle: ReplayCandle, intervalMs: number): PriceTick[] => {
+  const path = candle.close >= candle.open
+    ? [candle.open, candle.low, candle.high, candle.close]
+    : [candle.open, candle.high, candle.low, candle.close];
+  return path.map((price, i) => ({
+    symbol: candle.symbol,
+    timestamp: candle.time + (i * intervalMs) / path.length,
+    price,
+    volume: candle.volume / path.length
+  }));
+};
+
+export const createReplayFeed = (candles: ReplayCandle[], name = 'Replay'): PriceFeed => {
+  if (candles.length === 0) throw new Error('Replay needs at least one candle');
+
+  const sorted = [...candles].sort((a, b) => a.time - b.time);
+  // Each candle spans until the same symbol's next candle; the last one gets a minute
+  const nextOpen = new Map<string, number>();
+  const ticks: PriceTick[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const candle = sorted[i];
+    const next = nextOpen.get(candle.symbol);
+    ticks.push(...candleTicks(candle, next !== undefined ? next - candle.time : BASE_INTERVAL_MS));
+    nextOpen.set(candle.symbol, candle.time);
+  }
+  ticks.sort((a, b) => a.timestamp - b.timestamp);
+
+  const start = ticks[0].timestamp;
+  let clock = start;
+  let cursor = 0;
+
+  const takeUntil = (time: number) => {
+    const taken: PriceTick[] = [];
+    while (cursor < ticks.length && ticks[cursor].timestamp <= time) taken.push(ticks[cursor++]);
+    return taken;
+  };
+
+  return {
+    name,
+    // Replayed symbols open at their first candle; the rest stay at their base price
+    initialMarket: () => {
+      clock = start;
+      cursor = 0;
+      return SYMBOLS.reduce<MarketState>((acc, info) => {
+        const first = sorted.find(c => c.symbol === info.symbol);
+        acc[info.symbol] = createEmptySymbolMarket(info.symbol, first ? first.open : info.basePrice, start);
+        return acc;
+      }, {});
+    },
+    advance: (elapsedMs) => {
+      clock += elapsedMs;
+      return takeUntil(clock);
+    },
+    step: () => {
+      if (cursor >= ticks.length) return [];
+      clock = ticks[cursor].timestamp;
+      return takeUntil(clock);
+    },
+    done: () => cursor >= ticks.length
+  };
+};
+
+// Historical data parsing
+
+const TIME_KEYS = ['time', 'timestamp', 'date', 'open_time', 'opentime'];
+
+// Seconds are told apart from milliseconds by magnitude
+const parseTime = (value: unknown): number => {
+  if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return parseTime(parseFloat(text));
+  const parsed = Date.parse(text);
+  if (Number.isNaN(parsed)) throw new Error(`Unreadable time "${text}"`);
+  return parsed;
+};
+
+const parseNumber = (value: unknown, field: string): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  if (!Number.isFinite(parsed)) throw new Error(`Unreadable ${field} "${String(value)}"`);
+  return parsed;
+};
+
+const toCandle = (record: Record<string, unknown>, defaultSymbol: string): ReplayCandle => {
+  const timeKey = TIME_KEYS.find(key => record[key] !== undefined);
+  if (!timeKey) throw new Error('Missing time column');
+
+  const symbol = String(record.symbol ?? defaultSymbol).toUpperCase();
+  if (!SYMBOLS.some(s => s.symbol === symbol)) throw new Error(`Unknown symbol "${symbol}"`);
+
+  const candle: ReplayCandle = {
+    symbol,
+    time: parseTime(record[timeKey]),
+    open: parseNumber(record.open, 'open'),
+    high: parseNumber(record.high, 'high'),
+    low: parseNumber(record.low, 'low'),
+    close: parseNumber(record.close, 'close'),
+    volume: record.volume === undefined || record.volume === '' ? 0 : parseNumber(record.volume, 'volume')
+  };
+  if (candle.low > Math.min(candle.open, candle.close) || candle.high < Math.max(candle.open, candle.close)) {
+    throw new Error('High/low do not contain open and close');
+  }
+  return candle;
+};
+
+const withRow = <T,>(row: number, parse: () => T): T => {
+  try {
+    return parse();
+  } catch (error) {
+    throw new Error(`Row ${row}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Header row required; columns: time, open, high, low, close, optional volume and symbol
+export const parseOhlcvCsv = (text: string, defaultSymbol: string): ReplayCandle[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) throw new Error('CSV needs a header and at least one row');
+
+  const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
+  return lines.slice(1).map((line, i) =>
+    withRow(i + 2, () => {
+      const cells = line.split(',');
+      const record = headers.reduce<Record<string, unknown>>((acc, header, j) => {
+        acc[header] = cells[j]?.trim();
+        return acc;
+      }, {});
+      return toCandle(record, defaultSymbol);
+    })
+  );
+};
+
+// Accepts objects with the CSV column names or exchange-style [time, open, high, low, close, volume] arrays
+export const parseOhlcvJson = (text: string, defaultSymbol: string): ReplayCandle[] => {
+  const raw: unknown = JSON.parse(text);
+  if (!Array.isArray(raw)) throw new Error('JSON replay must be an array of candles');
+
+  return raw.map((entry, i) =>
+    withRow(i + 1, () => {
+      if (Array.isArray(entry)) {
+        const [time, open, high, low, close, volume] = entry;
+        return toCandle({ time, open, high, low, close, volume }, defaultSymbol);
+      }
+      if (typeof entry !== 'object' || entry === null) throw new Error('Candle is not an object');
+      const record = Object.entries(entry).reduce<Record<string, unknown>>((acc, [key, value]) => {
+        acc[key.toLowerCase()] = value;
+        return acc;
+      }, {});
+      return toCandle(record, defaultSymbol);
+    })
+  );
+};
+
+export const parseOhlcvFile = (filename: string, text: string, defaultSymbol: string) =>
+  filename.toLowerCase().endsWith('.json')
+    ? parseOhlcvJson(text, defaultSymbol)
+    : parseOhlcvCsv(text, defaultSymbol);
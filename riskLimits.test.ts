@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RISK_LIMITS, tradingLock } from './riskLimits';
+import { AccountState, EngineAction, accountReducer, createInitialAccount } from './tradingEngine';
+
+const DAY = Date.UTC(2024, 0, 1);
+const HOUR = 3600000;
+
+const run = (state: AccountState, ...actions: EngineAction[]) => actions.reduce(accountReducer, state);
+
+const tick = (price: number, timestamp: number): EngineAction => ({ type: 'MARKET_TICK', marks: { BTC: price }, timestamp });
+
+describe('daily loss limit', () => {
+  const opened = run(
+    createInitialAccount(10000, false),
+    { type: 'SET_RISK_LIMITS', limits: { ...DEFAULT_RISK_LIMITS, dailyLossLimit: 500 } },
+    tick(40000, DAY),
+    {
+      type: 'EXECUTE_ORDER',
+      order: { symbol: 'BTC', side: 'BUY', quantity: 1, price: 40000, leverage: 10, timestamp: DAY },
+      reason: 'Market'
+    }
+  );
+
+  it('stays locked for the rest of the day once hit', () => {
+    const hit = run(opened, tick(39000, DAY + HOUR));
+    expect(tradingLock(hit, { BTC: 39000 })?.code).toBe('TRADING_LOCKED');
+
+    const recovered = run(hit, tick(40500, DAY + 2 * HOUR));
+    expect(tradingLock(recovered, { BTC: 40500 })?.code).toBe('TRADING_LOCKED');
+  });
+
+  it('unlocks on the next UTC day', () => {
+    const nextDay = run(opened, tick(39000, DAY + HOUR), tick(39000, DAY + 24 * HOUR));
+    expect(nextDay.lockedUntilDay).toBeNull();
+    expect(tradingLock(nextDay, { BTC: 39000 })).toBeNull();
+  });
+
+  it('does not lock on losses short of the limit', () => {
+    const dipped = run(opened, tick(39700, DAY + HOUR));
+    expect(tradingLock(dipped, { BTC: 39700 })).toBeNull();
+  });
+});
+
+describe('coin collateral transfers', () => {
+  const limited = run(
+    createInitialAccount(10000, false),
+    { type: 'SET_RISK_LIMITS', limits: { ...DEFAULT_RISK_LIMITS, dailyLossLimit: 500, maxDrawdownPercent: 10 } },
+    tick(40000, DAY)
+  );
+
+  it('move the reference equity with them instead of reading as gains or losses', () => {
+    const roundTrip = run(
+      limited,
+      { type: 'DEPOSIT_COLLATERAL', asset: 'BTC', amount: 1, marks: { BTC: 40000 }, timestamp: DAY + HOUR },
+      tick(40000, DAY + HOUR),
+      { type: 'WITHDRAW_COLLATERAL', asset: 'BTC', amount: 1, marks: { BTC: 40000 }, timestamp: DAY + 2 * HOUR },
+      tick(40000, DAY + 2 * HOUR)
+    );
+    expect(roundTrip.peakEquity).toBeCloseTo(10000, 6);
+    expect(roundTrip.dayStart?.equity).toBeCloseTo(10000, 6);
+    expect(tradingLock(roundTrip, { BTC: 40000 })).toBeNull();
+  });
+
+  it('are logged with their time and haircut value', () => {
+    const moved = run(
+      limited,
+      { type: 'DEPOSIT_COLLATERAL', asset: 'BTC', amount: 1, marks: { BTC: 40000 }, timestamp: DAY + HOUR },
+      { type: 'WITHDRAW_COLLATERAL', asset: 'BTC', amount: 0.5, marks: { BTC: 42000 }, timestamp: DAY + 2 * HOUR }
+    );
+    expect(moved.collateralTransfers.map(t => [t.asset, t.amount, t.value, t.timestamp])).toEqual([
+      ['BTC', 1, 38000, DAY + HOUR],
+      ['BTC', -0.5, -19950, DAY + 2 * HOUR]
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { MarkPrices, SYMBOLS } from './marketData';
+import {
+  AccountState,
+  MarketOrder,
+  Rejection,
+  accountEquity,
+  markFor,
+  orderLegs,
+  reject
+} from './tradingEngine';
+
+// Zero disables a limit
+export type RiskLimits = {
+  maxLeverage: Record<string, number>;
+  maxOpenNotional: number;
+  maxPositionsPerSymbol: number;
+  dailyLossLimit: number;
+  maxDrawdownPercent: number;
+};
+
+// Equity at the first tick of the current UTC day
+export type DayStart = {
+  day: number;
+  equity: number;
+};
+
+export type RiskBlock = {
+  timestamp: number;
+  symbol: string;
+  side: MarketOrder['side'];
+  quantity: number;
+  leverage: number;
+  reason: string;
+};
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxLeverage: SYMBOLS.reduce<Record<string, number>>((acc, info) => {
+    acc[info.symbol] = 100;
+    return acc;
+  }, {}),
+  maxOpenNotional: 0,
+  maxPositionsPerSymbol: 10,
+  dailyLossLimit: 0,
+  maxDrawdownPercent: 0
+};
+
+// Oldest blocks fall off the log past this length
+export const RISK_LOG_LIMIT = 100;
+
+const DAY_MS = 86400000;
+
+export const tradingDay = (timestamp: number) => Math.floor(timestamp / DAY_MS);
+
+export const dailyLoss = (state: AccountState, marks: MarkPrices) =>
+  state.dayStart ? Math.max(0, state.dayStart.equity - accountEquity(state, marks)) : 0;
+
+// Keeps the peak and start-of-day equity the loss limits are measured from. Hitting the daily loss limit
+// latches a lock that only the next UTC day lifts, however far equity recovers in the meantime
+export const trackEquity = (state: AccountState, marks: MarkPrices, timestamp: number): AccountState => {
+  const equity = accountEquity(state, marks);
+  const peakEquity = Math.max(state.peakEquity, equity);
+  const day = tradingDay(timestamp);
+  if (!state.dayStart || state.dayStart.day !== day) {
+    return { ...state, peakEquity, dayStart: { day, equity }, lockedUntilDay: null };
+  }
+
+  const { dailyLossLimit } = state.riskLimits;
+  const lockHit = state.lockedUntilDay === null && dailyLossLimit > 0 && dailyLoss(state, marks) >= dailyLossLimit;
+  if (!lockHit && equity <= state.peakEquity) return state;
+  return { ...state, peakEquity, lockedUntilDay: lockHit ? day + 1 : state.lockedUntilDay };
+};
+
+export const drawdownPercent = (state: AccountState, marks: MarkPrices) =>
+  state.peakEquity > 0 ? Math.max(0, (state.peakEquity - accountEquity(state, marks)) / state.peakEquity) * 100 : 0;
+
+// Account-wide locks that stop any new exposure
+export const tradingLock = (state: AccountState, marks: MarkPrices): Rejection | null => {
+  const { dailyLossLimit, maxDrawdownPercent } = state.riskLimits;
+  if (state.lockedUntilDay !== null || (dailyLossLimit > 0 && dailyLoss(state, marks) >= dailyLossLimit)) {
+    return reject('TRADING_LOCKED', 'Daily loss limit reached; trading is locked until the next UTC day');
+  }
+  if (maxDrawdownPercent > 0 && drawdownPercent(state, marks) >= maxDrawdownPercent) {
+    return reject('TRADING_LOCKED', `Equity is ${maxDrawdownPercent}% or more below its peak; trading is locked`);
+  }
+  return null;
+};
+
+// Only the opening leg adds risk, so closing and reduce-only orders always pass
+export const checkRiskLimits = (state: AccountState, order: MarketOrder, marks: MarkPrices): Rejection | null => {
+  const { opening } = orderLegs(state, order);
+  if (opening <= 0) return null;
+
+  const lock = tradingLock(state, marks);
+  if (lock) return lock;
+
+  const limits = state.riskLimits;
+  const maxLeverage = limits.maxLeverage[order.symbol] ?? 0;
+  if (maxLeverage > 0 && order.leverage > maxLeverage) {
+    return reject('RISK_LIMIT', `Leverage ${order.leverage}x exceeds the ${maxLeverage}x limit for ${order.symbol}`);
+  }
+
+  if (limits.maxOpenNotional > 0) {
+    const openNotional = state.positions.reduce(
+      (acc, p) => acc + p.quantity * markFor(marks, p),
+      opening * order.price
+    );
+    if (openNotional > limits.maxOpenNotional) {
+      return reject(
+        'RISK_LIMIT',
+        `Open notional would reach ${openNotional.toFixed(2)}, above the ${limits.maxOpenNotional} limit`,
+        'quantity'
+      );
+    }
+  }
+
+  const symbolPositions = state.positions.filter(p => p.symbol === order.symbol).length;
+  if (limits.maxPositionsPerSymbol > 0 && symbolPositions >= limits.maxPositionsPerSymbol) {
+    return reject(
+      'RISK_LIMIT',
+      `${order.symbol} already has ${symbolPositions} open positions (limit ${limits.maxPositionsPerSymbol})`
+    );
+  }
+  return null;
+};
+
+export const logRiskBlock = (state: AccountState, block: RiskBlock): AccountState => ({
+  ...state,
+  riskBlocks: [block, ...state.riskBlocks].slice(0, RISK_LOG_LIMIT)
+});
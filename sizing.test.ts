@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COSTS, tradingFee } from './costs';
+import { sizeForRisk } from './sizing';
+import { createInitialAccount } from './tradingEngine';
+
+describe('risk sizing', () => {
+  const state = createInitialAccount(10000, false);
+
+  it('rounds down to the symbol quantity precision', () => {
+    expect(sizeForRisk(state, 100, 40000, 39000, 4)).toBe(0.0962);
+    expect(sizeForRisk(state, 100, 40000, 39000, 2)).toBe(0.09);
+    expect(sizeForRisk(state, 100, 0.5, 0.45, 0)).toBe(1981);
+  });
+
+  it('never risks more than the budget', () => {
+    const quantity = sizeForRisk(state, 100, 40000, 39000, 4);
+    const loss = quantity * 1000 +
+      tradingFee(quantity, 40000, 'TAKER', DEFAULT_COSTS) +
+      tradingFee(quantity, 39000, 'TAKER', DEFAULT_COSTS);
+    expect(loss).toBeLessThanOrEqual(100);
+  });
+});
@@ -0,0 +1,92 @@
+import { MarkPrices, roundQuantity } from './marketData';
+import { liquidationPrice } from './margin';
+import { tradingFee } from './costs';
+import {
+  AccountState,
+  MarketOrder,
+  OrderSide,
+  Rejection,
+  executeOrder,
+  positionSideFor,
+  requiredMargin,
+  validateOrder
+} from './tradingEngine';
+
+export type SizingMode = 'QUANTITY' | 'RISK';
+
+export type RiskUnit = 'AMOUNT' | 'PERCENT';
+
+export type OrderPreview = {
+  // Market orders are previewed at their volume-weighted fill across the book
+  fillPrice: number;
+  notional: number;
+  margin: number;
+  fee: number;
+  // Loss at the stop and gain at the target, both after entry and exit fees
+  risk: number | null;
+  reward: number | null;
+  riskReward: number | null;
+  liquidationPrice: number | null;
+  error: Rejection | null;
+};
+
+export const riskBudget = (unit: RiskUnit, value: number, equity: number) =>
+  unit === 'PERCENT' ? (equity * value) / 100 : value;
+
+// A stop below the entry means a long; without a stop the target decides
+export const impliedSide = (entryPrice: number, stopLoss?: number, takeProfit?: number): OrderSide => {
+  if (stopLoss) return stopLoss < entryPrice ? 'BUY' : 'SELL';
+  if (takeProfit) return takeProfit > entryPrice ? 'BUY' : 'SELL';
+  return 'BUY';
+};
+
+// Quantity whose loss at the stop, taker fees included, equals the risk budget. It is rounded down to the
+// symbol's quantity precision so the realised risk never exceeds the budget
+export const sizeForRisk = (
+  state: AccountState,
+  risk: number,
+  entryPrice: number,
+  stopLoss: number,
+  quantityPrecision: number
+) => {
+  const perUnit = Math.abs(entryPrice - stopLoss) +
+    tradingFee(1, entryPrice, 'TAKER', state.costs) +
+    tradingFee(1, stopLoss, 'TAKER', state.costs);
+  if (risk <= 0 || stopLoss <= 0 || entryPrice === stopLoss) return 0;
+  return roundQuantity(risk / perUnit, quantityPrecision);
+};
+
+const exitResult = (state: AccountState, order: MarketOrder, exitPrice: number) => {
+  const direction = order.side === 'BUY' ? 1 : -1;
+  return direction * (exitPrice - order.price) * order.quantity -
+    tradingFee(order.quantity, order.price, 'TAKER', state.costs) -
+    tradingFee(order.quantity, exitPrice, 'TAKER', state.costs);
+};
+
+// What the order would do if sent now; the liquidation price comes from a dry run on a copy of the account
+export const previewOrder = (state: AccountState, order: MarketOrder, marks: MarkPrices): OrderPreview => {
+  const notional = order.quantity * order.price;
+  const risk = order.stopLoss ? -exitResult(state, order, order.stopLoss) : null;
+  const reward = order.takeProfit ? exitResult(state, order, order.takeProfit) : null;
+  const error = validateOrder(state, order);
+
+  let liquidation: number | null = null;
+  if (!error) {
+    const next = executeOrder(state, order, '');
+    const side = positionSideFor(order.side);
+    const position = [...next.positions].reverse().find(p => p.symbol === order.symbol && p.side === side);
+    liquidation = position ? liquidationPrice(next, position, marks) : null;
+  }
+
+  return {
+    fillPrice: order.price,
+    notional,
+    margin: requiredMargin(order.quantity, order.price, order.leverage),
+    fee: tradingFee(order.quantity, order.price, 'TAKER', state.costs),
+    risk,
+    reward,
+    riskReward: risk !== null && reward !== null && risk > 0 ? reward / risk : null,
+    liquidationPrice: liquidation,
+    error
+  };
+};
@@ -0,0 +1,254 @@
+import { AccountState, DEFAULT_BALANCE, createInitialAccount } from './tradingEngine';
+import { DEFAULT_COSTS } from './costs';
+import { DEFAULT_RISK_LIMITS } from './riskLimits';
+import { LedgerEntry } from './ledger';
+
+export type Portfolio = {
+  id: string;
+  name: string;
+  startingBalance: number;
+  // Demo portfolios reset back to the seeded BTC position
+  demo: boolean;
+  createdAt: number;
+  account: AccountState;
+};
+
+export type PortfolioStore = {
+  version: number;
+  activeId: string;
+  portfolios: Portfolio[];
+};
+
+// Shape of a single exported portfolio file
+export type PortfolioExport = {
+  version: number;
+  portfolio: Portfolio;
+};
+
+// Subset of the Web Storage API, so callers can swap in another backend
+export type StorageLike = Pick<Storage, 'getItem' | 'setItem'>;
+
+export const STORAGE_KEY = 'crypto-dashboard:portfolios';
+
+export const STORE_VERSION = 10;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const records = (value: unknown) => (Array.isArray(value) ? value.filter(isObject) : []);
+
+// MIGRATIONS[n] upgrades a stored portfolio from version n to n + 1
+const MIGRATIONS: Record<number, (portfolio: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2: trading costs; history before it was fee- and funding-free
+  1: portfolio => {
+    const account = isObject(portfolio.account) ? portfolio.account : {};
+    return {
+      ...portfolio,
+      account: {
+        ...account,
+        feesPaid: 0,
+        fundingPaid: 0,
+        costs: DEFAULT_COSTS,
+        fundingAnchor: null,
+        positions: records(account.positions).map(p => ({ ...p, fundingPaid: 0 })),
+        trades: records(account.trades).map(t => ({ ...t, fee: 0, funding: 0 }))
+      }
+    };
+  },
+  // v3: risk limits, measured from the portfolio's starting balance until the next tick
+  2: portfolio => {
+    const account = isObject(portfolio.account) ? portfolio.account : {};
+    return {
+      ...portfolio,
+      account: {
+        ...account,
+        riskLimits: DEFAULT_RISK_LIMITS,
+        peakEquity: typeof portfolio.startingBalance === 'number' ? portfolio.startingBalance : DEFAULT_BALANCE,
+        dayStart: null,
+        riskBlocks: []
+      }
+    };
+  },
+  // v4: price alerts
+  3: portfolio => {
+    const account = isObject(portfolio.account) ? portfolio.account : {};
+    return { ...portfolio, account: { ...account, alerts: [] } };
+  },
+  // v5: stop and grouped orders; everything resting before was a plain limit
+  4: portfolio => {
+    const account = isObject(portfolio.account) ? portfolio.account : {};
+    return {
+      ...portfolio,
+      account: { ...account, orders: records(account.orders).map(o => ({ ...o, type: 'LIMIT' })) }
+    };
+  },
+  // v6: position lots; an existing position becomes a single lot at its entry
+  5: portfolio => {
+    const account = isObject(portfolio.account) ? portfolio.account : {};
+    return {
+      ...portfolio,
+      account: {
+        ...account,
+        positions: records(account.positions).map(p => ({
+          ...p,
+          lots: [{ id: p.id, quantity: p.quantity, price: p.entryPrice, timestamp: p.timestamp }]
+        }))
+      }
+    };
+  },
+  // v7: balance ledger; whatever the balance was before it opens the ledger as one entry
+  6: portfolio => {
+    const account = isObject(portfolio.account) ? portfolio.account : {};
+    const balance = typeof account.balance === 'number' ? account.balance : 0;
+    const opening: LedgerEntry = {
+      id: 'led-1',
+      type: 'DEPOSIT',
+      amount: balance,
+      balance,
+      reference: 'Opening balance',
+      timestamp: Date.now()
+    };
+    return { ...portfolio, account: { ...account, ledger: [opening] } };
+  },
+  // v8: coin collateral; until now the account only held the quote asset
+  7: portfolio => {
+    const account = isObject(portfolio.account) ? portfolio.account : {};
+    return { ...portfolio, account: { ...account, collateral: [] } };
+  },
+  // v9: latched daily loss lock; an account mid-way through a losing day starts unlocked
+  8: portfolio => {
+    const account = isObject(portfolio.account) ? portfolio.account : {};
+    return { ...portfolio, account: { ...account, lockedUntilDay: null } };
+  },
+  // v10: coin transfers are logged; earlier ones went unrecorded
+  9: portfolio => {
+    const account = isObject(portfolio.account) ? portfolio.account : {};
+    return { ...portfolio, account: { ...account, collateralTransfers: [] } };
+  }
+};
+
+const isAccountState = (value: unknown): value is AccountState =>
+  isObject(value) &&
+  typeof value.balance === 'number' &&
+  Array.isArray(value.collateral) &&
+  Array.isArray(value.collateralTransfers) &&
+  typeof value.realizedPnl === 'number' &&
+  typeof value.feesPaid === 'number' &&
+  typeof value.fundingPaid === 'number' &&
+  isObject(value.costs) &&
+  isObject(value.riskLimits) &&
+  Array.isArray(value.riskBlocks) &&
+  Array.isArray(value.alerts) &&
+  Array.isArray(value.ledger) &&
+  typeof value.sequence === 'number' &&
+  Array.isArray(value.positions) &&
+  Array.isArray(value.orders) &&
+  Array.isArray(value.trades);
+
+const migratePortfolio = (raw: unknown, version: number): Portfolio => {
+  if (!isObject(raw)) throw new Error('Portfolio is not an object');
+  if (version > STORE_VERSION) throw new Error(`Unsupported portfolio version ${version}`);
+
+  let portfolio = raw;
+  for (let v = version; v < STORE_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration from portfolio version ${v}`);
+    portfolio = migrate(portfolio);
+  }
+
+  if (typeof portfolio.id !== 'string' || typeof portfolio.name !== 'string') {
+    throw new Error('Portfolio is missing an id or name');
+  }
+  if (!isAccountState(portfolio.account)) throw new Error(`Portfolio "${portfolio.name}" has an invalid account`);
+  return portfolio as unknown as Portfolio;
+};
+
+const readVersion = (raw: Record<string, unknown>) => {
+  if (typeof raw.version !== 'number') throw new Error('Missing schema version');
+  return raw.version;
+};
+
+const portfolioId = (now: number) => `pf-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPortfolio = (
+  name: string,
+  startingBalance = DEFAULT_BALANCE,
+  now = Date.now(),
+  demo = false
+): Portfolio => ({
+  id: portfolioId(now),
+  name,
+  startingBalance,
+  demo,
+  createdAt: now,
+  account: createInitialAccount(startingBalance, demo)
+});
+
+export const createStore = (now = Date.now()): PortfolioStore => {
+  const portfolio = createPortfolio('Main', DEFAULT_BALANCE, now, true);
+  return { version: STORE_VERSION, activeId: portfolio.id, portfolios: [portfolio] };
+};
+
+export const activePortfolio = (store: PortfolioStore) =>
+  store.portfolios.find(p => p.id === store.activeId) ?? store.portfolios[0];
+
+export const updateActiveAccount = (store: PortfolioStore, account: AccountState): PortfolioStore => ({
+  ...store,
+  portfolios: store.portfolios.map(p => (p.id === store.activeId ? { ...p, account } : p))
+});
+
+export const addPortfolio = (store: PortfolioStore, portfolio: Portfolio): PortfolioStore => ({
+  ...store,
+  activeId: portfolio.id,
+  portfolios: [...store.portfolios, portfolio]
+});
+
+// Parses and migrates a serialized store; throws when it cannot be read
+export const parseStore = (json: string): PortfolioStore => {
+  const raw: unknown = JSON.parse(json);
+  if (!isObject(raw) || !Array.isArray(raw.portfolios)) throw new Error('Stored data is not a portfolio store');
+  const version = readVersion(raw);
+  const portfolios = raw.portfolios.map(p => migratePortfolio(p, version));
+  if (portfolios.length === 0) throw new Error('Stored data has no portfolios');
+
+  const activeId = typeof raw.activeId === 'string' ? raw.activeId : portfolios[0].id;
+  return { version: STORE_VERSION, activeId, portfolios };
+};
+
+export const loadStore = (storage: StorageLike = window.localStorage): PortfolioStore | null => {
+  const json = storage.getItem(STORAGE_KEY);
+  if (!json) return null;
+  try {
+    return parseStore(json);
+  } catch (error) {
+    console.error('Discarding unreadable saved portfolios', error);
+    return null;
+  }
+};
+
+export const saveStore = (store: PortfolioStore, storage: StorageLike = window.localStorage) => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
+
+export const exportPortfolio = (portfolio: Portfolio) => {
+  const file: PortfolioExport = { version: STORE_VERSION, portfolio };
+  return JSON.stringify(file, null, 2);
+};
+
+// Imported portfolios get a fresh id so they never overwrite an existing one
+export const importPortfolio = (json: string, now = Date.now()): Portfolio => {
+  const raw: unknown = JSON.parse(json);
+  if (!isObject(raw)) throw new Error('File is not a portfolio export');
+  const portfolio = migratePortfolio(raw.portfolio, readVersion(raw));
+  return { ...portfolio, id: portfolioId(now) };
+};
+
+// Hands a text file to the browser as a download
+export const downloadFile = (filename: string, contents: string, type = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,139 @@
+import { QUOTE_ASSET } from './display';
+import { getSymbolInfo, roundQuantity, roundToTick } from './marketData';
+import { sma } from './indicators';
+import { Strategy, StrategyCommand, StrategyContext } from './bots';
+
+export type StrategyId = 'MA_CROSSOVER' | 'GRID' | 'DCA';
+
+// Order sizes worked out from a notional round down to what the symbol trades in
+const sized = (context: StrategyContext, quantity: number) =>
+  roundQuantity(quantity, getSymbolInfo(context.symbol).quantityPrecision);
+
+const sideQuantity = (context: StrategyContext, side: 'LONG' | 'SHORT') =>
+  context.positions.filter(p => p.side === side).reduce((acc, p) => acc + p.quantity, 0);
+
+// Flattens the other side with reduce-only orders first, so the same commands work in one-way and hedge mode
+const targetPosition = (context: StrategyContext, target: number): StrategyCommand[] => {
+  const longs = sideQuantity(context, 'LONG');
+  const shorts = sideQuantity(context, 'SHORT');
+  const commands: StrategyCommand[] = [];
+  if (target >= 0 && shorts > 0) commands.push({ type: 'MARKET', side: 'BUY', quantity: shorts, reduceOnly: true });
+  if (target <= 0 && longs > 0) commands.push({ type: 'MARKET', side: 'SELL', quantity: longs, reduceOnly: true });
+  const held = target > 0 ? longs : shorts;
+  const missing = sized(context, Math.abs(target) - held);
+  if (target !== 0 && missing > 0) commands.push({ type: 'MARKET', side: target > 0 ? 'BUY' : 'SELL', quantity: missing });
+  return commands;
+};
+
+// Acts on closed candles only, so a cross that reverses inside a candle is ignored
+const maCrossover: Strategy = {
+  id: 'MA_CROSSOVER',
+  name: 'MA Crossover',
+  description: 'Goes long when the fast SMA crosses above the slow one and short when it crosses below.',
+  params: [
+    { key: 'fast', label: 'Fast period', value: 9 },
+    { key: 'slow', label: 'Slow period', value: 21 },
+    { key: 'notional', label: `Position size (${QUOTE_ASSET})`, value: 1000 },
+    { key: 'leverage', label: 'Leverage', value: 5 }
+  ],
+  onTick: context => {
+    if (!context.closedCandle) return { commands: [] };
+    const closes = context.market.candles.slice(0, -1).map(c => c.close);
+    const fast = sma(closes, context.params.fast);
+    const slow = sma(closes, context.params.slow);
+    const last = closes.length - 1;
+    const [prevFast, prevSlow, nextFast, nextSlow] = [fast[last - 1], slow[last - 1], fast[last], slow[last]];
+    if (prevFast === null || prevSlow === null || nextFast === null || nextSlow === null) return { commands: [] };
+
+    const quantity = sized(context, context.params.notional / context.market.price);
+    if (prevFast <= prevSlow && nextFast > nextSlow) {
+      return { commands: targetPosition(context, quantity), logs: ['Fast SMA crossed above slow'] };
+    }
+    if (prevFast >= prevSlow && nextFast < nextSlow) {
+      return { commands: targetPosition(context, -quantity), logs: ['Fast SMA crossed below slow'] };
+    }
+    return { commands: [] };
+  }
+};
+
+// A neutral grid: every level but the one nearest the price holds an order facing the price,
+// so each fill is answered by an order one level back the other way
+const grid: Strategy = {
+  id: 'GRID',
+  name: 'Grid',
+  description: 'Keeps buy limits below and sell limits above the price on evenly spaced levels around where it started.',
+  params: [
+    { key: 'rangePercent', label: 'Range (± %)', value: 2 },
+    { key: 'levels', label: 'Levels', value: 10 },
+    { key: 'notional', label: `Per level (${QUOTE_ASSET})`, value: 200 },
+    { key: 'leverage', label: 'Leverage', value: 2 }
+  ],
+  onTick: context => {
+    const { price } = context.market;
+    const { tickSize } = getSymbolInfo(context.symbol);
+    const center = context.memory.center ?? price;
+    const levels = Math.max(1, Math.round(context.params.levels));
+    const lower = center * (1 - context.params.rangePercent / 100);
+    const step = (2 * center * context.params.rangePercent) / 100 / levels;
+    const prices = Array.from({ length: levels + 1 }, (_, i) => roundToTick(lower + i * step, tickSize));
+    const nearest = prices.reduce(
+      (best, level, i) => (Math.abs(level - price) < Math.abs(prices[best] - price) ? i : best),
+      0
+    );
+
+    const commands: StrategyCommand[] = [];
+    prices.forEach((levelPrice, i) => {
+      const side = levelPrice < price ? 'BUY' : 'SELL';
+      const resting = context.orders.filter(o => o.limitPrice === levelPrice);
+      const keep = i === nearest ? [] : resting.filter(o => o.side === side);
+      resting.filter(o => !keep.includes(o)).forEach(o => commands.push({ type: 'CANCEL', orderId: o.id }));
+      if (i !== nearest && keep.length === 0) {
+        commands.push({ type: 'LIMIT', side, quantity: sized(context, context.params.notional / levelPrice), limitPrice: levelPrice });
+      }
+    });
+
+    const logs = context.memory.center === undefined ? [`Grid centred on ${center}`] : [];
+    return { commands, memory: { ...context.memory, center }, logs };
+  }
+};
+
+// Buys a fixed amount every interval; the optional target sells the whole stack above its average entry
+const dca: Strategy = {
+  id: 'DCA',
+  name: 'DCA',
+  description: 'Buys a fixed dollar amount on a schedule and optionally takes profit on the accumulated position.',
+  params: [
+    { key: 'intervalMinutes', label: 'Interval (min)', value: 60 },
+    { key: 'notional', label: `Per buy (${QUOTE_ASSET})`, value: 100 },
+    { key: 'takeProfitPercent', label: 'Take profit (%, 0 = off)', value: 0 },
+    { key: 'leverage', label: 'Leverage', value: 1 }
+  ],
+  onTick: context => {
+    const { price } = context.market;
+    const longs = context.positions.filter(p => p.side === 'LONG');
+    const held = longs.reduce((acc, p) => acc + p.quantity, 0);
+    const averageEntry = held > 0 ? longs.reduce((acc, p) => acc + p.quantity * p.entryPrice, 0) / held : 0;
+    const { takeProfitPercent } = context.params;
+    if (takeProfitPercent > 0 && held > 0 && price >= averageEntry * (1 + takeProfitPercent / 100)) {
+      return {
+        commands: [{ type: 'MARKET', side: 'SELL', quantity: held, reduceOnly: true }],
+        logs: [`Target reached, ${((price / averageEntry - 1) * 100).toFixed(2)}% above the average entry`]
+      };
+    }
+
+    const lastBuy = context.memory.lastBuy;
+    if (lastBuy !== undefined && context.timestamp - lastBuy < context.params.intervalMinutes * 60000) {
+      return { commands: [] };
+    }
+    return {
+      commands: [{ type: 'MARKET', side: 'BUY', quantity: sized(context, context.params.notional / price) }],
+      memory: { ...context.memory, lastBuy: context.timestamp }
+    };
+  }
+};
+
+export const STRATEGIES: Record<StrategyId, Strategy> = {
+  MA_CROSSOVER: maCrossover,
+  GRID: grid,
+  DCA: dca
+};
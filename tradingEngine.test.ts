@@ -0,0 +1,246 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COSTS } from './costs';
+import { reconcile } from './ledger';
+import { MarginMode, liquidationPrice } from './margin';
+import { MarkPrices } from './marketData';
+import {
+  AccountState,
+  EngineAction,
+  OrderSide,
+  accountEquity,
+  accountReducer,
+  createInitialAccount,
+  positionPnl,
+  reservedMargin,
+  unrealizedPnl,
+  usedMargin
+} from './tradingEngine';
+
+const T0 = Date.UTC(2024, 0, 1);
+
+// Fees stay on so they are part of what has to add up; slippage is off so fills land on the quoted price
+const account = (mode: MarginMode) =>
+  [
+    { type: 'SET_COSTS', costs: { ...DEFAULT_COSTS, slippageBaseBps: 0, slippageImpactBps: 0 } },
+    { type: 'SET_MARGIN_MODE', mode }
+  ].reduce<AccountState>((state, action) => accountReducer(state, action as EngineAction), createInitialAccount(10000, false));
+
+const run = (state: AccountState, ...actions: EngineAction[]) => actions.reduce(accountReducer, state);
+
+const market = (side: OrderSide, quantity: number, price: number, leverage = 10): EngineAction => ({
+  type: 'EXECUTE_ORDER',
+  order: { symbol: 'BTC', side, quantity, price, leverage, timestamp: T0 },
+  reason: 'Market'
+});
+
+const tick = (marks: MarkPrices, timestamp = T0): EngineAction => ({ type: 'MARKET_TICK', marks, timestamp });
+
+const transfers = (state: AccountState) =>
+  state.ledger
+    .filter(e => e.type === 'DEPOSIT' || e.type === 'WITHDRAWAL')
+    .reduce((acc, e) => acc + e.amount, 0);
+
+// Whatever was paid in is either free, locked as margin, or accounted for as realized PnL, fees and funding
+const expectConserved = (state: AccountState) => {
+  expect(state.balance + usedMargin(state.positions) + reservedMargin(state.orders)).toBeCloseTo(
+    transfers(state) + state.realizedPnl - state.feesPaid - state.fundingPaid,
+    6
+  );
+  expect(state.trades.reduce((acc, t) => acc + t.realizedPnl, 0)).toBeCloseTo(state.realizedPnl, 6);
+  expect(state.trades.reduce((acc, t) => acc + t.fee, 0)).toBeCloseTo(state.feesPaid, 6);
+  expect(reconcile(state).balanced).toBe(true);
+};
+
+describe.each<MarginMode>(['ISOLATED', 'CROSS'])('%s margin', mode => {
+  it('locks margin and charges the taker fee on open', () => {
+    const state = run(account(mode), market('BUY', 1, 40000));
+    const [position] = state.positions;
+    expect(position.marginMode).toBe(mode);
+    expect(usedMargin(state.positions)).toBeCloseTo(4000, 6);
+    expect(state.feesPaid).toBeCloseTo(20, 6);
+    expect(state.balance).toBeCloseTo(10000 - 4000 - 20, 6);
+    expect(accountEquity(state, { BTC: 41000 })).toBeCloseTo(10000 - 20 + 1000, 6);
+    expectConserved(state);
+  });
+
+  it('realizes PnL once, at the close price, and releases the margin', () => {
+    const opened = run(account(mode), market('SELL', 1, 40000, 5));
+    const closed = run(opened, {
+      type: 'CLOSE_POSITION',
+      positionId: opened.positions[0].id,
+      quantity: 1,
+      marks: { BTC: 38000 },
+      timestamp: T0,
+      reason: 'Manual Close'
+    });
+    expect(closed.positions).toHaveLength(0);
+    expect(closed.realizedPnl).toBeCloseTo(2000, 6);
+    expect(closed.trades[0].realizedPnl).toBeCloseTo(positionPnl(opened.positions[0], 38000), 6);
+    expect(usedMargin(closed.positions)).toBe(0);
+    expectConserved(closed);
+  });
+
+  it('closes part of a position from its oldest lots', () => {
+    const opened = run(account(mode), market('BUY', 1, 40000), market('BUY', 1, 42000));
+    const [position] = opened.positions;
+    expect(position.entryPrice).toBeCloseTo(41000, 6);
+    expect(position.lots).toHaveLength(2);
+
+    const closed = run(opened, {
+      type: 'CLOSE_POSITION',
+      positionId: position.id,
+      quantity: 1.5,
+      marks: { BTC: 43000 },
+      timestamp: T0,
+      reason: 'Manual Close'
+    });
+    const [rest] = closed.positions;
+    expect(rest.quantity).toBeCloseTo(0.5, 9);
+    expect(rest.lots.map(l => l.quantity)).toEqual([0.5]);
+    expect(closed.trades[0].lots?.map(l => l.entryPrice)).toEqual([40000, 42000]);
+    expect(closed.realizedPnl).toBeCloseTo(1.5 * 2000, 6);
+    expect(usedMargin(closed.positions)).toBeCloseTo(0.5 * 41000 / 10, 6);
+    expectConserved(closed);
+  });
+
+  it('nets an opposing order against the position before opening the rest', () => {
+    const state = run(account(mode), market('BUY', 1, 40000), market('SELL', 3, 41000));
+    const [position] = state.positions;
+    expect(position.side).toBe('SHORT');
+    expect(position.quantity).toBeCloseTo(2, 9);
+    expect(state.realizedPnl).toBeCloseTo(1000, 6);
+    expectConserved(state);
+  });
+
+  it('reverses a position into the same size on the other side', () => {
+    const opened = run(account(mode), market('BUY', 1, 40000));
+    const reversed = run(opened, {
+      type: 'REVERSE_POSITION',
+      positionId: opened.positions[0].id,
+      marks: { BTC: 39000 },
+      timestamp: T0
+    });
+    const [position] = reversed.positions;
+    expect(position.side).toBe('SHORT');
+    expect(position.quantity).toBeCloseTo(1, 9);
+    expect(position.entryPrice).toBe(39000);
+    expect(reversed.realizedPnl).toBeCloseTo(-1000, 6);
+    expectConserved(reversed);
+  });
+
+  it('liquidates once the mark crosses the liquidation price', () => {
+    const opened = run(account(mode), market('BUY', 1, 40000));
+    const price = liquidationPrice(opened, opened.positions[0], { BTC: 40000 });
+    expect(price).not.toBeNull();
+    const mark = (price ?? 0) - 1;
+
+    const liquidated = run(opened, tick({ BTC: mark }));
+    expect(liquidated.positions).toHaveLength(0);
+    expect(liquidated.trades[0].closeReason).toBe('Liquidation');
+    expect(liquidated.ledger.some(e => e.type === 'LIQUIDATION')).toBe(true);
+    expectConserved(liquidated);
+  });
+
+  it('settles funding against the balance and on the closing trade', () => {
+    const opened = run(account(mode), tick({ BTC: 40000 }), market('BUY', 1, 40000));
+    const funded = run(opened, tick({ BTC: 40000 }, T0 + DEFAULT_COSTS.fundingIntervalMs));
+    expect(funded.fundingPaid).toBeCloseTo(40000 * DEFAULT_COSTS.fundingRate, 6);
+    expectConserved(funded);
+
+    const closed = run(funded, {
+      type: 'CLOSE_POSITION',
+      positionId: funded.positions[0].id,
+      quantity: 1,
+      marks: { BTC: 40000 },
+      timestamp: T0,
+      reason: 'Manual Close'
+    });
+    expect(closed.trades[0].funding).toBeCloseTo(funded.fundingPaid, 6);
+    expectConserved(closed);
+  });
+});
+
+describe('gaps through liquidation', () => {
+  it('never cost an isolated position more than its margin', () => {
+    const opened = run(account('ISOLATED'), market('BUY', 1, 40000));
+    const margin = usedMargin(opened.positions);
+    const liquidated = run(opened, tick({ BTC: 30000 }));
+
+    const [trade] = liquidated.trades;
+    expect(trade.closeReason).toBe('Liquidation');
+    expect(liquidated.balance).toBeCloseTo(opened.balance, 6);
+    expect(-trade.realizedPnl + trade.fee).toBeCloseTo(margin, 6);
+    expect(liquidated.ledger.some(e => e.type === 'INSURANCE')).toBe(true);
+    expectConserved(liquidated);
+  });
+
+  it('leave the free balance of other positions alone', () => {
+    const opened = run(
+      account('ISOLATED'),
+      market('BUY', 1, 40000),
+      { type: 'SET_MARGIN_MODE', mode: 'CROSS' },
+      { type: 'EXECUTE_ORDER', order: { symbol: 'ETH', side: 'BUY', quantity: 1, price: 2000, leverage: 10, timestamp: T0 }, reason: 'Market' }
+    );
+    const liquidated = run(opened, tick({ BTC: 30000, ETH: 2000 }));
+    expect(liquidated.positions.map(p => p.symbol)).toEqual(['ETH']);
+    expect(liquidated.balance).toBeCloseTo(opened.balance, 6);
+    expectConserved(liquidated);
+  });
+
+  it('stop cross losses at an empty balance', () => {
+    const opened = run(account('CROSS'), market('BUY', 1, 40000));
+    const liquidated = run(opened, tick({ BTC: 30000 }));
+    expect(liquidated.positions).toHaveLength(0);
+    expect(liquidated.balance).toBeCloseTo(0, 6);
+    expect(accountEquity(liquidated, { BTC: 30000 })).toBeCloseTo(0, 6);
+    expectConserved(liquidated);
+  });
+});
+
+describe('resting orders', () => {
+  it('reserve margin until they are cancelled', () => {
+    const placed = run(account('CROSS'), {
+      type: 'PLACE_LIMIT_ORDER',
+      order: {
+        symbol: 'BTC',
+        side: 'BUY',
+        quantity: 1,
+        type: 'LIMIT',
+        limitPrice: 39000,
+        leverage: 10,
+        timeInForce: 'GTC',
+        timestamp: T0
+      },
+      marks: { BTC: 40000 }
+    });
+    expect(reservedMargin(placed.orders)).toBeCloseTo(3900, 6);
+    expectConserved(placed);
+
+    const cancelled = run(placed, { type: 'CANCEL_ORDER', orderId: placed.orders[0].id, timestamp: T0 });
+    expect(cancelled.balance).toBeCloseTo(10000, 6);
+    expectConserved(cancelled);
+  });
+
+  it('fill as makers when the mark trades through the limit', () => {
+    const placed = run(account('ISOLATED'), {
+      type: 'PLACE_LIMIT_ORDER',
+      order: {
+        symbol: 'BTC',
+        side: 'SELL',
+        quantity: 1,
+        type: 'LIMIT',
+        limitPrice: 41000,
+        leverage: 10,
+        timeInForce: 'GTC',
+        timestamp: T0
+      },
+      marks: { BTC: 40000 }
+    });
+    const filled = run(placed, tick({ BTC: 41500 }));
+    expect(filled.orders).toHaveLength(0);
+    expect(filled.positions[0].entryPrice).toBe(41000);
+    expect(filled.feesPaid).toBeCloseTo(41000 * DEFAULT_COSTS.makerFeeBps / 10000, 6);
+    expect(unrealizedPnl(filled.positions, { BTC: 41500 })).toBeCloseTo(-500, 6);
+    expectConserved(filled);
+  });
+});
@@ -0,0 +1,1229 @@
+import { MarkPrices } from './marketData';
+import { MarginMode, isLiquidatable } from './margin';
+import { CostConfig, DEFAULT_COSTS, Liquidity, fundingPayment, slippedPrice, tradingFee } from './costs';
+import { DEFAULT_RISK_LIMITS, DayStart, RiskBlock, RiskLimits, logRiskBlock, trackEquity } from './riskLimits';
+import { AlertCondition, AlertTrigger, PriceAlert, markTriggered } from './alerts';
+import { OrderBook, walkBook } from './orderBook';
+import { LedgerEntry, post } from './ledger';
+import {
+  CollateralHolding,
+  CollateralTransfer,
+  adjustHolding,
+  collateralValue,
+  holdingValue,
+  validateCollateralDeposit,
+  validateCollateralWithdrawal
+} from './collateral';
+
+export type Side = 'LONG' | 'SHORT';
+
+// One fill that added to a position; its id is the opening trade's
+export type PositionLot = {
+  id: string;
+  // Still open
+  quantity: number;
+  price: number;
+  timestamp: number;
+};
+
+// The part of a lot a closing trade took
+export type LotFill = {
+  lotId: string;
+  quantity: number;
+  entryPrice: number;
+};
+
+export type Position = {
+  id: string;
+  symbol: string;
+  side: Side;
+  quantity: number;
+  entryPrice: number;
+  leverage: number;
+  marginMode: MarginMode;
+  stopLoss?: number;
+  takeProfit?: number;
+  // Distance the stop trails behind the best price since entry
+  trailingDistance?: number;
+  // Funding paid since opening, negative when received
+  fundingPaid: number;
+  // Bot that opened the position; closes are credited to it
+  botId?: string;
+  // Fills that make up the position, oldest first; entryPrice is their volume-weighted average
+  lots: PositionLot[];
+  timestamp: number;
+};
+
+// Opening fills have an empty closeReason
+export type Trade = {
+  id: string;
+  symbol: string;
+  side: Side;
+  quantity: number;
+  price: number;
+  realizedPnl: number;
+  fee: number;
+  // Share of the position's funding settled by this close
+  funding: number;
+  botId?: string;
+  positionId?: string;
+  // Lots a close consumed, oldest first
+  lots?: LotFill[];
+  timestamp: number;
+  closeReason: string;
+};
+
+export type OrderSide = 'BUY' | 'SELL';
+
+// One-way nets opposing orders against the position; hedge keeps both sides open
+export type PositionMode = 'ONE_WAY' | 'HEDGE';
+
+export type TimeInForce = 'GTC' | 'IOC' | 'FOK' | 'POST_ONLY';
+
+// Stops rest untriggered until the mark trades through their stop price
+export type PendingOrderType = 'LIMIT' | 'STOP_MARKET' | 'STOP_LIMIT';
+
+// Bracket exits wait for their entry to fill; OCO legs cancel each other
+export type OrderGroupRole = 'ENTRY' | 'EXIT' | 'OCO';
+
+export type LimitOrderRequest = {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  type: PendingOrderType;
+  // Stop-market orders have no limit of their own; theirs repeats the stop price
+  limitPrice: number;
+  stopPrice?: number;
+  leverage: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  trailingDistance?: number;
+  timeInForce: TimeInForce;
+  reduceOnly?: boolean;
+  botId?: string;
+  groupId?: string;
+  groupRole?: OrderGroupRole;
+  timestamp: number;
+};
+
+export type OrderGroupRequest =
+  | { kind: 'OCO'; legs: [LimitOrderRequest, LimitOrderRequest] }
+  // The exits become a reduce-only stop-market and limit once the entry fills
+  | { kind: 'BRACKET'; entry: LimitOrderRequest; stopLoss: number; takeProfit: number };
+
+export type PendingOrder = LimitOrderRequest & {
+  id: string;
+  // Margin held out of the balance until the order fills or is cancelled
+  reservedMargin: number;
+};
+
+export type AccountState = {
+  // Free balance in the quote asset; margin for open positions and pending orders is locked out of it
+  balance: number;
+  // Coins counted toward equity at their haircut value
+  collateral: CollateralHolding[];
+  // Every coin deposit and withdrawal, oldest first
+  collateralTransfers: CollateralTransfer[];
+  // Gross of fees and funding, which are tracked separately
+  realizedPnl: number;
+  feesPaid: number;
+  fundingPaid: number;
+  positions: Position[];
+  orders: PendingOrder[];
+  trades: Trade[];
+  positionMode: PositionMode;
+  // Applied to positions opened from now on
+  marginMode: MarginMode;
+  costs: CostConfig;
+  // Start of the current funding interval; null until the first tick
+  fundingAnchor: number | null;
+  riskLimits: RiskLimits;
+  peakEquity: number;
+  dayStart: DayStart | null;
+  // Trading day the daily loss lock lifts on; null while trading is not locked
+  lockedUntilDay: number | null;
+  // Orders refused by the risk limits, newest first
+  riskBlocks: RiskBlock[];
+  alerts: PriceAlert[];
+  // Every change to the balance, oldest first; never rewritten
+  ledger: LedgerEntry[];
+  // Monotonic counter for position, order and trade ids
+  sequence: number;
+};
+
+export type MarketOrder = {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  leverage: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  trailingDistance?: number;
+  reduceOnly?: boolean;
+  botId?: string;
+  timestamp: number;
+};
+
+export type OpenOrder = {
+  symbol: string;
+  side: Side;
+  quantity: number;
+  entryPrice: number;
+  leverage: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  trailingDistance?: number;
+  botId?: string;
+  timestamp: number;
+};
+
+export type RejectionCode =
+  | 'INVALID_QUANTITY'
+  | 'INVALID_PRICE'
+  | 'NO_MARKET'
+  | 'INSUFFICIENT_POSITION'
+  | 'INSUFFICIENT_BALANCE'
+  | 'INVALID_STOP_LOSS'
+  | 'INVALID_TAKE_PROFIT'
+  | 'INVALID_TRAILING'
+  | 'WOULD_TAKE_LIQUIDITY'
+  | 'CANNOT_FILL'
+  | 'ORDER_NOT_FOUND'
+  | 'NOT_AMENDABLE'
+  | 'INVALID_GROUP'
+  | 'POSITION_NOT_FOUND'
+  | 'INVALID_LEVERAGE'
+  | 'INVALID_AMOUNT'
+  | 'POSITION_MODE_LOCKED'
+  | 'RISK_LIMIT'
+  | 'TRADING_LOCKED'
+  // Refusals from a connected exchange that have no engine equivalent
+  | 'EXCHANGE_ERROR'
+  | 'NOT_SUPPORTED';
+
+// Order ticket inputs a rejection can point at
+export type OrderField = 'quantity' | 'price' | 'stopPrice' | 'stopLoss' | 'takeProfit' | 'trailingDistance' | 'leverage' | 'amount';
+
+export type Rejection = {
+  code: RejectionCode;
+  message: string;
+  field?: OrderField;
+};
+
+export type Protection = Pick<Position, 'stopLoss' | 'takeProfit' | 'trailingDistance'>;
+
+export type EngineAction =
+  | { type: 'EXECUTE_ORDER'; order: MarketOrder; reason: string; book?: OrderBook }
+  | { type: 'CLOSE_ALL'; marks: MarkPrices; timestamp: number; reason: string }
+  | { type: 'PLACE_LIMIT_ORDER'; order: LimitOrderRequest; marks: MarkPrices }
+  | { type: 'PLACE_ORDER_GROUP'; group: OrderGroupRequest; marks: MarkPrices }
+  | { type: 'CANCEL_ORDER'; orderId: string; timestamp: number }
+  | { type: 'AMEND_ORDER'; orderId: string; limitPrice: number; quantity: number; marks: MarkPrices; timestamp: number }
+  | { type: 'UPDATE_PROTECTION'; positionId: string; protection: Protection; marks: MarkPrices }
+  | { type: 'CLOSE_POSITION'; positionId: string; quantity: number; marks: MarkPrices; timestamp: number; reason: string }
+  | { type: 'REVERSE_POSITION'; positionId: string; marks: MarkPrices; timestamp: number }
+  | { type: 'SET_POSITION_LEVERAGE'; positionId: string; leverage: number; timestamp: number }
+  | { type: 'DEPOSIT'; amount: number; timestamp: number }
+  | { type: 'WITHDRAW'; amount: number; timestamp: number }
+  | { type: 'DEPOSIT_COLLATERAL'; asset: string; amount: number; marks: MarkPrices; timestamp: number }
+  | { type: 'WITHDRAW_COLLATERAL'; asset: string; amount: number; marks: MarkPrices; timestamp: number }
+  | { type: 'MARKET_TICK'; marks: MarkPrices; timestamp: number }
+  | { type: 'SET_POSITION_MODE'; mode: PositionMode }
+  | { type: 'SET_MARGIN_MODE'; mode: MarginMode }
+  | { type: 'SET_COSTS'; costs: CostConfig }
+  | { type: 'SET_RISK_LIMITS'; limits: RiskLimits }
+  | { type: 'LOG_RISK_BLOCK'; block: RiskBlock }
+  | { type: 'ADD_ALERT'; symbol: string; condition: AlertCondition; timestamp: number }
+  | { type: 'REMOVE_ALERT'; alertId: string }
+  | { type: 'TRIGGER_ALERTS'; triggers: AlertTrigger[]; timestamp: number }
+  | { type: 'LOAD'; account: AccountState }
+  | { type: 'SYNC_ACCOUNT'; account: AccountState }
+  | { type: 'RESET'; balance?: number; demo?: boolean };
+
+export const DEFAULT_BALANCE = 10000;
+
+export const reject = (code: RejectionCode, message: string, field?: OrderField): Rejection => ({ code, message, field });
+
+// Position math: the only place PnL and margin are defined
+
+export const directionOf = (side: Side) => (side === 'LONG' ? 1 : -1);
+
+export const positionSideFor = (side: OrderSide): Side => (side === 'BUY' ? 'LONG' : 'SHORT');
+
+export const oppositeSide = (side: Side): Side => (side === 'LONG' ? 'SHORT' : 'LONG');
+
+export const positionNotional = (position: Position) => position.quantity * position.entryPrice;
+
+export const positionMargin = (position: Position) => positionNotional(position) / position.leverage;
+
+export const positionPnl = (position: Position, markPrice: number, quantity = position.quantity) =>
+  directionOf(position.side) * (markPrice - position.entryPrice) * quantity;
+
+// Positions without a quote are valued at entry
+export const markFor = (marks: MarkPrices, position: Position) =>
+  marks[position.symbol] ?? position.entryPrice;
+
+export const unrealizedPnl = (positions: Position[], marks: MarkPrices) =>
+  positions.reduce((acc, pos) => acc + positionPnl(pos, markFor(marks, pos)), 0);
+
+export const usedMargin = (positions: Position[]) =>
+  positions.reduce((acc, pos) => acc + positionMargin(pos), 0);
+
+export const accountEquity = (state: AccountState, marks: MarkPrices) =>
+  state.balance + usedMargin(state.positions) + reservedMargin(state.orders) + unrealizedPnl(state.positions, marks) +
+  collateralValue(state.collateral, marks);
+
+export const requiredMargin = (quantity: number, price: number, leverage: number) =>
+  (quantity * price) / leverage;
+
+export const reservedMargin = (orders: PendingOrder[]) =>
+  orders.reduce((acc, order) => acc + order.reservedMargin, 0);
+
+// Seed account
+
+const seedPosition = (): Position => ({
+  id: '1',
+  symbol: 'BTC',
+  side: 'LONG',
+  quantity: 0.25,
+  entryPrice: 41200.50,
+  leverage: 10,
+  marginMode: 'CROSS',
+  stopLoss: 40000,
+  takeProfit: 45000,
+  fundingPaid: 0,
+  lots: [{ id: 't1', quantity: 0.25, price: 41200.50, timestamp: Date.now() - 86400000 }],
+  timestamp: Date.now() - 86400000
+});
+
+// Fresh account; the demo one starts with a BTC long already open
+export const createInitialAccount = (startingBalance = DEFAULT_BALANCE, demo = true): AccountState => {
+  const empty: AccountState = {
+    balance: 0,
+    collateral: [],
+    collateralTransfers: [],
+    realizedPnl: 0,
+    feesPaid: 0,
+    fundingPaid: 0,
+    positions: [],
+    orders: [],
+    trades: [],
+    positionMode: 'ONE_WAY',
+    marginMode: 'CROSS',
+    costs: DEFAULT_COSTS,
+    fundingAnchor: null,
+    riskLimits: DEFAULT_RISK_LIMITS,
+    peakEquity: startingBalance,
+    dayStart: null,
+    lockedUntilDay: null,
+    riskBlocks: [],
+    alerts: [],
+    ledger: [],
+    sequence: 1
+  };
+  const account = post(empty, Date.now(), [{ type: 'DEPOSIT', amount: startingBalance, reference: 'Opening balance' }]);
+  if (!demo) return account;
+
+  const position = seedPosition();
+  return {
+    ...post(account, position.timestamp, [{ type: 'MARGIN_LOCK', amount: -positionMargin(position), reference: position.id }]),
+    positions: [position],
+    trades: [
+      {
+        id: 't1',
+        symbol: position.symbol,
+        side: position.side,
+        quantity: position.quantity,
+        price: position.entryPrice,
+        realizedPnl: 0,
+        fee: 0,
+        funding: 0,
+        positionId: position.id,
+        timestamp: position.timestamp,
+        closeReason: ''
+      }
+    ]
+  };
+};
+
+// Validation, returns a message when the order cannot be accepted
+
+export const sideQuantity = (state: AccountState, symbol: string, side: Side) =>
+  state.positions
+    .filter(p => p.side === side && p.symbol === symbol)
+    .reduce((sum, p) => sum + p.quantity, 0);
+
+// Splits an order into the quantity that closes opposing exposure and the quantity that opens
+export const orderLegs = (state: AccountState, order: Pick<MarketOrder, 'symbol' | 'side' | 'quantity' | 'reduceOnly'>) => {
+  const opposing = sideQuantity(state, order.symbol, oppositeSide(positionSideFor(order.side)));
+  if (order.reduceOnly) return { closing: Math.min(order.quantity, opposing), opening: 0 };
+  if (state.positionMode === 'HEDGE') return { closing: 0, opening: order.quantity };
+  const closing = Math.min(order.quantity, opposing);
+  return { closing, opening: order.quantity - closing };
+};
+
+export const validateOrder = (state: AccountState, order: MarketOrder): Rejection | null => {
+  if (order.quantity <= 0) return reject('INVALID_QUANTITY', 'Quantity must be positive', 'quantity');
+  const side = positionSideFor(order.side);
+  if (order.reduceOnly && order.quantity > sideQuantity(state, order.symbol, oppositeSide(side))) {
+    return reject('INSUFFICIENT_POSITION', 'Not enough position to reduce', 'quantity');
+  }
+
+  const { closing, opening } = orderLegs(state, order);
+  if (opening <= 0) return null;
+  // The opening leg is funded after the closing leg has released its margin
+  const afterClose = reducePositions(state, order.symbol, oppositeSide(side), closing, order.price, order.timestamp, '');
+  const openingFee = tradingFee(opening, order.price, 'TAKER', state.costs);
+  if (requiredMargin(opening, order.price, order.leverage) + openingFee > afterClose.balance) {
+    return reject('INSUFFICIENT_BALANCE', 'Insufficient balance', 'quantity');
+  }
+  return validateProtection(side, order, order.price);
+};
+
+export const validatePositionMode = (state: AccountState, mode: PositionMode): Rejection | null => {
+  if (mode === state.positionMode) return null;
+  if (state.positions.length > 0 || state.orders.length > 0) {
+    return reject('POSITION_MODE_LOCKED', 'Close all positions and orders before changing position mode');
+  }
+  return null;
+};
+
+// Transitions
+
+// Market orders walk the book when there is one; otherwise the cost model's slippage applies
+export const withSlippage = (state: AccountState, order: MarketOrder, book?: OrderBook): MarketOrder => ({
+  ...order,
+  price: book
+    ? walkBook(book, order.side, order.quantity).price
+    : slippedPrice(order.side, order.quantity, order.price, state.costs)
+});
+
+// Fills merge into an open position on the same side, margin mode and bot, at the volume-weighted entry
+const mergeTarget = (state: AccountState, order: OpenOrder) =>
+  state.positions.find(p =>
+    p.symbol === order.symbol && p.side === order.side && p.marginMode === state.marginMode && p.botId === order.botId
+  );
+
+// Margins add up, so the merged leverage is whatever the combined notional over combined margin works out to
+const mergePosition = (position: Position, order: OpenOrder, lot: PositionLot): Position => {
+  const quantity = position.quantity + order.quantity;
+  const notional = positionNotional(position) + order.quantity * order.entryPrice;
+  const margin = positionMargin(position) + requiredMargin(order.quantity, order.entryPrice, order.leverage);
+  return {
+    ...position,
+    quantity,
+    entryPrice: notional / quantity,
+    leverage: notional / margin,
+    stopLoss: order.stopLoss ?? trailingStop(order.side, order.entryPrice, order.trailingDistance) ?? position.stopLoss,
+    takeProfit: order.takeProfit ?? position.takeProfit,
+    trailingDistance: order.trailingDistance ?? position.trailingDistance,
+    lots: [...position.lots, lot]
+  };
+};
+
+export const openPosition = (state: AccountState, order: OpenOrder, liquidity: Liquidity = 'TAKER'): AccountState => {
+  const existing = mergeTarget(state, order);
+  const positionId = existing ? existing.id : `pos-${state.sequence}`;
+  const tradeId = existing ? `trade-${state.sequence}` : `trade-${state.sequence + 1}`;
+  const lot: PositionLot = { id: tradeId, quantity: order.quantity, price: order.entryPrice, timestamp: order.timestamp };
+  const position: Position = existing ? mergePosition(existing, order, lot) : {
+    id: positionId,
+    ...order,
+    marginMode: state.marginMode,
+    stopLoss: order.stopLoss ?? trailingStop(order.side, order.entryPrice, order.trailingDistance),
+    fundingPaid: 0,
+    lots: [lot]
+  };
+  const fee = tradingFee(order.quantity, order.entryPrice, liquidity, state.costs);
+  const trade: Trade = {
+    id: tradeId,
+    symbol: position.symbol,
+    side: position.side,
+    quantity: order.quantity,
+    price: order.entryPrice,
+    realizedPnl: 0,
+    fee,
+    funding: 0,
+    botId: order.botId,
+    positionId,
+    timestamp: order.timestamp,
+    closeReason: ''
+  };
+  const margin = requiredMargin(order.quantity, order.entryPrice, order.leverage);
+  const posted = post(state, order.timestamp, [
+    { type: 'MARGIN_LOCK', amount: -margin, reference: positionId },
+    { type: 'FEE', amount: -fee, reference: tradeId }
+  ]);
+  return {
+    ...posted,
+    feesPaid: state.feesPaid + fee,
+    positions: existing
+      ? state.positions.map(p => (p.id === existing.id ? position : p))
+      : [...state.positions, position],
+    trades: [trade, ...state.trades],
+    sequence: state.sequence + (existing ? 1 : 2)
+  };
+};
+
+// Closes take lots oldest first
+const consumeLots = (lots: PositionLot[], quantity: number) => {
+  let remaining = quantity;
+  const closed: LotFill[] = [];
+  const open: PositionLot[] = [];
+  for (const lot of lots) {
+    const taken = Math.min(lot.quantity, remaining);
+    if (taken > 0) closed.push({ lotId: lot.id, quantity: taken, entryPrice: lot.price });
+    if (lot.quantity > taken) open.push({ ...lot, quantity: lot.quantity - taken });
+    remaining -= taken;
+  }
+  return { closed, open };
+};
+
+export const closePosition = (
+  state: AccountState,
+  positionId: string,
+  quantity: number,
+  price: number,
+  timestamp: number,
+  reason: string,
+  liquidity: Liquidity = 'TAKER'
+): AccountState => {
+  const position = state.positions.find(p => p.id === positionId);
+  if (!position || quantity <= 0) return state;
+
+  const closedQty = Math.min(quantity, position.quantity);
+  const pnl = positionPnl(position, price, closedQty);
+  const marginReleased = (closedQty * position.entryPrice) / position.leverage;
+  const remaining = position.quantity - closedQty;
+  const fee = tradingFee(closedQty, price, liquidity, state.costs);
+  // Funding was already settled against the balance; the trade just carries its share
+  const funding = (position.fundingPaid * closedQty) / position.quantity;
+  const lots = consumeLots(position.lots, closedQty);
+
+  const trade: Trade = {
+    id: `trade-${state.sequence}`,
+    symbol: position.symbol,
+    side: position.side,
+    quantity: closedQty,
+    price,
+    realizedPnl: pnl,
+    fee,
+    funding,
+    botId: position.botId,
+    positionId,
+    lots: lots.closed,
+    timestamp,
+    closeReason: reason
+  };
+
+  const posted = post(state, timestamp, [
+    { type: 'MARGIN_RELEASE', amount: marginReleased, reference: positionId },
+    { type: reason === 'Liquidation' ? 'LIQUIDATION' : 'REALIZED_PNL', amount: pnl, reference: trade.id },
+    { type: 'FEE', amount: -fee, reference: trade.id }
+  ]);
+  return {
+    ...posted,
+    realizedPnl: state.realizedPnl + pnl,
+    feesPaid: state.feesPaid + fee,
+    positions: remaining > 0
+      ? state.positions.map(p =>
+          p.id === positionId ? { ...p, quantity: remaining, fundingPaid: p.fundingPaid - funding, lots: lots.open } : p
+        )
+      : state.positions.filter(p => p.id !== positionId),
+    trades: [trade, ...state.trades],
+    sequence: state.sequence + 1
+  };
+};
+
+// Closes `side` positions in `symbol` oldest first until `quantity` is covered
+export const reducePositions = (
+  state: AccountState,
+  symbol: string,
+  side: Side,
+  quantity: number,
+  price: number,
+  timestamp: number,
+  reason: string,
+  liquidity: Liquidity = 'TAKER'
+): AccountState => {
+  let remainingQty = quantity;
+  let next = state;
+  for (const position of state.positions) {
+    if (remainingQty <= 0) break;
+    if (position.side !== side || position.symbol !== symbol) continue;
+    const closedQty = Math.min(position.quantity, remainingQty);
+    next = closePosition(next, position.id, closedQty, price, timestamp, reason, liquidity);
+    remainingQty -= closedQty;
+  }
+  return next;
+};
+
+// Nets the order against opposing positions, then opens whatever is left
+export const executeOrder = (
+  state: AccountState,
+  order: MarketOrder,
+  reason: string,
+  liquidity: Liquidity = 'TAKER'
+): AccountState => {
+  const side = positionSideFor(order.side);
+  const { closing, opening } = orderLegs(state, order);
+  const reduced = reducePositions(
+    state, order.symbol, oppositeSide(side), closing, order.price, order.timestamp, reason, liquidity
+  );
+  if (opening <= 0) return reduced;
+  return openPosition(reduced, {
+    symbol: order.symbol,
+    side,
+    quantity: opening,
+    entryPrice: order.price,
+    leverage: order.leverage,
+    stopLoss: order.stopLoss,
+    takeProfit: order.takeProfit,
+    trailingDistance: order.trailingDistance,
+    botId: order.botId,
+    timestamp: order.timestamp
+  }, liquidity);
+};
+
+// Pending limit orders
+
+// A limit order is marketable when it would trade against the current mark
+export const isMarketable = (side: OrderSide, limitPrice: number, markPrice: number) =>
+  side === 'BUY' ? markPrice <= limitPrice : markPrice >= limitPrice;
+
+// Buy stops fire on a rise through the stop, sell stops on a fall
+export const isStopTriggered = (side: OrderSide, stopPrice: number, markPrice: number) =>
+  side === 'BUY' ? markPrice >= stopPrice : markPrice <= stopPrice;
+
+const ORDER_TYPE_LABELS: Record<PendingOrderType, string> = {
+  LIMIT: 'Limit',
+  STOP_MARKET: 'Stop',
+  STOP_LIMIT: 'Stop Limit'
+};
+
+// Triggered stop-limits are plain limits that still carry their stop price
+const fillReason = (order: LimitOrderRequest) => {
+  const type = order.type === 'LIMIT' && order.stopPrice !== undefined ? 'STOP_LIMIT' : order.type;
+  return `${ORDER_TYPE_LABELS[type]} ${order.side === 'BUY' ? 'Buy' : 'Sell'}`;
+};
+
+// Bracket exits stay dormant while their entry is still resting
+export const isArmed = (state: AccountState, order: LimitOrderRequest) =>
+  order.groupRole !== 'EXIT' ||
+  !state.orders.some(o => o.groupId === order.groupId && o.groupRole === 'ENTRY');
+
+// Margin for the part of the order that would open exposure at its limit
+export const orderReserve = (state: AccountState, order: LimitOrderRequest) =>
+  requiredMargin(orderLegs(state, order).opening, order.limitPrice, order.leverage);
+
+export const toMarketOrder = (order: LimitOrderRequest, price: number, timestamp: number): MarketOrder => ({
+  symbol: order.symbol,
+  side: order.side,
+  quantity: order.quantity,
+  price,
+  leverage: order.leverage,
+  stopLoss: order.stopLoss,
+  takeProfit: order.takeProfit,
+  trailingDistance: order.trailingDistance,
+  reduceOnly: order.reduceOnly,
+  botId: order.botId,
+  timestamp
+});
+
+export const validateLimitOrder = (
+  state: AccountState,
+  order: LimitOrderRequest,
+  marks: MarkPrices
+): Rejection | null => {
+  if (order.quantity <= 0) return reject('INVALID_QUANTITY', 'Quantity must be positive', 'quantity');
+  if (order.type !== 'STOP_MARKET' && order.limitPrice <= 0) {
+    return reject('INVALID_PRICE', 'Limit price must be positive', 'price');
+  }
+  const mark = marks[order.symbol];
+  if (mark === undefined) return reject('NO_MARKET', `No market for ${order.symbol}`);
+
+  // Stops reserve at their limit and are funded again when they fire
+  if (order.type !== 'LIMIT') {
+    if (order.stopPrice === undefined || order.stopPrice <= 0) {
+      return reject('INVALID_PRICE', 'Stop price must be positive', 'stopPrice');
+    }
+    if (isStopTriggered(order.side, order.stopPrice, mark)) {
+      return reject(
+        'INVALID_PRICE',
+        `A ${order.side.toLowerCase()} stop must be ${order.side === 'BUY' ? 'above' : 'below'} the current price`,
+        'stopPrice'
+      );
+    }
+    return validateOrder(state, toMarketOrder(order, order.limitPrice, order.timestamp));
+  }
+
+  const marketable = isMarketable(order.side, order.limitPrice, mark);
+  if (order.timeInForce === 'POST_ONLY' && marketable) {
+    return reject('WOULD_TAKE_LIQUIDITY', 'Post-only order would take liquidity', 'price');
+  }
+  if ((order.timeInForce === 'IOC' || order.timeInForce === 'FOK') && !marketable) {
+    return reject('CANNOT_FILL', `${order.timeInForce} order cannot fill at the current price`, 'price');
+  }
+
+  // Marketable orders fill at the mark; resting ones reserve at their limit
+  return validateOrder(state, toMarketOrder(order, marketable ? mark : order.limitPrice, order.timestamp));
+};
+
+// A filled entry arms its bracket exits; any other fill or drop ends the group
+const settleGroup = (state: AccountState, order: LimitOrderRequest, filled: boolean, timestamp: number) => {
+  if (!order.groupId || (filled && order.groupRole === 'ENTRY')) return state;
+  return cancelGroup(state, order.groupId, timestamp);
+};
+
+// Fills a pending order; one that can no longer be funded is dropped
+const executeLimit = (
+  state: AccountState,
+  order: LimitOrderRequest,
+  price: number,
+  timestamp: number,
+  liquidity: Liquidity
+): AccountState => {
+  const request = toMarketOrder(order, price, timestamp);
+  const filled = !validateOrder(state, request);
+  const next = filled ? executeOrder(state, request, fillReason(order), liquidity) : state;
+  return settleGroup(next, order, filled, timestamp);
+};
+
+// Adds the order to the book without trying to fill it
+const restOrder = (state: AccountState, order: LimitOrderRequest): AccountState => {
+  const pending: PendingOrder = {
+    ...order,
+    id: `ord-${state.sequence}`,
+    reservedMargin: orderReserve(state, order)
+  };
+  return {
+    ...post(state, order.timestamp, [{ type: 'MARGIN_LOCK', amount: -pending.reservedMargin, reference: pending.id }]),
+    orders: [...state.orders, pending],
+    sequence: state.sequence + 1
+  };
+};
+
+export const placeLimitOrder = (
+  state: AccountState,
+  order: LimitOrderRequest,
+  marks: MarkPrices
+): AccountState => {
+  const mark = marks[order.symbol];
+  if (order.type === 'LIMIT' && isMarketable(order.side, order.limitPrice, mark)) {
+    return executeLimit(state, order, mark, order.timestamp, 'TAKER');
+  }
+  return restOrder(state, order);
+};
+
+export const validateOrderGroup = (
+  state: AccountState,
+  group: OrderGroupRequest,
+  marks: MarkPrices
+): Rejection | null => {
+  if (group.kind === 'OCO') {
+    const [first, second] = group.legs;
+    if (first.symbol !== second.symbol) return reject('INVALID_GROUP', 'OCO legs must be for the same symbol');
+    const error = validateLimitOrder(state, first, marks);
+    if (error) return error;
+    // The second leg has to be funded alongside the first
+    return validateLimitOrder(placeLimitOrder(state, first, marks), second, marks);
+  }
+
+  if (!group.stopLoss) return reject('INVALID_STOP_LOSS', 'A bracket needs a stop loss', 'stopLoss');
+  if (!group.takeProfit) return reject('INVALID_TAKE_PROFIT', 'A bracket needs a take profit', 'takeProfit');
+  const side = positionSideFor(group.entry.side);
+  const exits = { stopLoss: group.stopLoss, takeProfit: group.takeProfit };
+  return validateLimitOrder(state, group.entry, marks) ?? validateProtection(side, exits, group.entry.limitPrice);
+};
+
+export const placeOrderGroup = (
+  state: AccountState,
+  group: OrderGroupRequest,
+  marks: MarkPrices
+): AccountState => {
+  const groupId = `grp-${state.sequence}`;
+  const numbered = { ...state, sequence: state.sequence + 1 };
+
+  if (group.kind === 'OCO') {
+    const [first, second] = group.legs.map(leg => ({ ...leg, groupId, groupRole: 'OCO' as const }));
+    const placed = placeLimitOrder(numbered, first, marks);
+    // A first leg that filled on arrival leaves nothing for the second to cancel
+    if (!placed.orders.some(o => o.groupId === groupId)) return placed;
+    return placeLimitOrder(placed, second, marks);
+  }
+
+  const { entry } = group;
+  const exit: LimitOrderRequest = {
+    symbol: entry.symbol,
+    side: entry.side === 'BUY' ? 'SELL' : 'BUY',
+    quantity: entry.quantity,
+    type: 'LIMIT',
+    limitPrice: group.takeProfit,
+    leverage: entry.leverage,
+    timeInForce: 'GTC',
+    reduceOnly: true,
+    botId: entry.botId,
+    groupId,
+    groupRole: 'EXIT',
+    timestamp: entry.timestamp
+  };
+  const placed = placeLimitOrder(numbered, { ...entry, groupId, groupRole: 'ENTRY' }, marks);
+  const withTarget = restOrder(placed, exit);
+  return restOrder(withTarget, { ...exit, type: 'STOP_MARKET', limitPrice: group.stopLoss, stopPrice: group.stopLoss });
+};
+
+export const cancelOrder = (state: AccountState, orderId: string, timestamp: number): AccountState => {
+  const order = state.orders.find(o => o.id === orderId);
+  if (!order) return state;
+  return {
+    ...post(state, timestamp, [{ type: 'MARGIN_RELEASE', amount: order.reservedMargin, reference: orderId }]),
+    orders: state.orders.filter(o => o.id !== orderId)
+  };
+};
+
+// Cancelling any order in a group cancels the rest of it
+export const cancelGroup = (state: AccountState, groupId: string, timestamp: number): AccountState =>
+  state.orders
+    .filter(o => o.groupId === groupId)
+    .reduce((next, o) => cancelOrder(next, o.id, timestamp), state);
+
+export const validateAmendOrder = (
+  state: AccountState,
+  orderId: string,
+  limitPrice: number,
+  quantity: number,
+  marks: MarkPrices
+): Rejection | null => {
+  const order = state.orders.find(o => o.id === orderId);
+  if (!order) return reject('ORDER_NOT_FOUND', 'Order not found');
+  if (order.type !== 'LIMIT' || order.groupId) {
+    return reject('NOT_AMENDABLE', 'Only standalone limit orders can be amended');
+  }
+  return validateLimitOrder(cancelOrder(state, orderId, order.timestamp), { ...order, limitPrice, quantity }, marks);
+};
+
+// Amending keeps the order id; marketable amendments fill straight away
+export const amendOrder = (
+  state: AccountState,
+  orderId: string,
+  limitPrice: number,
+  quantity: number,
+  marks: MarkPrices,
+  timestamp: number
+): AccountState => {
+  const order = state.orders.find(o => o.id === orderId);
+  if (!order) return state;
+
+  const released = cancelOrder(state, orderId, timestamp);
+  const amended: PendingOrder = { ...order, limitPrice, quantity, reservedMargin: 0 };
+  const mark = marks[order.symbol];
+  if (isMarketable(amended.side, amended.limitPrice, mark)) {
+    return executeLimit(released, amended, mark, timestamp, 'TAKER');
+  }
+  amended.reservedMargin = orderReserve(released, amended);
+  return {
+    ...post(released, timestamp, [{ type: 'MARGIN_LOCK', amount: -amended.reservedMargin, reference: orderId }]),
+    orders: state.orders.map(o => (o.id === orderId ? amended : o))
+  };
+};
+
+// Triggered stop-markets fill at the mark; triggered stop-limits become plain limits
+const triggerStop = (state: AccountState, order: PendingOrder, mark: number, timestamp: number): AccountState => {
+  if (order.stopPrice === undefined || !isStopTriggered(order.side, order.stopPrice, mark)) return state;
+  if (order.type === 'STOP_MARKET') return executeLimit(cancelOrder(state, order.id, timestamp), order, mark, timestamp, 'TAKER');
+
+  const limit: PendingOrder = { ...order, type: 'LIMIT' };
+  if (isMarketable(limit.side, limit.limitPrice, mark)) {
+    return executeLimit(cancelOrder(state, order.id, timestamp), limit, mark, timestamp, 'TAKER');
+  }
+  return { ...state, orders: state.orders.map(o => (o.id === order.id ? limit : o)) };
+};
+
+// Resting limits fill at their limit once the mark trades through it
+export const fillPendingOrders = (state: AccountState, marks: MarkPrices, timestamp: number): AccountState =>
+  state.orders.reduce((next, order) => {
+    const mark = marks[order.symbol];
+    // Earlier fills may have cancelled this order's group or armed its exits
+    const current = next.orders.find(o => o.id === order.id);
+    if (mark === undefined || !current || !isArmed(next, current)) return next;
+    if (current.type !== 'LIMIT') return triggerStop(next, current, mark, timestamp);
+    if (!isMarketable(current.side, current.limitPrice, mark)) return next;
+    return executeLimit(cancelOrder(next, current.id, timestamp), current, current.limitPrice, timestamp, 'MAKER');
+  }, state);
+
+// Stop-loss and take-profit
+
+const trailingStop = (side: Side, price: number, distance?: number) =>
+  distance ? price - directionOf(side) * distance : undefined;
+
+// A level is valid when it sits on the losing (SL) or winning (TP) side of the reference price
+export const validateProtection = (side: Side, protection: Protection, referencePrice: number): Rejection | null => {
+  const direction = directionOf(side);
+  if (protection.stopLoss !== undefined && direction * (referencePrice - protection.stopLoss) <= 0) {
+    return reject(
+      'INVALID_STOP_LOSS',
+      `Stop loss on a ${side} must be ${side === 'LONG' ? 'below' : 'above'} ${referencePrice}`,
+      'stopLoss'
+    );
+  }
+  if (protection.takeProfit !== undefined && direction * (protection.takeProfit - referencePrice) <= 0) {
+    return reject(
+      'INVALID_TAKE_PROFIT',
+      `Take profit on a ${side} must be ${side === 'LONG' ? 'above' : 'below'} ${referencePrice}`,
+      'takeProfit'
+    );
+  }
+  if (protection.trailingDistance !== undefined && protection.trailingDistance <= 0) {
+    return reject('INVALID_TRAILING', 'Trailing distance must be positive', 'trailingDistance');
+  }
+  return null;
+};
+
+// Checks that hold for either side, so the ticket can flag inputs before BUY or SELL is pressed
+export const ticketRejections = (
+  quantity: number,
+  price: number,
+  protection: Protection,
+  stopPrice?: number
+): Rejection[] => {
+  const { stopLoss, takeProfit, trailingDistance } = protection;
+  const rejections: Rejection[] = [];
+  if (quantity <= 0) rejections.push(reject('INVALID_QUANTITY', 'Quantity must be positive', 'quantity'));
+  if (price <= 0) rejections.push(reject('INVALID_PRICE', 'Price must be positive', 'price'));
+  if (stopPrice !== undefined && stopPrice <= 0) {
+    rejections.push(reject('INVALID_PRICE', 'Stop price must be positive', 'stopPrice'));
+  }
+  if (stopLoss !== undefined && stopLoss === price) {
+    rejections.push(reject('INVALID_STOP_LOSS', 'Stop loss cannot equal the entry price', 'stopLoss'));
+  }
+  if (takeProfit !== undefined && takeProfit === price) {
+    rejections.push(reject('INVALID_TAKE_PROFIT', 'Take profit cannot equal the entry price', 'takeProfit'));
+  }
+  if (stopLoss !== undefined && takeProfit !== undefined && Math.sign(stopLoss - price) === Math.sign(takeProfit - price)) {
+    rejections.push(reject('INVALID_TAKE_PROFIT', 'Stop loss and take profit must sit on opposite sides of the entry', 'takeProfit'));
+  }
+  if (trailingDistance !== undefined && trailingDistance <= 0) {
+    rejections.push(reject('INVALID_TRAILING', 'Trailing distance must be positive', 'trailingDistance'));
+  }
+  return rejections;
+};
+
+export const updateProtection = (
+  state: AccountState,
+  positionId: string,
+  protection: Protection,
+  markPrice: number
+): AccountState => ({
+  ...state,
+  positions: state.positions.map(p => {
+    if (p.id !== positionId) return p;
+    const trailed = trailingStop(p.side, markPrice, protection.trailingDistance);
+    return { ...p, ...protection, stopLoss: protection.stopLoss ?? trailed };
+  })
+});
+
+// Ratchets trailing stops towards the mark; they never move back
+const trailStop = (position: Position, markPrice: number): Position => {
+  const trailed = trailingStop(position.side, markPrice, position.trailingDistance);
+  if (trailed === undefined) return position;
+  if (position.stopLoss !== undefined && directionOf(position.side) * (trailed - position.stopLoss) <= 0) {
+    return position;
+  }
+  return { ...position, stopLoss: trailed };
+};
+
+export const protectionTrigger = (position: Position, markPrice: number): string | null => {
+  const direction = directionOf(position.side);
+  if (position.stopLoss !== undefined && direction * (markPrice - position.stopLoss) <= 0) return 'Stop Loss';
+  if (position.takeProfit !== undefined && direction * (markPrice - position.takeProfit) >= 0) return 'Take Profit';
+  return null;
+};
+
+// Trails stops, then closes every position whose SL or TP the mark has crossed
+export const applyProtection = (state: AccountState, marks: MarkPrices, timestamp: number): AccountState => {
+  let changed = false;
+  const positions = state.positions.map(p => {
+    const trailed = trailStop(p, markFor(marks, p));
+    if (trailed !== p) changed = true;
+    return trailed;
+  });
+  const trailedState = changed ? { ...state, positions } : state;
+
+  return trailedState.positions.reduce((next, position) => {
+    const mark = markFor(marks, position);
+    const reason = protectionTrigger(position, mark);
+    return reason ? closePosition(next, position.id, position.quantity, mark, timestamp, reason) : next;
+  }, trailedState);
+};
+
+// Funding
+
+// Settles every funding interval that ended since the last tick against the balance
+export const applyFunding = (state: AccountState, marks: MarkPrices, timestamp: number): AccountState => {
+  const interval = state.costs.fundingIntervalMs;
+  // Start counting at the current interval; feeds that jump back in time restart it
+  if (state.fundingAnchor === null || timestamp < state.fundingAnchor) {
+    return { ...state, fundingAnchor: Math.floor(timestamp / interval) * interval };
+  }
+
+  const intervals = Math.floor((timestamp - state.fundingAnchor) / interval);
+  if (intervals <= 0) return state;
+
+  let total = 0;
+  const positions = state.positions.map(p => {
+    const payment = fundingPayment(p, markFor(marks, p), state.costs, intervals);
+    total += payment;
+    return { ...p, fundingPaid: p.fundingPaid + payment };
+  });
+  const settled = state.fundingAnchor + intervals * interval;
+  return {
+    ...post(state, settled, [{ type: 'FUNDING', amount: -total }]),
+    fundingPaid: state.fundingPaid + total,
+    positions,
+    fundingAnchor: settled
+  };
+};
+
+// Liquidation
+
+// Brings the free balance back up to `floor` out of the insurance fund; the latest trade is credited with it
+const coverShortfall = (state: AccountState, floor: number, timestamp: number): AccountState => {
+  const shortfall = floor - state.balance;
+  const [trade, ...older] = state.trades;
+  if (shortfall <= 0 || !trade) return state;
+  return {
+    ...post(state, timestamp, [{ type: 'INSURANCE', amount: shortfall, reference: trade.id }]),
+    realizedPnl: state.realizedPnl + shortfall,
+    trades: [{ ...trade, realizedPnl: trade.realizedPnl + shortfall }, ...older]
+  };
+};
+
+// Force-closes breached isolated positions, then every cross position if the shared pool is breached.
+// Fills are at the mark, but a gap past the bankruptcy price never costs more than the margin at risk:
+// an isolated position cannot touch the free balance, and cross positions cannot take it below zero
+export const applyLiquidations = (state: AccountState, marks: MarkPrices, timestamp: number): AccountState => {
+  const isolated = state.positions
+    .filter(p => p.marginMode === 'ISOLATED' && isLiquidatable(state, p, marks))
+    .reduce((next, p) => coverShortfall(
+      closePosition(next, p.id, p.quantity, markFor(marks, p), timestamp, 'Liquidation'),
+      next.balance,
+      timestamp
+    ), state);
+
+  const cross = isolated.positions.filter(p => p.marginMode === 'CROSS');
+  if (cross.length === 0 || !isLiquidatable(isolated, cross[0], marks)) return isolated;
+  const closed = cross.reduce(
+    (next, p) => closePosition(next, p.id, p.quantity, markFor(marks, p), timestamp, 'Liquidation'),
+    isolated
+  );
+  return coverShortfall(closed, 0, timestamp);
+};
+
+export const closeAll = (state: AccountState, marks: MarkPrices, timestamp: number, reason: string) =>
+  state.positions.reduce(
+    (next, position) =>
+      closePosition(next, position.id, position.quantity, markFor(marks, position), timestamp, reason),
+    state
+  );
+
+// Position management
+
+// Market order that opens the opposite side for the same size once the position is closed
+export const reverseOrder = (position: Position, price: number, timestamp: number): MarketOrder => ({
+  symbol: position.symbol,
+  side: position.side === 'LONG' ? 'SELL' : 'BUY',
+  quantity: position.quantity,
+  price,
+  leverage: position.leverage,
+  botId: position.botId,
+  timestamp
+});
+
+export const validateReverse = (state: AccountState, positionId: string, marks: MarkPrices): Rejection | null => {
+  const position = state.positions.find(p => p.id === positionId);
+  if (!position) return reject('POSITION_NOT_FOUND', 'Position not found');
+  const mark = markFor(marks, position);
+  const closed = closePosition(state, positionId, position.quantity, mark, 0, '');
+  return validateOrder(closed, reverseOrder(position, mark, 0));
+};
+
+export const reversePosition = (state: AccountState, positionId: string, marks: MarkPrices, timestamp: number) => {
+  const position = state.positions.find(p => p.id === positionId);
+  if (!position) return state;
+  const mark = markFor(marks, position);
+  const closed = closePosition(state, positionId, position.quantity, mark, timestamp, 'Reverse');
+  return executeOrder(closed, reverseOrder(position, mark, timestamp), 'Reverse');
+};
+
+// Leverage only goes down: the margin that takes comes out of the free balance
+export const validatePositionLeverage = (state: AccountState, positionId: string, leverage: number): Rejection | null => {
+  const position = state.positions.find(p => p.id === positionId);
+  if (!position) return reject('POSITION_NOT_FOUND', 'Position not found');
+  if (!(leverage >= 1) || leverage > position.leverage) {
+    return reject('INVALID_LEVERAGE', `Leverage must be between 1 and ${position.leverage}`, 'leverage');
+  }
+  if (positionNotional(position) / leverage - positionMargin(position) > state.balance) {
+    return reject('INSUFFICIENT_BALANCE', 'Insufficient balance', 'leverage');
+  }
+  return null;
+};
+
+export const setPositionLeverage = (
+  state: AccountState,
+  positionId: string,
+  leverage: number,
+  timestamp: number
+): AccountState => {
+  const position = state.positions.find(p => p.id === positionId);
+  if (!position) return state;
+  const added = positionNotional(position) / leverage - positionMargin(position);
+  return {
+    ...post(state, timestamp, [{ type: 'MARGIN_LOCK', amount: -added, reference: positionId }]),
+    positions: state.positions.map(p => (p.id === positionId ? { ...p, leverage } : p))
+  };
+};
+
+// The leverage a position ends up at once `margin` more is posted against it
+export const leverageWithMargin = (position: Position, margin: number) =>
+  positionNotional(position) / (positionMargin(position) + margin);
+
+// Transfers
+
+export const validateTransfer = (state: AccountState, type: 'DEPOSIT' | 'WITHDRAW', amount: number): Rejection | null => {
+  if (!(amount > 0)) return reject('INVALID_AMOUNT', 'Amount must be positive', 'amount');
+  if (type === 'WITHDRAW' && amount > state.balance) {
+    return reject('INSUFFICIENT_BALANCE', 'Only the free balance can be withdrawn', 'amount');
+  }
+  return null;
+};
+
+// Transfers move the drawdown reference points too, so they never read as gains or losses
+const shiftReferenceEquity = (state: AccountState, amount: number): AccountState => ({
+  ...state,
+  peakEquity: state.peakEquity + amount,
+  dayStart: state.dayStart ? { ...state.dayStart, equity: state.dayStart.equity + amount } : null
+});
+
+export const transfer = (state: AccountState, amount: number, timestamp: number): AccountState =>
+  shiftReferenceEquity(post(state, timestamp, [{ type: amount > 0 ? 'DEPOSIT' : 'WITHDRAWAL', amount }]), amount);
+
+// Coins count toward equity at their haircut value, so that is what they move it by
+export const transferCollateral = (
+  state: AccountState,
+  asset: string,
+  amount: number,
+  marks: MarkPrices,
+  timestamp: number
+): AccountState => {
+  const value = holdingValue({ asset, amount }, marks);
+  const record: CollateralTransfer = { id: `col-${state.collateralTransfers.length + 1}`, asset, amount, value, timestamp };
+  return shiftReferenceEquity(
+    {
+      ...state,
+      collateral: adjustHolding(state.collateral, asset, amount),
+      collateralTransfers: [...state.collateralTransfers, record]
+    },
+    value
+  );
+};
+
+export const accountReducer = (state: AccountState, action: EngineAction): AccountState => {
+  switch (action.type) {
+    case 'EXECUTE_ORDER': {
+      const order = withSlippage(state, action.order, action.book);
+      if (validateOrder(state, order)) return state;
+      return executeOrder(state, order, action.reason);
+    }
+    case 'CLOSE_ALL':
+      return closeAll(state, action.marks, action.timestamp, action.reason);
+    case 'PLACE_LIMIT_ORDER':
+      if (validateLimitOrder(state, action.order, action.marks)) return state;
+      return placeLimitOrder(state, action.order, action.marks);
+    case 'PLACE_ORDER_GROUP':
+      if (validateOrderGroup(state, action.group, action.marks)) return state;
+      return placeOrderGroup(state, action.group, action.marks);
+    case 'CANCEL_ORDER': {
+      const order = state.orders.find(o => o.id === action.orderId);
+      return order?.groupId
+        ? cancelGroup(state, order.groupId, action.timestamp)
+        : cancelOrder(state, action.orderId, action.timestamp);
+    }
+    case 'AMEND_ORDER':
+      if (validateAmendOrder(state, action.orderId, action.limitPrice, action.quantity, action.marks)) return state;
+      return amendOrder(state, action.orderId, action.limitPrice, action.quantity, action.marks, action.timestamp);
+    case 'UPDATE_PROTECTION': {
+      const position = state.positions.find(p => p.id === action.positionId);
+      if (!position) return state;
+      const mark = markFor(action.marks, position);
+      if (validateProtection(position.side, action.protection, mark)) return state;
+      return updateProtection(state, action.positionId, action.protection, mark);
+    }
+    case 'CLOSE_POSITION': {
+      const position = state.positions.find(p => p.id === action.positionId);
+      if (!position) return state;
+      return closePosition(
+        state, action.positionId, action.quantity, markFor(action.marks, position), action.timestamp, action.reason
+      );
+    }
+    case 'REVERSE_POSITION':
+      if (validateReverse(state, action.positionId, action.marks)) return state;
+      return reversePosition(state, action.positionId, action.marks, action.timestamp);
+    case 'SET_POSITION_LEVERAGE':
+      if (validatePositionLeverage(state, action.positionId, action.leverage)) return state;
+      return setPositionLeverage(state, action.positionId, action.leverage, action.timestamp);
+    case 'DEPOSIT':
+      if (validateTransfer(state, 'DEPOSIT', action.amount)) return state;
+      return transfer(state, action.amount, action.timestamp);
+    case 'WITHDRAW':
+      if (validateTransfer(state, 'WITHDRAW', action.amount)) return state;
+      return transfer(state, -action.amount, action.timestamp);
+    case 'DEPOSIT_COLLATERAL':
+      if (validateCollateralDeposit(action.asset, action.amount)) return state;
+      return transferCollateral(state, action.asset, action.amount, action.marks, action.timestamp);
+    case 'WITHDRAW_COLLATERAL':
+      if (validateCollateralWithdrawal(state, action.asset, action.amount, action.marks)) return state;
+      return transferCollateral(state, action.asset, -action.amount, action.marks, action.timestamp);
+    case 'MARKET_TICK': {
+      const funded = applyFunding(state, action.marks, action.timestamp);
+      const filled = fillPendingOrders(funded, action.marks, action.timestamp);
+      const protectedState = applyProtection(filled, action.marks, action.timestamp);
+      const liquidated = applyLiquidations(protectedState, action.marks, action.timestamp);
+      return trackEquity(liquidated, action.marks, action.timestamp);
+    }
+    case 'SET_POSITION_MODE':
+      if (validatePositionMode(state, action.mode)) return state;
+      return { ...state, positionMode: action.mode };
+    case 'SET_MARGIN_MODE':
+      return { ...state, marginMode: action.mode };
+    case 'SET_COSTS':
+      return { ...state, costs: action.costs };
+    case 'SET_RISK_LIMITS':
+      return { ...state, riskLimits: action.limits };
+    case 'LOG_RISK_BLOCK':
+      return logRiskBlock(state, action.block);
+    case 'ADD_ALERT': {
+      const alert: PriceAlert = {
+        id: `alert-${state.sequence}`,
+        symbol: action.symbol,
+        condition: action.condition,
+        createdAt: action.timestamp
+      };
+      return { ...state, alerts: [...state.alerts, alert], sequence: state.sequence + 1 };
+    }
+    case 'REMOVE_ALERT':
+      return { ...state, alerts: state.alerts.filter(a => a.id !== action.alertId) };
+    case 'TRIGGER_ALERTS':
+      return { ...state, alerts: markTriggered(state.alerts, action.triggers, action.timestamp) };
+    case 'LOAD':
+      return action.account;
+    // An exchange's account replaces the trading history but not the dashboard's own settings
+    case 'SYNC_ACCOUNT':
+      return { ...action.account, riskLimits: state.riskLimits, riskBlocks: state.riskBlocks, alerts: state.alerts };
+    // Risk limits and alerts are user settings rather than trading history, so they survive a reset
+    case 'RESET':
+      return { ...createInitialAccount(action.balance, action.demo), riskLimits: state.riskLimits, alerts: state.alerts };
+    default:
+      return state;
+  }
+};